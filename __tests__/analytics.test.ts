@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  truncateToInterval,
+  countBuckets,
+  buildTimeSeries,
+  getRefererName,
+  summarizeBreakdown,
+  summarizeVariants,
+} from '@/lib/analytics';
+
+/**
+ * Real tests for click analytics helpers
+ * Tests the ACTUAL functions from lib/analytics.ts
+ */
+
+describe('Analytics Helpers - Real Implementation', () => {
+  describe('truncateToInterval()', () => {
+    const date = new Date('2026-02-05T14:37:12.345Z'); // Thursday
+
+    it('should truncate to the start of the hour', () => {
+      expect(truncateToInterval(date, 'hour').toISOString()).toBe('2026-02-05T14:00:00.000Z');
+    });
+
+    it('should truncate to the start of the day', () => {
+      expect(truncateToInterval(date, 'day').toISOString()).toBe('2026-02-05T00:00:00.000Z');
+    });
+
+    it('should truncate weeks to Monday like Postgres date_trunc', () => {
+      expect(truncateToInterval(date, 'week').toISOString()).toBe('2026-02-02T00:00:00.000Z');
+      const sunday = new Date('2026-02-08T23:59:00.000Z');
+      expect(truncateToInterval(sunday, 'week').toISOString()).toBe('2026-02-02T00:00:00.000Z');
+    });
+  });
+
+  describe('countBuckets()', () => {
+    it('should count inclusive buckets across the range', () => {
+      const from = new Date('2026-02-01T00:00:00.000Z');
+      const to = new Date('2026-02-03T12:00:00.000Z');
+      expect(countBuckets(from, to, 'day')).toBe(3);
+      expect(countBuckets(from, to, 'hour')).toBe(61);
+    });
+  });
+
+  describe('buildTimeSeries()', () => {
+    it('should fill missing buckets with zero clicks', () => {
+      const series = buildTimeSeries(
+        [{ bucket: new Date('2026-02-02T00:00:00.000Z'), clicks: 4 }],
+        'day',
+        new Date('2026-02-01T08:00:00.000Z'),
+        new Date('2026-02-03T08:00:00.000Z')
+      );
+
+      expect(series).toEqual([
+        { bucket: '2026-02-01T00:00:00.000Z', clicks: 0 },
+        { bucket: '2026-02-02T00:00:00.000Z', clicks: 4 },
+        { bucket: '2026-02-03T00:00:00.000Z', clicks: 0 },
+      ]);
+    });
+  });
+
+  describe('getRefererName()', () => {
+    it('should reduce referers to their hostname', () => {
+      expect(getRefererName('https://www.linkedin.com/feed/')).toBe('linkedin.com');
+      expect(getRefererName('https://t.co/abc')).toBe('t.co');
+    });
+
+    it('should report missing or invalid referers as Direct', () => {
+      expect(getRefererName(null)).toBe('Direct');
+      expect(getRefererName('not a url')).toBe('Direct');
+    });
+  });
+
+  describe('summarizeBreakdown()', () => {
+    it('should merge rows by name and sort by clicks', () => {
+      const rows = [
+        { value: 'https://www.google.com/search?q=a', clicks: 2 },
+        { value: 'https://google.com/', clicks: 3 },
+        { value: null, clicks: 4 },
+        { value: 'https://t.co/x', clicks: 1 },
+      ];
+
+      expect(summarizeBreakdown(rows, getRefererName, 2)).toEqual([
+        { name: 'google.com', clicks: 5 },
+        { name: 'Direct', clicks: 4 },
+      ]);
+    });
+  });
+
+  describe('summarizeVariants()', () => {
+    const variants = [
+      { id: 'a', url: 'https://example.com/a', weight: 70 },
+      { id: 'b', url: 'https://example.com/b', weight: 30 },
+    ];
+
+    it('should list every current variant in order, with or without clicks', () => {
+      expect(summarizeVariants(variants, [{ value: 'a', clicks: 12 }])).toEqual([
+        { id: 'a', url: 'https://example.com/a', weight: 70, clicks: 12 },
+        { id: 'b', url: 'https://example.com/b', weight: 30, clicks: 0 },
+      ]);
+    });
+
+    it('should keep clicks of removed variants and skip clicks without a variant', () => {
+      const rows = [
+        { value: 'b', clicks: 3 },
+        { value: 'old', clicks: 5 },
+        { value: null, clicks: 9 },
+      ];
+
+      expect(summarizeVariants(variants, rows)).toEqual([
+        { id: 'a', url: 'https://example.com/a', weight: 70, clicks: 0 },
+        { id: 'b', url: 'https://example.com/b', weight: 30, clicks: 3 },
+        { id: 'old', url: null, weight: null, clicks: 5 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CreateCollectionSchema,
+  MAX_COLLECTION_LINKS,
+  UpdateCollectionSchema,
+} from '@/lib/collection-schemas';
+
+/**
+ * Real tests for collection validation schemas
+ * Tests the ACTUAL schemas from lib/collection-schemas.ts
+ */
+
+describe('Collection Schemas - Real Implementation', () => {
+  describe('CreateCollectionSchema', () => {
+    it('should normalize the handle to lowercase', () => {
+      const result = CreateCollectionSchema.parse({ handle: ' Acme-Social ', title: 'Acme' });
+      expect(result.handle).toBe('acme-social');
+    });
+
+    it('should reject handles with invalid characters or length', () => {
+      for (const handle of ['a b', 'x/y', 'ab', 'a'.repeat(33)]) {
+        expect(CreateCollectionSchema.safeParse({ handle, title: 'Acme' }).success).toBe(false);
+      }
+    });
+
+    it('should require a title', () => {
+      expect(CreateCollectionSchema.safeParse({ handle: 'acme', title: '   ' }).success).toBe(false);
+    });
+  });
+
+  describe('UpdateCollectionSchema', () => {
+    it('should accept an ordered list of links with optional titles', () => {
+      const result = UpdateCollectionSchema.safeParse({
+        links: [{ linkId: 'a', title: 'Shop' }, { linkId: 'b' }, { linkId: 'c', title: null }],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a link listed twice', () => {
+      const result = UpdateCollectionSchema.safeParse({
+        links: [{ linkId: 'a' }, { linkId: 'a' }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject too many links', () => {
+      const links = Array.from({ length: MAX_COLLECTION_LINKS + 1 }, (_, index) => ({
+        linkId: `link-${index}`,
+      }));
+      expect(UpdateCollectionSchema.safeParse({ links }).success).toBe(false);
+    });
+
+    it('should accept clearing the description', () => {
+      expect(UpdateCollectionSchema.parse({ description: null }).description).toBeNull();
+    });
+
+    it('should reject an empty update', () => {
+      expect(UpdateCollectionSchema.safeParse({}).success).toBe(false);
+    });
+  });
+});
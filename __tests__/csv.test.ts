@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { formatCsvRow, parseCsv, parseCsvRecords } from '@/lib/csv';
+
+/**
+ * Real tests for CSV parsing
+ * Tests the ACTUAL functions from lib/csv.ts
+ */
+
+describe('CSV - Real Implementation', () => {
+  describe('parseCsv()', () => {
+    it('should split rows and fields', () => {
+      expect(parseCsv('a,b\nc,d')).toEqual([
+        ['a', 'b'],
+        ['c', 'd'],
+      ]);
+    });
+
+    it('should handle CRLF line endings and a trailing newline', () => {
+      expect(parseCsv('a,b\r\nc,d\r\n')).toEqual([
+        ['a', 'b'],
+        ['c', 'd'],
+      ]);
+    });
+
+    it('should handle quoted fields with commas, quotes and line breaks', () => {
+      expect(parseCsv('"a,b","say ""hi""","line\nbreak"')).toEqual([
+        ['a,b', 'say "hi"', 'line\nbreak'],
+      ]);
+    });
+
+    it('should keep empty fields', () => {
+      expect(parseCsv('a,,c\n,,')).toEqual([
+        ['a', '', 'c'],
+      ]);
+    });
+
+    it('should skip blank lines and strip a byte order mark', () => {
+      expect(parseCsv('\uFEFFa\n\n\nb\n')).toEqual([['a'], ['b']]);
+    });
+  });
+
+  describe('parseCsvRecords()', () => {
+    it('should key rows by trimmed header names', () => {
+      const records = parseCsvRecords(' url , alias\nhttps://example.com,promo');
+      expect(records).toEqual([{ url: 'https://example.com', alias: 'promo' }]);
+    });
+
+    it('should fill missing trailing cells with empty strings', () => {
+      const records = parseCsvRecords('url,alias\nhttps://example.com');
+      expect(records).toEqual([{ url: 'https://example.com', alias: '' }]);
+    });
+
+    it('should return no records for empty input', () => {
+      expect(parseCsvRecords('')).toEqual([]);
+    });
+  });
+
+  describe('formatCsvRow()', () => {
+    it('should join values and end with CRLF', () => {
+      expect(formatCsvRow(['a', 1, true])).toBe('a,1,true\r\n');
+    });
+
+    it('should leave null and undefined cells empty', () => {
+      expect(formatCsvRow([null, 'b', undefined])).toBe(',b,\r\n');
+    });
+
+    it('should quote cells with commas, quotes or line breaks', () => {
+      expect(formatCsvRow(['a,b', 'say "hi"', 'x\ny'])).toBe('"a,b","say ""hi""","x\ny"\r\n');
+    });
+
+    it('should neutralise spreadsheet formulas in text', () => {
+      expect(formatCsvRow(['=HYPERLINK("x")', '@cmd', '+1'])).toBe(
+        `"'=HYPERLINK(""x"")",'@cmd,'+1\r\n`
+      );
+    });
+
+    it('should not alter negative numbers', () => {
+      expect(formatCsvRow([-5])).toBe('-5\r\n');
+    });
+
+    it('should write structured values as JSON', () => {
+      expect(formatCsvRow([[{ country: 'DE' }]])).toBe('"[{""country"":""DE""}]"\r\n');
+    });
+
+    it('should round-trip through parseCsv()', () => {
+      const values = ['a,b', 'say "hi"', 'multi\nline', ''];
+      expect(parseCsv(formatCsvRow(values) + formatCsvRow(['x', '', '', 'y']))).toEqual([
+        values,
+        ['x', '', '', 'y'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { createExportStream, getExportFilename, serializeRecord } from '@/lib/export';
+
+/**
+ * Real tests for export serialization
+ * Tests the ACTUAL functions from lib/export.ts
+ */
+
+const COLUMNS = ['id', 'url'] as const;
+
+async function* pagesOf<T>(...pages: T[][]) {
+  for (const page of pages) {
+    yield page;
+  }
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    text += decoder.decode(chunk.value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+describe('Export - Real Implementation', () => {
+  describe('serializeRecord()', () => {
+    it('should only include the requested columns in JSON', () => {
+      const record = { id: '1', url: 'https://example.com', secret: 'x' };
+      expect(serializeRecord('ndjson', COLUMNS, record, true)).toBe(
+        '{"id":"1","url":"https://example.com"}\n'
+      );
+    });
+
+    it('should separate JSON array entries with commas', () => {
+      const record = { id: '1', url: null };
+      expect(serializeRecord('json', COLUMNS, record, true)).toBe('{"id":"1","url":null}');
+      expect(serializeRecord('json', COLUMNS, record, false)).toBe(',{"id":"1","url":null}');
+    });
+  });
+
+  describe('createExportStream()', () => {
+    const pages = () =>
+      pagesOf(
+        [{ id: '1', url: 'https://a.example' }],
+        [
+          { id: '2', url: 'https://b.example' },
+          { id: '3', url: 'https://c.example' },
+        ]
+      );
+
+    it('should stream CSV with a header row', async () => {
+      const text = await readAll(createExportStream('csv', COLUMNS, pages()));
+      expect(text).toBe(
+        'id,url\r\n1,https://a.example\r\n2,https://b.example\r\n3,https://c.example\r\n'
+      );
+    });
+
+    it('should stream a valid JSON array across pages', async () => {
+      const text = await readAll(createExportStream('json', COLUMNS, pages()));
+      expect(JSON.parse(text)).toEqual([
+        { id: '1', url: 'https://a.example' },
+        { id: '2', url: 'https://b.example' },
+        { id: '3', url: 'https://c.example' },
+      ]);
+    });
+
+    it('should stream one JSON object per line for ndjson', async () => {
+      const text = await readAll(createExportStream('ndjson', COLUMNS, pages()));
+      const lines = text.trim().split('\n');
+      expect(lines).toHaveLength(3);
+      expect(JSON.parse(lines[2])).toEqual({ id: '3', url: 'https://c.example' });
+    });
+
+    it('should produce an empty JSON array when there are no records', async () => {
+      const text = await readAll(createExportStream('json', COLUMNS, pagesOf()));
+      expect(JSON.parse(text)).toEqual([]);
+    });
+  });
+
+  describe('getExportFilename()', () => {
+    it('should include the type, date and format', () => {
+      expect(getExportFilename('links', 'csv', new Date('2026-03-04T12:00:00Z'))).toBe(
+        'links-2026-03-04.csv'
+      );
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { matchGeoRule, type GeoRule } from '@/lib/geo-targeting';
+
+/**
+ * Real tests for geo-targeted destinations
+ * Tests the ACTUAL functions from lib/geo-targeting.ts
+ */
+
+const rules: GeoRule[] = [
+  { country: 'DE', url: 'https://example.com/de' },
+  { country: 'FR', url: 'https://example.com/fr' },
+];
+
+describe('Geo Targeting - Real Implementation', () => {
+  describe('matchGeoRule()', () => {
+    it('should return the rule for the visitor country', () => {
+      expect(matchGeoRule(rules, 'FR')).toEqual({ country: 'FR', url: 'https://example.com/fr' });
+    });
+
+    it('should return null for countries without a rule', () => {
+      expect(matchGeoRule(rules, 'US')).toBeNull();
+    });
+
+    it('should return null when the country is unknown', () => {
+      expect(matchGeoRule(rules, null)).toBeNull();
+    });
+
+    it('should return null for links without rules', () => {
+      expect(matchGeoRule([], 'DE')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { detectImportSource, parseImportFile } from '@/lib/link-import';
+
+/**
+ * Real tests for link import parsing
+ * Tests the ACTUAL functions from lib/link-import.ts
+ */
+
+const BITLY_EXPORT = [
+  'title,long_url,link,custom_bitlinks,created_at,total_clicks',
+  'Spring sale,https://example.com/sale,https://bit.ly/3xYz9Ab,https://bit.ly/Spring-Sale,2024-01-05 10:20:11 +0000,"1,204"',
+  'Docs,https://example.com/docs,https://bit.ly/4aBc,,2024-02-01 08:00:00 +0000,7',
+].join('\n');
+
+describe('Link Import - Real Implementation', () => {
+  describe('detectImportSource()', () => {
+    it('should recognise Bitly exports', () => {
+      expect(detectImportSource(['title', 'long_url', 'link'])).toBe('bitly');
+      expect(detectImportSource(['Bitlink', 'Long URL'])).toBe('bitly');
+    });
+
+    it('should fall back to generic CSV', () => {
+      expect(detectImportSource(['url', 'alias'])).toBe('generic');
+    });
+  });
+
+  describe('parseImportFile()', () => {
+    it('should map Bitly columns and prefer custom back-halves', () => {
+      const { source, rows, errors } = parseImportFile(BITLY_EXPORT);
+
+      expect(source).toBe('bitly');
+      expect(errors).toEqual([]);
+      expect(rows[0]).toEqual({
+        row: 2,
+        originalUrl: 'https://example.com/sale',
+        customAlias: 'spring-sale',
+        description: 'Spring sale',
+        clicks: 1204,
+        createdAt: '2024-01-05T10:20:11.000Z',
+      });
+      expect(rows[1].customAlias).toBe('4abc');
+    });
+
+    it('should map generic column names', () => {
+      const { rows } = parseImportFile(
+        'URL,Short Code,Description,Clicks\nhttps://example.com,promo,Landing page,3'
+      );
+
+      expect(rows).toEqual([
+        {
+          row: 2,
+          originalUrl: 'https://example.com',
+          customAlias: 'promo',
+          description: 'Landing page',
+          clicks: 3,
+          createdAt: undefined,
+        },
+      ]);
+    });
+
+    it('should report rows with invalid URLs', () => {
+      const { rows, errors } = parseImportFile('url\nhttps://example.com\nnot a url\n');
+
+      expect(rows).toHaveLength(1);
+      expect(errors).toEqual([{ row: 3, error: 'Invalid URL format' }]);
+    });
+
+    it('should drop aliases that cannot be reused as short codes', () => {
+      const { rows } = parseImportFile(
+        'url,alias\nhttps://a.example,ab\nhttps://b.example,has space\nhttps://c.example,this-alias-is-too-long'
+      );
+
+      expect(rows.map((row) => row.customAlias)).toEqual([undefined, undefined, undefined]);
+    });
+
+    it('should default unreadable clicks and dates', () => {
+      const { rows } = parseImportFile('url,clicks,created\nhttps://example.com,lots,someday');
+
+      expect(rows[0].clicks).toBe(0);
+      expect(rows[0].createdAt).toBeUndefined();
+    });
+  });
+});
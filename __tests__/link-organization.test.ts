@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FolderSchema,
+  MAX_TAGS_PER_LINK,
+  parseTagInput,
+  tagNameField,
+  tagsField,
+} from '@/lib/link-organization';
+
+/**
+ * Real tests for link folders and tags
+ * Tests the ACTUAL schemas and helpers from lib/link-organization.ts
+ */
+
+describe('Link Organization - Real Implementation', () => {
+  describe('tagNameField', () => {
+    it('should trim and lowercase tag names', () => {
+      expect(tagNameField.parse('  Spring Sale ')).toBe('spring sale');
+    });
+
+    it('should accept letters from any script, numbers, hyphens and underscores', () => {
+      expect(tagNameField.safeParse('café_2024-q1').success).toBe(true);
+      expect(tagNameField.safeParse('日本').success).toBe(true);
+    });
+
+    it('should reject empty and overlong names', () => {
+      expect(tagNameField.safeParse('   ').success).toBe(false);
+      expect(tagNameField.safeParse('a'.repeat(51)).success).toBe(false);
+    });
+
+    it('should reject punctuation', () => {
+      expect(tagNameField.safeParse('#launch').success).toBe(false);
+      expect(tagNameField.safeParse('a,b').success).toBe(false);
+    });
+  });
+
+  describe('tagsField', () => {
+    it('should drop repeated tags after normalizing', () => {
+      expect(tagsField.parse(['Launch', 'launch ', 'social'])).toEqual(['launch', 'social']);
+    });
+
+    it(`should allow at most ${MAX_TAGS_PER_LINK} tags`, () => {
+      const tags = Array.from({ length: MAX_TAGS_PER_LINK + 1 }, (_, index) => `tag-${index}`);
+      expect(tagsField.safeParse(tags).success).toBe(false);
+      expect(tagsField.safeParse(tags.slice(1)).success).toBe(true);
+    });
+  });
+
+  describe('FolderSchema', () => {
+    it('should trim folder names', () => {
+      expect(FolderSchema.parse({ name: '  Campaigns ' })).toEqual({ name: 'Campaigns' });
+    });
+
+    it('should require a name', () => {
+      const result = FolderSchema.safeParse({ name: '  ' });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe('Folder name is required');
+    });
+  });
+
+  describe('parseTagInput()', () => {
+    it('should split comma-separated input into tag names', () => {
+      expect(parseTagInput('launch, Social ,launch')).toEqual(['launch', 'social']);
+    });
+
+    it('should ignore blank entries', () => {
+      expect(parseTagInput(' , ,')).toEqual([]);
+      expect(parseTagInput('')).toEqual([]);
+    });
+  });
+});
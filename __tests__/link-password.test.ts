@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { hashPassword, verifyPassword } from '@/lib/password';
+import {
+  LINK_ACCESS_TTL_SECONDS,
+  createLinkAccessToken,
+  verifyLinkAccessToken,
+  renderPasswordPage,
+} from '@/lib/link-access';
+
+/**
+ * Real tests for password-protected links
+ * Tests the ACTUAL functions from lib/password.ts and lib/link-access.ts
+ */
+
+describe('Link Passwords - Real Implementation', () => {
+  beforeAll(() => {
+    process.env.LINK_ACCESS_SECRET = 'test-link-access-secret';
+  });
+
+  describe('hashPassword() / verifyPassword()', () => {
+    it('should verify the original password', async () => {
+      const hash = await hashPassword('correct horse');
+      expect(hash.startsWith('scrypt$')).toBe(true);
+      expect(await verifyPassword('correct horse', hash)).toBe(true);
+    });
+
+    it('should reject a wrong password', async () => {
+      const hash = await hashPassword('correct horse');
+      expect(await verifyPassword('battery staple', hash)).toBe(false);
+    });
+
+    it('should salt each hash', async () => {
+      expect(await hashPassword('same')).not.toBe(await hashPassword('same'));
+    });
+
+    it('should reject malformed hashes', async () => {
+      expect(await verifyPassword('anything', 'not-a-hash')).toBe(false);
+    });
+  });
+
+  describe('link access tokens', () => {
+    const linkId = 'link-001';
+    const passwordHash = 'scrypt$abc$def';
+
+    it('should accept a freshly issued token', () => {
+      const token = createLinkAccessToken(linkId, passwordHash);
+      expect(verifyLinkAccessToken(token, linkId, passwordHash)).toBe(true);
+    });
+
+    it('should reject tokens for another link', () => {
+      const token = createLinkAccessToken(linkId, passwordHash);
+      expect(verifyLinkAccessToken(token, 'link-002', passwordHash)).toBe(false);
+    });
+
+    it('should reject tokens after the password changes', () => {
+      const token = createLinkAccessToken(linkId, passwordHash);
+      expect(verifyLinkAccessToken(token, linkId, 'scrypt$new$hash')).toBe(false);
+    });
+
+    it('should reject expired tokens', () => {
+      const issuedAt = Date.now() - (LINK_ACCESS_TTL_SECONDS + 60) * 1000;
+      const token = createLinkAccessToken(linkId, passwordHash, issuedAt);
+      expect(verifyLinkAccessToken(token, linkId, passwordHash)).toBe(false);
+    });
+
+    it('should reject tampered or missing tokens', () => {
+      const token = createLinkAccessToken(linkId, passwordHash);
+      const [, signature] = token.split('.');
+      const extended = `${Math.floor(Date.now() / 1000) + 999999}.${signature}`;
+      expect(verifyLinkAccessToken(extended, linkId, passwordHash)).toBe(false);
+      expect(verifyLinkAccessToken(undefined, linkId, passwordHash)).toBe(false);
+    });
+  });
+
+  describe('renderPasswordPage()', () => {
+    it('should escape the short code and error message', () => {
+      const html = renderPasswordPage('<script>', 'Bad "password"');
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('&lt;script&gt;');
+      expect(html).toContain('Bad &quot;password&quot;');
+    });
+
+    it('should post the password back to the same URL', () => {
+      const html = renderPasswordPage('abc123');
+      expect(html).toContain('<form method="post">');
+      expect(html).toContain('name="password"');
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import { describe, it, expect } from 'vitest';
+import { CreateLinkSchema, UpdateLinkSchema, toLinkUpdate } from '@/lib/link-schemas';
+import { SHORT_CODE_MAX_LENGTH } from '@/lib/short-code';
+
+/**
+ * Real tests for link validation schemas
+ * Tests the ACTUAL schemas from lib/link-schemas.ts
+ */
+
+describe('Link Schemas - Real Implementation', () => {
+  describe('CreateLinkSchema', () => {
+    it('should accept a URL with optional fields', () => {
+      const result = CreateLinkSchema.safeParse({
+        originalUrl: 'https://example.com/docs',
+        customAlias: 'docs-start',
+        description: 'Docs',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should accept an expiry in the future', () => {
+      const result = CreateLinkSchema.safeParse({
+        originalUrl: 'https://example.com',
+        expiresAt: new Date(Date.now() + 86400000).toISOString(),
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject an expiry in the past', () => {
+      const result = CreateLinkSchema.safeParse({
+        originalUrl: 'https://example.com',
+        expiresAt: new Date(Date.now() - 86400000).toISOString(),
+      });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe('Expiry date must be in the future');
+    });
+
+    it('should accept a positive whole max clicks', () => {
+      const result = CreateLinkSchema.safeParse({ originalUrl: 'https://example.com', maxClicks: 1 });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject zero or fractional max clicks', () => {
+      expect(CreateLinkSchema.safeParse({ originalUrl: 'https://example.com', maxClicks: 0 }).success).toBe(false);
+      expect(CreateLinkSchema.safeParse({ originalUrl: 'https://example.com', maxClicks: 2.5 }).success).toBe(false);
+    });
+
+    it('should reject invalid aliases', () => {
+      const result = CreateLinkSchema.safeParse({
+        originalUrl: 'https://example.com',
+        customAlias: 'bad alias!',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject aliases longer than a short code', () => {
+      const alias = 'a'.repeat(SHORT_CODE_MAX_LENGTH);
+      expect(CreateLinkSchema.safeParse({ originalUrl: 'https://example.com', customAlias: alias }).success).toBe(true);
+      expect(CreateLinkSchema.safeParse({ originalUrl: 'https://example.com', customAlias: `${alias}b` }).success).toBe(false);
+      expect(UpdateLinkSchema.safeParse({ customAlias: `${alias}b` }).success).toBe(false);
+    });
+  });
+
+  describe('UTM fields', () => {
+    it('should trim UTM values on create', () => {
+      const result = CreateLinkSchema.parse({
+        originalUrl: 'https://example.com',
+        utmSource: '  newsletter ',
+      });
+      expect(result.utmSource).toBe('newsletter');
+    });
+
+    it('should reject overly long UTM values', () => {
+      const result = CreateLinkSchema.safeParse({
+        originalUrl: 'https://example.com',
+        utmCampaign: 'x'.repeat(256),
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should allow clearing UTM values on update', () => {
+      const input = UpdateLinkSchema.parse({ utmCampaign: null });
+      expect(toLinkUpdate(input).utmCampaign).toBeNull();
+    });
+  });
+
+  describe('Geo rules', () => {
+    it('should normalize country codes to uppercase', () => {
+      const result = CreateLinkSchema.parse({
+        originalUrl: 'https://example.com',
+        geoRules: [{ country: ' de ', url: 'https://example.com/de' }],
+      });
+      expect(result.geoRules).toEqual([{ country: 'DE', url: 'https://example.com/de' }]);
+    });
+
+    it('should reject invalid countries and URLs', () => {
+      expect(
+        CreateLinkSchema.safeParse({
+          originalUrl: 'https://example.com',
+          geoRules: [{ country: 'DEU', url: 'https://example.com/de' }],
+        }).success
+      ).toBe(false);
+      expect(
+        CreateLinkSchema.safeParse({
+          originalUrl: 'https://example.com',
+          geoRules: [{ country: 'DE', url: 'not-a-url' }],
+        }).success
+      ).toBe(false);
+    });
+
+    it('should reject two rules for the same country', () => {
+      const result = UpdateLinkSchema.safeParse({
+        geoRules: [
+          { country: 'fr', url: 'https://example.com/fr' },
+          { country: 'FR', url: 'https://example.com/fr-2' },
+        ],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should allow removing every rule on update', () => {
+      const input = UpdateLinkSchema.parse({ geoRules: [] });
+      expect(toLinkUpdate(input).geoRules).toEqual([]);
+    });
+  });
+
+  describe('Variants', () => {
+    it('should accept weighted variants without ids', () => {
+      const result = CreateLinkSchema.safeParse({
+        originalUrl: 'https://example.com',
+        variants: [
+          { url: 'https://example.com/a', weight: 70 },
+          { url: 'https://example.com/b', weight: 30 },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a single variant', () => {
+      const result = CreateLinkSchema.safeParse({
+        originalUrl: 'https://example.com',
+        variants: [{ url: 'https://example.com/a', weight: 1 }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject zero and fractional weights', () => {
+      for (const weight of [0, 1.5]) {
+        const result = UpdateLinkSchema.safeParse({
+          variants: [
+            { url: 'https://example.com/a', weight },
+            { url: 'https://example.com/b', weight: 1 },
+          ],
+        });
+        expect(result.success).toBe(false);
+      }
+    });
+
+    it('should reject duplicate variant ids', () => {
+      const result = UpdateLinkSchema.safeParse({
+        variants: [
+          { id: 'v1', url: 'https://example.com/a', weight: 1 },
+          { id: 'v1', url: 'https://example.com/b', weight: 1 },
+        ],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('Device rules', () => {
+    it('should accept one rule per platform', () => {
+      const result = CreateLinkSchema.safeParse({
+        originalUrl: 'https://example.com',
+        deviceRules: [
+          { device: 'ios', url: 'https://apps.apple.com/app/id123' },
+          { device: 'android', url: 'https://play.google.com/store/apps/details?id=com.example' },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown platforms', () => {
+      const result = CreateLinkSchema.safeParse({
+        originalUrl: 'https://example.com',
+        deviceRules: [{ device: 'windows-phone', url: 'https://example.com/wp' }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject two rules for the same platform', () => {
+      const result = UpdateLinkSchema.safeParse({
+        deviceRules: [
+          { device: 'ios', url: 'https://example.com/a' },
+          { device: 'ios', url: 'https://example.com/b' },
+        ],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('Folders and tags', () => {
+    it('should normalize and deduplicate tags', () => {
+      const result = CreateLinkSchema.safeParse({
+        originalUrl: 'https://example.com',
+        folderId: 'folder-1',
+        tags: [' Launch ', 'launch', 'social'],
+      });
+      expect(result.success).toBe(true);
+      expect(result.data?.tags).toEqual(['launch', 'social']);
+    });
+
+    it('should reject tags with punctuation', () => {
+      const result = CreateLinkSchema.safeParse({
+        originalUrl: 'https://example.com',
+        tags: ['q1/q2'],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should accept null to move a link out of its folder', () => {
+      const result = UpdateLinkSchema.safeParse({ folderId: null });
+      expect(result.success).toBe(true);
+      expect(toLinkUpdate(result.data!).folderId).toBeNull();
+    });
+  });
+
+  describe('UpdateLinkSchema', () => {
+    it('should accept a partial update', () => {
+      const result = UpdateLinkSchema.safeParse({ originalUrl: 'https://example.com/fixed' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should accept null to clear optional fields', () => {
+      const result = UpdateLinkSchema.safeParse({
+        customAlias: null,
+        description: null,
+        expiresAt: null,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject an empty update', () => {
+      const result = UpdateLinkSchema.safeParse({});
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe('At least one field must be provided');
+    });
+
+    it('should reject invalid URLs', () => {
+      const result = UpdateLinkSchema.safeParse({ originalUrl: 'not-a-url' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('toLinkUpdate()', () => {
+    it('should normalize a new alias and keep the existing short code', () => {
+      const updates = toLinkUpdate({ customAlias: 'Spring-Sale' });
+      expect(updates.customAlias).toBe('spring-sale');
+      expect(updates).not.toHaveProperty('shortCode');
+    });
+
+    it('should clear the alias without touching the short code', () => {
+      const updates = toLinkUpdate({ customAlias: null });
+      expect(updates.customAlias).toBeNull();
+      expect(updates).not.toHaveProperty('shortCode');
+    });
+
+    it('should leave omitted fields undefined', () => {
+      const updates = toLinkUpdate({ isActive: false });
+      expect(updates).toEqual({
+        originalUrl: undefined,
+        description: undefined,
+        isActive: false,
+        expiresAt: undefined,
+        customAlias: undefined,
+      });
+    });
+
+    it('should convert expiry strings to dates', () => {
+      const updates = toLinkUpdate({ expiresAt: '2030-01-01T00:00:00.000Z' });
+      expect(updates.expiresAt).toEqual(new Date('2030-01-01T00:00:00.000Z'));
+      expect(toLinkUpdate({ expiresAt: null }).expiresAt).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chooseVariant,
+  getVariantCookieName,
+  pickVariant,
+  type LinkVariant,
+} from '@/lib/link-variants';
+
+/**
+ * Real tests for A/B split destinations
+ * Tests the ACTUAL functions from lib/link-variants.ts
+ */
+
+const variants: LinkVariant[] = [
+  { id: 'a', url: 'https://example.com/a', weight: 70 },
+  { id: 'b', url: 'https://example.com/b', weight: 30 },
+];
+
+describe('Link Variants - Real Implementation', () => {
+  describe('pickVariant()', () => {
+    it('should pick variants in proportion to their weights', () => {
+      expect(pickVariant(variants, () => 0)?.id).toBe('a');
+      expect(pickVariant(variants, () => 0.69)?.id).toBe('a');
+      expect(pickVariant(variants, () => 0.7)?.id).toBe('b');
+      expect(pickVariant(variants, () => 0.999)?.id).toBe('b');
+    });
+
+    it('should split traffic close to the configured ratio', () => {
+      let seed = 1;
+      // Deterministic pseudo-random sequence so the test never flakes
+      const random = () => {
+        seed = (seed * 16807) % 2147483647;
+        return (seed - 1) / 2147483646;
+      };
+
+      let picksA = 0;
+      for (let i = 0; i < 10_000; i++) {
+        if (pickVariant(variants, random)?.id === 'a') picksA++;
+      }
+      expect(picksA / 10_000).toBeGreaterThan(0.67);
+      expect(picksA / 10_000).toBeLessThan(0.73);
+    });
+
+    it('should return null without variants', () => {
+      expect(pickVariant([])).toBeNull();
+    });
+  });
+
+  describe('chooseVariant()', () => {
+    it('should keep the variant from the visitor cookie', () => {
+      expect(chooseVariant(variants, 'b', () => 0)?.id).toBe('b');
+    });
+
+    it('should pick again when the remembered variant was removed', () => {
+      expect(chooseVariant(variants, 'gone', () => 0)?.id).toBe('a');
+    });
+
+    it('should pick a variant for new visitors', () => {
+      expect(chooseVariant(variants, undefined, () => 0.9)?.id).toBe('b');
+    });
+  });
+
+  describe('getVariantCookieName()', () => {
+    it('should scope the cookie to the short code', () => {
+      expect(getVariantCookieName('promo')).toBe('link_variant_promo');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+/**
+ * Tests for createLinks from data/links-db.ts
+ * The database and tag writes are mocked, so the batch insert can succeed
+ * while tagging fails
+ */
+
+const { insertReturning, setLinkTags } = vi.hoisted(() => ({
+  insertReturning: vi.fn(),
+  setLinkTags: vi.fn(),
+}));
+
+vi.mock('@/db', () => ({
+  db: {
+    insert: () => ({
+      values: (values: Array<Record<string, unknown>>) => ({
+        returning: () => insertReturning(values),
+      }),
+    }),
+  },
+}));
+
+vi.mock('@/data/tags-db', () => ({
+  setLinkTags,
+  deleteLinkTags: vi.fn(),
+  withTags: vi.fn(),
+}));
+
+import { createLinks } from '@/data/links-db';
+
+const scope = { userId: 'user-1', workspaceId: null };
+
+// Echo the inserted values back as rows, as the database would
+function returnInsertedRows() {
+  insertReturning.mockImplementation(async (values: Array<Record<string, unknown>>) =>
+    values.map((value) => ({
+      ...value,
+      createdAt: new Date('2026-03-01T12:00:00Z'),
+      updatedAt: new Date('2026-03-01T12:00:00Z'),
+      deactivatedAt: null,
+      expiryNotifiedAt: null,
+    }))
+  );
+}
+
+describe('createLinks', () => {
+  beforeEach(() => {
+    insertReturning.mockReset();
+    setLinkTags.mockReset();
+    returnInsertedRows();
+  });
+
+  it('should return the links in input order with their tags', async () => {
+    setLinkTags.mockResolvedValue(undefined);
+
+    const created = await createLinks(scope, [
+      { originalUrl: 'https://example.com/a', shortCode: 'aaaaaa', tags: ['docs'] },
+      { originalUrl: 'https://example.com/b', shortCode: 'bbbbbb' },
+    ]);
+
+    expect(created.map((link) => link.shortCode)).toEqual(['aaaaaa', 'bbbbbb']);
+    expect(created.map((link) => link.tags)).toEqual([['docs'], []]);
+    expect(setLinkTags).toHaveBeenCalledTimes(1);
+  });
+
+  it('should still return links whose tag write rejects, without the tags', async () => {
+    setLinkTags.mockImplementation(async (_scope: unknown, _linkId: string, names: string[]) => {
+      if (names.includes('broken')) {
+        throw new Error('tag write failed');
+      }
+    });
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const created = await createLinks(scope, [
+      { originalUrl: 'https://example.com/a', shortCode: 'aaaaaa', tags: ['broken'] },
+      { originalUrl: 'https://example.com/b', shortCode: 'bbbbbb', tags: ['docs'] },
+    ]);
+
+    expect(created.map((link) => link.shortCode)).toEqual(['aaaaaa', 'bbbbbb']);
+    expect(created.map((link) => link.tags)).toEqual([[], ['docs']]);
+    expect(insertReturning).toHaveBeenCalledTimes(1);
+    consoleError.mockRestore();
+  });
+
+  it('should fail without tagging when the insert rejects', async () => {
+    insertReturning.mockRejectedValue(new Error('duplicate key'));
+
+    await expect(
+      createLinks(scope, [{ originalUrl: 'https://example.com/a', shortCode: 'aaaaaa', tags: ['docs'] }])
+    ).rejects.toThrow('duplicate key');
+    expect(setLinkTags).not.toHaveBeenCalled();
+  });
+});
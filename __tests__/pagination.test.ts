@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { decodeCursor, encodeCursor, escapeLikePattern } from '@/lib/pagination';
+
+/**
+ * Real tests for pagination helpers
+ * Tests the ACTUAL functions from lib/pagination.ts
+ */
+
+describe('Pagination - Real Implementation', () => {
+  describe('encodeCursor() / decodeCursor()', () => {
+    it('should round-trip a string sort value', () => {
+      const cursor = { value: '2026-01-01T00:00:00.000Z', id: 'abc-123' };
+      expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    });
+
+    it('should round-trip a numeric sort value', () => {
+      const cursor = { value: 42, id: 'abc-123' };
+      expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    });
+
+    it('should produce URL-safe cursors', () => {
+      const encoded = encodeCursor({ value: '???>>>', id: 'x' });
+      expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+
+    it('should return null for malformed input', () => {
+      expect(decodeCursor('not a cursor')).toBeNull();
+      expect(decodeCursor('')).toBeNull();
+    });
+
+    it('should return null when fields are missing or the wrong type', () => {
+      const encode = (value: unknown) =>
+        Buffer.from(JSON.stringify(value)).toString('base64url');
+
+      expect(decodeCursor(encode({ value: 1 }))).toBeNull();
+      expect(decodeCursor(encode({ value: true, id: 'a' }))).toBeNull();
+      expect(decodeCursor(encode({ value: 1, id: 2 }))).toBeNull();
+      expect(decodeCursor(encode(null))).toBeNull();
+    });
+  });
+
+  describe('escapeLikePattern()', () => {
+    it('should escape LIKE wildcards', () => {
+      expect(escapeLikePattern('50%_off')).toBe('50\\%\\_off');
+    });
+
+    it('should escape backslashes', () => {
+      expect(escapeLikePattern('a\\b')).toBe('a\\\\b');
+    });
+
+    it('should leave plain text unchanged', () => {
+      expect(escapeLikePattern('example.com')).toBe('example.com');
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { QrOptionsSchema } from '@/lib/qr';
+
+/**
+ * Real tests for QR code options
+ * Tests the ACTUAL schema from lib/qr.ts
+ */
+
+describe('QR Options - Real Implementation', () => {
+  it('should apply defaults', () => {
+    expect(QrOptionsSchema.parse({})).toEqual({
+      format: 'svg',
+      size: 512,
+      margin: 4,
+      fg: '#000000',
+      bg: '#ffffff',
+      ecc: 'M',
+    });
+  });
+
+  it('should coerce numeric query values', () => {
+    const options = QrOptionsSchema.parse({ size: '1024', margin: '0' });
+    expect(options.size).toBe(1024);
+    expect(options.margin).toBe(0);
+  });
+
+  it('should normalise hex colors with or without a leading #', () => {
+    const options = QrOptionsSchema.parse({ fg: '1A2B3C', bg: '#FFFFFF80' });
+    expect(options.fg).toBe('#1a2b3c');
+    expect(options.bg).toBe('#ffffff80');
+  });
+
+  it('should reject invalid colors', () => {
+    expect(QrOptionsSchema.safeParse({ fg: 'red' }).success).toBe(false);
+    expect(QrOptionsSchema.safeParse({ bg: '#fff' }).success).toBe(false);
+  });
+
+  it('should reject sizes outside the supported range', () => {
+    expect(QrOptionsSchema.safeParse({ size: '32' }).success).toBe(false);
+    expect(QrOptionsSchema.safeParse({ size: '4096' }).success).toBe(false);
+  });
+
+  it('should only accept known formats and error correction levels', () => {
+    expect(QrOptionsSchema.safeParse({ format: 'gif' }).success).toBe(false);
+    expect(QrOptionsSchema.safeParse({ ecc: 'X' }).success).toBe(false);
+    expect(QrOptionsSchema.parse({ format: 'png', ecc: 'H' })).toMatchObject({
+      format: 'png',
+      ecc: 'H',
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { NextRequest, NextResponse } from 'next/server';
+import { withCorsHeaders } from '@/lib/cors';
+import {
+  applyRateLimitHeaders,
+  recordRateLimit,
+  setRateLimitHeaders,
+} from '@/lib/rate-limit-headers';
+
+/**
+ * Real tests for X-RateLimit headers
+ * Tests the ACTUAL header helpers from lib/rate-limit-headers.ts and their use in lib/cors.ts
+ */
+
+describe('Rate Limit Headers - Real Implementation', () => {
+  const resetTime = Date.now() + 30_000;
+
+  describe('setRateLimitHeaders', () => {
+    it('should report limit, remaining and reset in epoch seconds', () => {
+      const headers = new Headers();
+      setRateLimitHeaders(headers, { success: true, limit: 60, remaining: 59, resetTime });
+
+      expect(headers.get('X-RateLimit-Limit')).toBe('60');
+      expect(headers.get('X-RateLimit-Remaining')).toBe('59');
+      expect(headers.get('X-RateLimit-Reset')).toBe(String(Math.ceil(resetTime / 1000)));
+      expect(headers.get('Retry-After')).toBeNull();
+    });
+
+    it('should add Retry-After once the limit is hit', () => {
+      const headers = new Headers();
+      setRateLimitHeaders(headers, { success: false, limit: 60, remaining: 0, resetTime });
+
+      const retryAfter = Number(headers.get('Retry-After'));
+      expect(retryAfter).toBeGreaterThan(0);
+      expect(retryAfter).toBeLessThanOrEqual(30);
+    });
+
+    it('should never report a negative remaining count', () => {
+      const headers = new Headers();
+      setRateLimitHeaders(headers, { success: false, limit: 5, remaining: -3, resetTime });
+
+      expect(headers.get('X-RateLimit-Remaining')).toBe('0');
+    });
+  });
+
+  describe('applyRateLimitHeaders', () => {
+    it('should only add headers for requests with a recorded rate limit', () => {
+      const recordedRequest = new Request('http://localhost/api/shorten');
+      const otherRequest = new Request('http://localhost/api/shorten');
+      recordRateLimit(recordedRequest, { success: true, limit: 10, remaining: 4, resetTime });
+
+      const recorded = new Headers();
+      const other = new Headers();
+      applyRateLimitHeaders(recordedRequest, recorded);
+      applyRateLimitHeaders(otherRequest, other);
+
+      expect(recorded.get('X-RateLimit-Remaining')).toBe('4');
+      expect(other.get('X-RateLimit-Limit')).toBeNull();
+    });
+  });
+
+  describe('withCorsHeaders', () => {
+    it('should attach the recorded rate limit to any response', () => {
+      const request = new NextRequest('http://localhost/api/shorten');
+      recordRateLimit(request, { success: false, limit: 10, remaining: 0, resetTime });
+
+      const response = withCorsHeaders(request, NextResponse.json({ success: false }, { status: 403 }));
+
+      expect(response.status).toBe(403);
+      expect(response.headers.get('X-RateLimit-Limit')).toBe('10');
+      expect(response.headers.get('Access-Control-Expose-Headers')).toContain('X-RateLimit-Remaining');
+    });
+  });
+});
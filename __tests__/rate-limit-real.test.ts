@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { rateLimiter } from '@/lib/rate-limit';
+import { apiKeyRateLimiter, rateLimiter } from '@/lib/rate-limit';
 
 /**
  * Real integration tests for rate limiter
@@ -249,6 +249,75 @@ describe('Rate Limiter - Real Implementation', () => {
     );
   });
 
+  describe('Weighted Hits', () => {
+    it('should consume the request weight from the allowance', async () => {
+      const clientId = `test-weighted-${Date.now()}`;
+
+      const result1 = await rateLimiter.limit(clientId, 1);
+      const result2 = await rateLimiter.limit(clientId, 3);
+
+      expect(result2.success).toBe(true);
+      expect(result1.remaining - result2.remaining).toBe(3);
+    });
+
+    it('should reject a hit heavier than the remaining allowance', async () => {
+      const clientId = `test-weighted-reject-${Date.now()}`;
+
+      const first = await rateLimiter.limit(clientId);
+      const result = await rateLimiter.limit(clientId, first.remaining + 1);
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should not charge a rejected hit', async () => {
+      const clientId = `test-weighted-refund-${Date.now()}`;
+
+      const first = await rateLimiter.limit(clientId);
+      await rateLimiter.limit(clientId, first.remaining + 1);
+      const next = await rateLimiter.limit(clientId);
+
+      expect(next.success).toBe(true);
+      expect(next.remaining).toBe(first.remaining - 1);
+    });
+
+    it('should report the window end for a hit heavier than the whole limit', async () => {
+      const result = await apiKeyRateLimiter.limit(`test-weighted-oversize-${Date.now()}`, 3, 2);
+
+      expect(result.success).toBe(false);
+      expect(result.resetTime).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('Per-identifier Quotas', () => {
+    it('should report the limit and reset time on every result', async () => {
+      const result = await rateLimiter.limit(`test-headers-${Date.now()}`);
+
+      expect(result.limit).toBeGreaterThan(0);
+      expect(result.resetTime).toBeGreaterThan(Date.now());
+    });
+
+    it('should enforce a quota passed per call', async () => {
+      const clientId = `test-quota-${Date.now()}`;
+
+      const first = await apiKeyRateLimiter.limit(clientId, 1, 2);
+      const second = await apiKeyRateLimiter.limit(clientId, 1, 2);
+      const third = await apiKeyRateLimiter.limit(clientId, 1, 2);
+
+      expect(first).toMatchObject({ success: true, limit: 2, remaining: 1 });
+      expect(second).toMatchObject({ success: true, limit: 2, remaining: 0 });
+      expect(third).toMatchObject({ success: false, limit: 2, remaining: 0 });
+    });
+
+    it('should count separate identifiers separately', async () => {
+      const now = Date.now();
+
+      await apiKeyRateLimiter.limit(`api_key:a-${now}`, 1, 1);
+      const other = await apiKeyRateLimiter.limit(`api_key:b-${now}`, 1, 1);
+
+      expect(other.success).toBe(true);
+    });
+  });
+
   describe('Async Behavior', () => {
     it('should return a promise', () => {
       const result = rateLimiter.limit('test-promise');
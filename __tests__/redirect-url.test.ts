@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { buildDestinationUrl, mergeQueryParams } from '@/lib/redirect-url';
+
+/**
+ * Real tests for redirect destination building
+ * Tests the ACTUAL functions from lib/redirect-url.ts
+ */
+
+const params = (query: string) => new URLSearchParams(query);
+
+describe('Redirect URL - Real Implementation', () => {
+  describe('mergeQueryParams()', () => {
+    it('should return the destination unchanged without incoming parameters', () => {
+      expect(mergeQueryParams('https://example.com/a?x=1', params(''), 'link')).toBe(
+        'https://example.com/a?x=1'
+      );
+    });
+
+    it('should add new incoming parameters', () => {
+      expect(mergeQueryParams('https://example.com/a?x=1', params('ref=newsletter'), 'link')).toBe(
+        'https://example.com/a?x=1&ref=newsletter'
+      );
+    });
+
+    it('should keep the link value on collisions with link precedence', () => {
+      const url = mergeQueryParams('https://example.com/?ref=site', params('ref=visitor'), 'link');
+      expect(new URL(url).searchParams.getAll('ref')).toEqual(['site']);
+    });
+
+    it('should use the visitor value on collisions with incoming precedence', () => {
+      const url = mergeQueryParams('https://example.com/?ref=site', params('ref=visitor'), 'incoming');
+      expect(new URL(url).searchParams.getAll('ref')).toEqual(['visitor']);
+    });
+
+    it('should forward repeated keys', () => {
+      const url = mergeQueryParams('https://example.com/', params('tag=a&tag=b'), 'link');
+      expect(new URL(url).searchParams.getAll('tag')).toEqual(['a', 'b']);
+    });
+
+    it('should preserve the destination fragment', () => {
+      expect(mergeQueryParams('https://example.com/page#pricing', params('ref=x'), 'link')).toBe(
+        'https://example.com/page?ref=x#pricing'
+      );
+    });
+  });
+
+  describe('buildDestinationUrl()', () => {
+    it('should ignore the visitor query string when forwarding is off', () => {
+      const url = buildDestinationUrl(
+        'https://example.com/',
+        { forwardQuery: false, queryPrecedence: 'link', utmSource: 'mail' },
+        params('ref=x')
+      );
+      expect(url).toBe('https://example.com/?utm_source=mail');
+    });
+
+    it('should let link UTM values win with link precedence', () => {
+      const url = buildDestinationUrl(
+        'https://example.com/',
+        { forwardQuery: true, queryPrecedence: 'link', utmSource: 'mail' },
+        params('utm_source=twitter&ref=x')
+      );
+      expect(new URL(url).searchParams.get('utm_source')).toBe('mail');
+      expect(new URL(url).searchParams.get('ref')).toBe('x');
+    });
+
+    it('should let visitor UTM values win with incoming precedence', () => {
+      const url = buildDestinationUrl(
+        'https://example.com/',
+        { forwardQuery: true, queryPrecedence: 'incoming', utmSource: 'mail' },
+        params('utm_source=twitter')
+      );
+      expect(new URL(url).searchParams.get('utm_source')).toBe('twitter');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { getClientIp, getRequestCountry } from '@/lib/request-info';
+import { NextRequest } from 'next/server';
+
+/**
+ * Real tests for request metadata helpers
+ * Tests the ACTUAL functions from lib/request-info.ts
+ */
+
+function makeRequest(headers: Record<string, string> = {}) {
+  return new NextRequest(new URL('http://localhost:3000/l/abc123'), { headers });
+}
+
+describe('Request Info - Real Implementation', () => {
+  describe('getClientIp()', () => {
+    it('should use the first x-forwarded-for entry', () => {
+      const request = makeRequest({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' });
+      expect(getClientIp(request)).toBe('203.0.113.7');
+    });
+
+    it('should fall back to x-real-ip', () => {
+      const request = makeRequest({ 'x-real-ip': '198.51.100.4' });
+      expect(getClientIp(request)).toBe('198.51.100.4');
+    });
+
+    it('should return null when no IP header is present', () => {
+      expect(getClientIp(makeRequest())).toBeNull();
+    });
+
+    it('should truncate values to the column length', () => {
+      const request = makeRequest({ 'x-forwarded-for': 'a'.repeat(100) });
+      expect(getClientIp(request)).toHaveLength(45);
+    });
+  });
+
+  describe('getRequestCountry()', () => {
+    it('should read the Vercel country header', () => {
+      const request = makeRequest({ 'x-vercel-ip-country': 'de' });
+      expect(getRequestCountry(request)).toBe('DE');
+    });
+
+    it('should read the Cloudflare country header', () => {
+      const request = makeRequest({ 'cf-ipcountry': 'US' });
+      expect(getRequestCountry(request)).toBe('US');
+    });
+
+    it('should ignore unknown and invalid codes', () => {
+      expect(getRequestCountry(makeRequest({ 'cf-ipcountry': 'XX' }))).toBeNull();
+      expect(getRequestCountry(makeRequest({ 'cf-ipcountry': 'T1' }))).toBeNull();
+      expect(getRequestCountry(makeRequest({ 'x-vercel-ip-country': 'USA' }))).toBeNull();
+    });
+
+    it('should return null when no country header is present', () => {
+      expect(getRequestCountry(makeRequest())).toBeNull();
+    });
+
+    describe('with GEO_COUNTRY_HEADER', () => {
+      afterEach(() => {
+        vi.unstubAllEnvs();
+      });
+
+      it('should prefer the configured header', () => {
+        vi.stubEnv('GEO_COUNTRY_HEADER', 'x-geo-country');
+        const request = makeRequest({ 'x-geo-country': 'fr', 'x-vercel-ip-country': 'DE' });
+        expect(getRequestCountry(request)).toBe('FR');
+      });
+
+      it('should fall back to the built-in headers', () => {
+        vi.stubEnv('GEO_COUNTRY_HEADER', 'x-geo-country');
+        const request = makeRequest({ 'x-vercel-ip-country': 'DE' });
+        expect(getRequestCountry(request)).toBe('DE');
+      });
+
+      it('should ignore a value that is not a valid header name', () => {
+        for (const name of ['x geo country', 'x-geo:country', 'x-gé-country']) {
+          vi.stubEnv('GEO_COUNTRY_HEADER', name);
+          const request = makeRequest({ 'x-vercel-ip-country': 'DE' });
+          expect(getRequestCountry(request)).toBe('DE');
+        }
+      });
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { applyUtmParams } from '@/lib/utm';
+
+/**
+ * Real tests for UTM parameter merging
+ * Tests the ACTUAL function from lib/utm.ts
+ */
+
+const NO_UTM = {
+  utmSource: null,
+  utmMedium: null,
+  utmCampaign: null,
+  utmTerm: null,
+  utmContent: null,
+};
+
+describe('UTM - Real Implementation', () => {
+  describe('applyUtmParams()', () => {
+    it('should return the URL unchanged when no UTM values are set', () => {
+      expect(applyUtmParams('https://example.com/page?x=1', NO_UTM)).toBe(
+        'https://example.com/page?x=1'
+      );
+    });
+
+    it('should append UTM values as query parameters', () => {
+      const url = applyUtmParams('https://example.com/page', {
+        ...NO_UTM,
+        utmSource: 'newsletter',
+        utmMedium: 'email',
+        utmCampaign: 'spring sale',
+      });
+      expect(url).toBe(
+        'https://example.com/page?utm_source=newsletter&utm_medium=email&utm_campaign=spring+sale'
+      );
+    });
+
+    it('should keep existing parameters and the fragment', () => {
+      const url = applyUtmParams('https://example.com/page?ref=abc#pricing', {
+        utmCampaign: 'launch',
+      });
+      expect(url).toBe('https://example.com/page?ref=abc&utm_campaign=launch#pricing');
+    });
+
+    it('should override UTM values already in the URL', () => {
+      const url = applyUtmParams('https://example.com/?utm_source=old&utm_term=keep', {
+        utmSource: 'new',
+      });
+      expect(new URL(url).searchParams.get('utm_source')).toBe('new');
+      expect(new URL(url).searchParams.get('utm_term')).toBe('keep');
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import {
+  CreateWebhookSchema,
+  MAX_WEBHOOK_ATTEMPTS,
+  UpdateWebhookSchema,
+  WEBHOOK_EVENTS,
+  WEBHOOK_RETRY_BASE_DELAY_SECONDS,
+  WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  getWebhookRetryDelayMs,
+  isPrivateAddress,
+} from '@/lib/webhooks';
+import {
+  WEBHOOK_SECRET_PREFIX,
+  createSignatureHeader,
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '@/lib/webhook-signature';
+
+/**
+ * Real tests for outgoing webhooks
+ * Tests the ACTUAL signing from lib/webhook-signature.ts and the retry
+ * schedule and schemas from lib/webhooks.ts
+ */
+
+describe('Webhooks - Real Implementation', () => {
+  const secret = 'whsec_test-secret';
+  const body = JSON.stringify({ id: 'delivery-1', event: 'link.created', data: {} });
+  const now = new Date('2026-03-01T12:00:00Z');
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  describe('generateWebhookSecret', () => {
+    it('should create prefixed secrets that fit the column', () => {
+      const generated = generateWebhookSecret();
+      expect(generated.startsWith(WEBHOOK_SECRET_PREFIX)).toBe(true);
+      expect(generated.length).toBeLessThanOrEqual(64);
+      expect(generated).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+
+    it('should never repeat a secret', () => {
+      const secrets = new Set(Array.from({ length: 50 }, () => generateWebhookSecret()));
+      expect(secrets.size).toBe(50);
+    });
+  });
+
+  describe('signWebhookPayload', () => {
+    it('should compute the HMAC-SHA256 of the timestamp and body', () => {
+      const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+      expect(signWebhookPayload(secret, timestamp, body)).toBe(expected);
+    });
+
+    it('should depend on the secret, timestamp and body', () => {
+      const signature = signWebhookPayload(secret, timestamp, body);
+      expect(signWebhookPayload('whsec_other', timestamp, body)).not.toBe(signature);
+      expect(signWebhookPayload(secret, timestamp + 1, body)).not.toBe(signature);
+      expect(signWebhookPayload(secret, timestamp, `${body} `)).not.toBe(signature);
+    });
+  });
+
+  describe('createSignatureHeader', () => {
+    it('should include the timestamp and signature', () => {
+      expect(createSignatureHeader(secret, body, now)).toBe(
+        `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`
+      );
+    });
+  });
+
+  describe('verifyWebhookSignature', () => {
+    it('should accept a header created for the same body', () => {
+      const header = createSignatureHeader(secret, body, now);
+      expect(verifyWebhookSignature(secret, header, body, now)).toBe(true);
+    });
+
+    it('should reject a different secret or a modified body', () => {
+      const header = createSignatureHeader(secret, body, now);
+      expect(verifyWebhookSignature('whsec_other', header, body, now)).toBe(false);
+      expect(verifyWebhookSignature(secret, header, body.replace('created', 'deleted'), now)).toBe(false);
+    });
+
+    it('should reject signatures outside the tolerance', () => {
+      const header = createSignatureHeader(secret, body, now);
+      const late = new Date(now.getTime() + (WEBHOOK_SIGNATURE_TOLERANCE_SECONDS + 1) * 1000);
+      expect(verifyWebhookSignature(secret, header, body, late)).toBe(false);
+    });
+
+    it('should reject missing and malformed headers', () => {
+      expect(verifyWebhookSignature(secret, null, body, now)).toBe(false);
+      expect(verifyWebhookSignature(secret, 'garbage', body, now)).toBe(false);
+      expect(verifyWebhookSignature(secret, `t=${timestamp}`, body, now)).toBe(false);
+      expect(verifyWebhookSignature(secret, `t=${timestamp},v1=abc`, body, now)).toBe(false);
+    });
+  });
+
+  describe('getWebhookRetryDelayMs', () => {
+    it('should double the delay after each failed attempt', () => {
+      const base = WEBHOOK_RETRY_BASE_DELAY_SECONDS * 1000;
+      expect(getWebhookRetryDelayMs(1)).toBe(base);
+      expect(getWebhookRetryDelayMs(2)).toBe(base * 2);
+      expect(getWebhookRetryDelayMs(3)).toBe(base * 4);
+    });
+
+    it('should stop retrying once all attempts are used', () => {
+      expect(getWebhookRetryDelayMs(MAX_WEBHOOK_ATTEMPTS - 1)).not.toBeNull();
+      expect(getWebhookRetryDelayMs(MAX_WEBHOOK_ATTEMPTS)).toBeNull();
+    });
+  });
+
+  describe('CreateWebhookSchema', () => {
+    it('should accept an https URL with events, dropping repeats', () => {
+      const result = CreateWebhookSchema.safeParse({
+        url: ' https://example.com/hooks ',
+        events: ['link.created', 'link.clicked', 'link.created'],
+      });
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        url: 'https://example.com/hooks',
+        events: ['link.created', 'link.clicked'],
+      });
+    });
+
+    it('should accept every supported event', () => {
+      expect(CreateWebhookSchema.safeParse({ url: 'http://hooks.example.com:4000', events: [...WEBHOOK_EVENTS] }).success).toBe(true);
+    });
+
+    it('should reject URLs that are not http or https', () => {
+      expect(CreateWebhookSchema.safeParse({ url: 'ftp://example.com', events: ['link.created'] }).success).toBe(false);
+      expect(CreateWebhookSchema.safeParse({ url: 'not a url', events: ['link.created'] }).success).toBe(false);
+    });
+
+    it('should reject URLs on this machine or a private network', () => {
+      for (const url of [
+        'http://localhost:4000',
+        'http://api.localhost',
+        'http://127.0.0.1/hooks',
+        'http://0x7f.1',
+        'http://0.0.0.0',
+        'http://169.254.169.254/latest/meta-data',
+        'http://10.0.0.5',
+        'http://172.16.0.1',
+        'http://192.168.1.10',
+        'http://[::1]',
+        'http://[::ffff:127.0.0.1]',
+        'http://[fd00::1]',
+        'http://[fe80::1]',
+        'http://[::127.0.0.1]',
+        'http://[64:ff9b::7f00:1]',
+        'http://[2002:a9fe:a9fe::]',
+        'http://[fec0::1]',
+      ]) {
+        expect(CreateWebhookSchema.safeParse({ url, events: ['link.created'] }).success, url).toBe(false);
+      }
+    });
+
+    it('should require at least one known event', () => {
+      expect(CreateWebhookSchema.safeParse({ url: 'https://example.com', events: [] }).success).toBe(false);
+      expect(CreateWebhookSchema.safeParse({ url: 'https://example.com', events: ['link.renamed'] }).success).toBe(false);
+    });
+  });
+
+  describe('isPrivateAddress', () => {
+    it('should flag loopback, private and link-local addresses', () => {
+      for (const address of ['127.0.0.1', '10.1.2.3', '172.31.255.255', '192.168.0.1', '169.254.169.254', '100.64.0.1', '::1', 'fc00::1', 'fe80::1', '::ffff:10.0.0.1']) {
+        expect(isPrivateAddress(address), address).toBe(true);
+      }
+    });
+
+    it('should allow public addresses', () => {
+      for (const address of ['93.184.216.34', '172.32.0.1', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8', '::8.8.8.8', '64:ff9b::808:808', '2002:808:808::1']) {
+        expect(isPrivateAddress(address), address).toBe(false);
+      }
+    });
+
+    it('should check the IPv4 address inside IPv4-compatible addresses', () => {
+      expect(isPrivateAddress('::127.0.0.1')).toBe(true);
+      expect(isPrivateAddress('::7f00:1')).toBe(true);
+      expect(isPrivateAddress('::a9fe:a9fe')).toBe(true);
+      expect(isPrivateAddress('::')).toBe(true);
+    });
+
+    it('should check the IPv4 address inside IPv4-mapped addresses', () => {
+      expect(isPrivateAddress('::ffff:7f00:1')).toBe(true);
+      expect(isPrivateAddress('0:0:0:0:0:ffff:192.168.0.1')).toBe(true);
+    });
+
+    it('should check the IPv4 address inside NAT64 addresses', () => {
+      expect(isPrivateAddress('64:ff9b::127.0.0.1')).toBe(true);
+      expect(isPrivateAddress('64:ff9b::a9fe:a9fe')).toBe(true);
+      expect(isPrivateAddress('64:ff9b:1::808:808')).toBe(true);
+    });
+
+    it('should check the IPv4 address inside 6to4 addresses', () => {
+      expect(isPrivateAddress('2002:7f00:1::')).toBe(true);
+      expect(isPrivateAddress('2002:c0a8:101::1')).toBe(true);
+      expect(isPrivateAddress('2002:a9fe:a9fe::')).toBe(true);
+    });
+
+    it('should flag deprecated site-local addresses', () => {
+      expect(isPrivateAddress('fec0::1')).toBe(true);
+      expect(isPrivateAddress('feff::1')).toBe(true);
+    });
+
+    it('should ignore zone IDs and reject non-addresses', () => {
+      expect(isPrivateAddress('fe80::1%eth0')).toBe(true);
+      expect(isPrivateAddress('example.com')).toBe(false);
+      expect(isPrivateAddress('1:2:3')).toBe(false);
+    });
+  });
+
+  describe('UpdateWebhookSchema', () => {
+    it('should accept partial updates', () => {
+      expect(UpdateWebhookSchema.safeParse({ isActive: false }).success).toBe(true);
+      expect(UpdateWebhookSchema.safeParse({ events: ['link.expired'] }).success).toBe(true);
+    });
+
+    it('should validate the fields it is given', () => {
+      expect(UpdateWebhookSchema.safeParse({ url: 'javascript:alert(1)' }).success).toBe(false);
+      expect(UpdateWebhookSchema.safeParse({ events: [] }).success).toBe(false);
+      expect(UpdateWebhookSchema.safeParse({ url: 'http://192.168.0.1/hooks' }).success).toBe(false);
+    });
+  });
+});
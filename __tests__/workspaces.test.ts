@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AddWorkspaceMemberSchema,
+  CreateWorkspaceSchema,
+  UpdateWorkspaceMemberSchema,
+  WORKSPACE_COOKIE,
+  WORKSPACE_HEADER,
+  canManageMembers,
+  getRequestedWorkspaceId,
+} from '@/lib/workspaces';
+
+/**
+ * Real tests for team workspaces
+ * Tests the ACTUAL roles, schemas and request helpers from lib/workspaces.ts
+ */
+
+function requestWith(headers: Record<string, string>, cookies: Record<string, string> = {}) {
+  return {
+    headers: new Headers(headers),
+    cookies: {
+      get: (name: string) => (name in cookies ? { value: cookies[name] } : undefined),
+    },
+  };
+}
+
+describe('Workspaces - Real Implementation', () => {
+  describe('roles', () => {
+    it('should only let owners manage members', () => {
+      expect(canManageMembers('owner')).toBe(true);
+      expect(canManageMembers('editor')).toBe(false);
+      expect(canManageMembers('viewer')).toBe(false);
+    });
+  });
+
+  describe('getRequestedWorkspaceId', () => {
+    it('should return null when no workspace is requested', () => {
+      expect(getRequestedWorkspaceId(requestWith({}))).toBeNull();
+    });
+
+    it('should read the header', () => {
+      expect(getRequestedWorkspaceId(requestWith({ [WORKSPACE_HEADER]: ' ws_1 ' }))).toBe('ws_1');
+    });
+
+    it('should fall back to the cookie', () => {
+      expect(getRequestedWorkspaceId(requestWith({}, { [WORKSPACE_COOKIE]: 'ws_2' }))).toBe('ws_2');
+    });
+
+    it('should prefer the header over the cookie', () => {
+      const request = requestWith({ [WORKSPACE_HEADER]: 'ws_1' }, { [WORKSPACE_COOKIE]: 'ws_2' });
+      expect(getRequestedWorkspaceId(request)).toBe('ws_1');
+    });
+
+    it('should ignore a blank header', () => {
+      const request = requestWith({ [WORKSPACE_HEADER]: '  ' }, { [WORKSPACE_COOKIE]: 'ws_2' });
+      expect(getRequestedWorkspaceId(request)).toBe('ws_2');
+    });
+  });
+
+  describe('CreateWorkspaceSchema', () => {
+    it('should trim the name', () => {
+      expect(CreateWorkspaceSchema.parse({ name: '  Marketing ' })).toEqual({ name: 'Marketing' });
+    });
+
+    it('should reject empty and overlong names', () => {
+      expect(CreateWorkspaceSchema.safeParse({ name: '  ' }).success).toBe(false);
+      expect(CreateWorkspaceSchema.safeParse({ name: 'a'.repeat(101) }).success).toBe(false);
+    });
+  });
+
+  describe('AddWorkspaceMemberSchema', () => {
+    it('should normalize the email and default to editor', () => {
+      expect(AddWorkspaceMemberSchema.parse({ email: ' Teammate@Example.com ' })).toEqual({
+        email: 'teammate@example.com',
+        role: 'editor',
+      });
+    });
+
+    it('should reject invalid emails and unknown roles', () => {
+      expect(AddWorkspaceMemberSchema.safeParse({ email: 'not-an-email' }).success).toBe(false);
+      expect(
+        AddWorkspaceMemberSchema.safeParse({ email: 'a@example.com', role: 'admin' }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('UpdateWorkspaceMemberSchema', () => {
+    it('should require a known role', () => {
+      expect(UpdateWorkspaceMemberSchema.safeParse({ role: 'viewer' }).success).toBe(true);
+      expect(UpdateWorkspaceMemberSchema.safeParse({}).success).toBe(false);
+    });
+  });
+});
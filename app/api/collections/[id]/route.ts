@@ -0,0 +1,128 @@
+import { NextRequest } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import {
+  deleteCollection,
+  getCollectionByIdAndUserId,
+  isHandleTaken,
+  updateCollection,
+} from "@/data/collections-db";
+import { getAccessibleLinkIds } from "@/data/workspaces-db";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiUnauthorized,
+  apiNotFound,
+  apiConflict,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { UpdateCollectionSchema } from "@/lib/collection-schemas";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    }
+
+    const { id } = await params;
+
+    const collection = await getCollectionByIdAndUserId(id, userId);
+
+    if (!collection) {
+      return withCorsHeaders(request, apiNotFound("Collection not found or access denied"));
+    }
+
+    const response = apiSuccess(collection);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Get collection API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    }
+
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+
+    const validation = UpdateCollectionSchema.safeParse(body);
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+    const updates = validation.data;
+
+    if (updates.handle && (await isHandleTaken(updates.handle, id))) {
+      return withCorsHeaders(request, apiConflict("Handle already in use"));
+    }
+
+    // Collections can list the owner's own links and links from their workspaces
+    if (updates.links) {
+      const linkIds = updates.links.map((link) => link.linkId);
+      const accessible = await getAccessibleLinkIds(userId, linkIds);
+      if (linkIds.some((linkId) => !accessible.has(linkId))) {
+        return withCorsHeaders(request, apiBadRequest("One or more links were not found"));
+      }
+    }
+
+    const updated = await updateCollection(id, userId, updates);
+
+    if (!updated) {
+      return withCorsHeaders(request, apiNotFound("Collection not found or access denied"));
+    }
+
+    const response = apiSuccess(updated);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Update collection API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    }
+
+    const { id } = await params;
+
+    const deleted = await deleteCollection(id, userId);
+
+    if (!deleted) {
+      return withCorsHeaders(request, apiNotFound("Collection not found or access denied"));
+    }
+
+    const response = apiSuccess({ message: "Collection deleted successfully" });
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Delete collection API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
@@ -0,0 +1,71 @@
+import { NextRequest } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createCollection, getUserCollections, isHandleTaken } from "@/data/collections-db";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiUnauthorized,
+  apiConflict,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { CreateCollectionSchema } from "@/lib/collection-schemas";
+
+/**
+ * Link-in-bio collections
+ * GET lists the user's collections; POST creates an empty one, published at
+ * /p/<handle>. Links are added and ordered through PATCH /api/collections/[id].
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    }
+
+    const collections = await getUserCollections(userId);
+
+    const response = apiSuccess(collections);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Collections API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const validation = CreateCollectionSchema.safeParse(body);
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+
+    if (await isHandleTaken(validation.data.handle)) {
+      return withCorsHeaders(request, apiConflict("Handle already in use"));
+    }
+
+    const collection = await createCollection(userId, validation.data);
+
+    const response = apiSuccess({ ...collection, links: [] }, 201);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Create collection API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
@@ -0,0 +1,44 @@
+import { NextRequest } from "next/server";
+import { deleteLinkById, getLinksPendingPurge } from "@/data/links-db";
+import { apiSuccess, apiUnauthorized, apiInternalError } from "@/lib/api-response";
+
+/**
+ * Scheduled purge of trashed links
+ * Permanently deletes links that have been inactive for longer than the retention period.
+ * Intended to be called by a scheduler (e.g. Vercel Cron) with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * Environment variables:
+ * - CRON_SECRET: shared secret required to call this route
+ * - TRASH_RETENTION_DAYS: days a link stays in the trash (default 30)
+ */
+
+const BATCH_SIZE = 500;
+
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return apiUnauthorized("Invalid cron secret");
+    }
+
+    const retentionDays = parseInt(process.env.TRASH_RETENTION_DAYS || "30");
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const links = await getLinksPendingPurge(cutoff, BATCH_SIZE);
+    for (const link of links) {
+      await deleteLinkById(link.id, { userId: link.userId, workspaceId: link.workspaceId });
+    }
+
+    console.log(`[PURGE] Deleted ${links.length} links inactive since before ${cutoff.toISOString()}`);
+    return apiSuccess({
+      purged: links.length,
+      cutoff: cutoff.toISOString(),
+      // A full batch means more links may still be waiting
+      hasMore: links.length === BATCH_SIZE,
+    });
+  } catch (error) {
+    console.error("Purge links error:", error);
+    return apiInternalError("Internal server error");
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+import { retryDueWebhookDeliveries } from "@/data/webhook-delivery";
+import { deleteWebhookDeliveriesBefore } from "@/data/webhooks-db";
+import { apiSuccess, apiUnauthorized, apiInternalError } from "@/lib/api-response";
+import { WEBHOOK_DELIVERY_RETENTION_DAYS } from "@/lib/webhooks";
+
+/**
+ * Scheduled webhook retries
+ * Re-sends pending deliveries whose backoff has passed and removes deliveries
+ * older than the retention period from the log. Intended to be called by a
+ * scheduler (e.g. Vercel Cron) every few minutes with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * Environment variables:
+ * - CRON_SECRET: shared secret required to call this route
+ */
+
+const BATCH_SIZE = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return apiUnauthorized("Invalid cron secret");
+    }
+
+    const attempted = await retryDueWebhookDeliveries(BATCH_SIZE);
+
+    const cutoff = new Date(Date.now() - WEBHOOK_DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const removed = await deleteWebhookDeliveriesBefore(cutoff);
+
+    console.log(`[WEBHOOKS] Retried ${attempted} deliveries, removed ${removed} old ones`);
+    return apiSuccess({
+      attempted,
+      removed,
+      // A full batch means more deliveries may still be due
+      hasMore: attempted === BATCH_SIZE,
+    });
+  } catch (error) {
+    console.error("Webhook retry error:", error);
+    return apiInternalError("Internal server error");
+  }
+}
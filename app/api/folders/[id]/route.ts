@@ -0,0 +1,96 @@
+import { NextRequest } from "next/server";
+import { authenticateRequest } from "@/data/request-auth";
+import { deleteFolder, isFolderNameTaken, renameFolder } from "@/data/folders-db";
+import { authorizeScope } from "@/data/permissions";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiError,
+  apiNotFound,
+  apiForbidden,
+  apiConflict,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { FolderSchema } from "@/lib/link-organization";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const { id } = await params;
+
+    const access = await authorizeScope(caller, "edit");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const validation = FolderSchema.safeParse(body);
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+
+    if (await isFolderNameTaken(access.scope, validation.data.name, id)) {
+      return withCorsHeaders(request, apiConflict("A folder with this name already exists"));
+    }
+
+    // The scope filter in the update keeps folders of other users and workspaces out of reach
+    const folder = await renameFolder(id, access.scope, validation.data.name);
+
+    if (!folder) {
+      return withCorsHeaders(request, apiNotFound("Folder not found"));
+    }
+
+    const response = apiSuccess(folder);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Update folder API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+// Deleting a folder keeps its links; they become unfiled
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const { id } = await params;
+
+    const access = await authorizeScope(caller, "edit");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    if (!(await deleteFolder(id, access.scope))) {
+      return withCorsHeaders(request, apiNotFound("Folder not found"));
+    }
+
+    const response = apiSuccess({ message: "Folder deleted successfully" });
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Delete folder API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
@@ -0,0 +1,84 @@
+import { NextRequest } from "next/server";
+import { authenticateRequest } from "@/data/request-auth";
+import { createFolder, getUserFolders, isFolderNameTaken } from "@/data/folders-db";
+import { authorizeScope } from "@/data/permissions";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiError,
+  apiForbidden,
+  apiConflict,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { FolderSchema } from "@/lib/link-organization";
+
+/**
+ * Link folders
+ * GET lists the folders in the current workspace (or the user's personal
+ * folders) with their active link counts; POST creates one.
+ * Links are moved into a folder by setting `folderId` on the link.
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const access = await authorizeScope(caller, "view");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    const folders = await getUserFolders(access.scope);
+
+    const response = apiSuccess(folders);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Folders API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const access = await authorizeScope(caller, "edit");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const validation = FolderSchema.safeParse(body);
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+
+    if (await isFolderNameTaken(access.scope, validation.data.name)) {
+      return withCorsHeaders(request, apiConflict("A folder with this name already exists"));
+    }
+
+    const folder = await createFolder(access.scope, validation.data.name);
+
+    const response = apiSuccess({ ...folder, linkCount: 0 }, 201);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Create folder API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { revokeApiKey } from "@/data/api-keys-db";
+import {
+  apiSuccess,
+  apiUnauthorized,
+  apiNotFound,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+
+// Revoke a key; requests using it fail from then on
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    }
+
+    const { id } = await params;
+
+    const revoked = await revokeApiKey(id, userId);
+
+    if (!revoked) {
+      return withCorsHeaders(request, apiNotFound("API key not found or already revoked"));
+    }
+
+    const response = apiSuccess(revoked);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Revoke API key API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
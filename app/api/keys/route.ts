@@ -0,0 +1,85 @@
+import { NextRequest } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { countActiveApiKeys, createApiKey, getUserApiKeys } from "@/data/api-keys-db";
+import { getWorkspaceRole } from "@/data/workspaces-db";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiUnauthorized,
+  apiForbidden,
+  apiInternalError,
+} from "@/lib/api-response";
+import { CreateApiKeySchema, MAX_API_KEYS_PER_USER } from "@/lib/api-keys";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { WORKSPACE_ACCESS_DENIAL } from "@/lib/permissions";
+
+/**
+ * Personal API keys
+ * GET lists the user's keys, including revoked ones; POST creates a key and
+ * returns it once. Keys are managed with a signed-in session only, so a key
+ * cannot create more keys.
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    }
+
+    const keys = await getUserApiKeys(userId);
+
+    const response = apiSuccess(keys);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("API keys API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const validation = CreateApiKeySchema.safeParse(body);
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+    const { workspaceId } = validation.data;
+
+    if (workspaceId && !(await getWorkspaceRole(workspaceId, userId))) {
+      return withCorsHeaders(
+        request,
+        apiForbidden(WORKSPACE_ACCESS_DENIAL.message, WORKSPACE_ACCESS_DENIAL.code)
+      );
+    }
+
+    if ((await countActiveApiKeys(userId)) >= MAX_API_KEYS_PER_USER) {
+      return withCorsHeaders(
+        request,
+        apiBadRequest(`You can have at most ${MAX_API_KEYS_PER_USER} active API keys`)
+      );
+    }
+
+    const created = await createApiKey(userId, validation.data);
+
+    const response = apiSuccess(created, 201);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Create API key API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
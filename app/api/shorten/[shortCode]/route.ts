@@ -1,6 +1,14 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getLinkByCode, incrementClicks } from "@/data/links-db";
-import { apiSuccess, apiNotFound, apiInternalError } from "@/lib/api-response";
+import { NextRequest, NextResponse, after } from "next/server";
+import { getLinkByCode } from "@/data/links-db";
+import { getUnavailableReason, resolveClick } from "@/data/link-resolution";
+import { emitLinkExpired } from "@/data/webhook-delivery";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiNotFound,
+  apiForbidden,
+  apiInternalError,
+} from "@/lib/api-response";
 import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
 
 export async function GET(
@@ -13,27 +21,44 @@ export async function GET(
     // Find the shortened URL using helper
     const url = await getLinkByCode(shortCode);
 
-    if (!url) {
-      return withCorsHeaders(request, apiNotFound("Shortened URL not found"));
+    const unavailable = getUnavailableReason(url);
+    if (!url || unavailable) {
+      // Resolving an expired link reports the expiry, like a visit to /l/[shortcode]
+      if (url && unavailable === "expired") {
+        after(() => emitLinkExpired(url));
+      }
+      const message =
+        unavailable === "disabled"
+          ? "This link has been disabled"
+          : unavailable === "expired"
+            ? "This link has expired"
+            : "Shortened URL not found";
+      return withCorsHeaders(request, apiNotFound(message));
     }
 
-    // Check if URL is active
-    if (!url.isActive) {
-      return withCorsHeaders(request, apiNotFound("This link has been disabled"));
+    // Protected links only resolve through the /l/[shortcode] password prompt
+    if (url.hasPassword) {
+      return withCorsHeaders(
+        request,
+        apiForbidden("This link is password protected", "PASSWORD_REQUIRED")
+      );
     }
 
-    // Check if URL has expired
-    if (url.expiresAt && new Date() > new Date(url.expiresAt)) {
+    // Counted, recorded and routed like a visit to /l/[shortcode]
+    const resolved = await resolveClick(request, url);
+    if (!resolved) {
       return withCorsHeaders(request, apiNotFound("This link has expired"));
     }
 
-    // Increment click count using helper
-    await incrementClicks(shortCode);
+    if (!resolved.destinationUrl) {
+      return withCorsHeaders(request, apiBadRequest("Invalid redirect URL"));
+    }
 
-    // Return the original URL (client will handle redirect or return as data)
+    // Return the destination (client will handle redirect or return as data)
     const response = apiSuccess({
       originalUrl: url.originalUrl,
       shortCode: url.shortCode,
+      destinationUrl: resolved.destinationUrl,
     });
     return withCorsHeaders(request, response);
   } catch (error) {
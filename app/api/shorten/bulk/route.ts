@@ -0,0 +1,256 @@
+import { NextRequest, after } from "next/server";
+import { authenticateRequest, limitRequest } from "@/data/request-auth";
+import {
+  createLinks,
+  checkShortCodeExists,
+  NewLinkInput,
+  TaggedLink,
+} from "@/data/links-db";
+import { getFolderInScope } from "@/data/folders-db";
+import { authorizeScope } from "@/data/permissions";
+import { emitLinkEvent } from "@/data/webhook-delivery";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiError,
+  apiForbidden,
+  apiTooManyRequests,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { CreateLinkSchema } from "@/lib/link-schemas";
+import { parseCsvRecords } from "@/lib/csv";
+import { generateShortCode } from "@/lib/short-code";
+
+/**
+ * Bulk link creation
+ * Accepts a JSON array of CreateLinkSchema items (or `{ links: [...] }`), a
+ * `text/csv` body, or a multipart upload with a `file` field. Each row is
+ * validated independently and the response reports success or error per row.
+ *
+ * CSV files need a header row; recognised columns are `originalUrl` (or `url`),
+ * `customAlias` (or `alias`), `description`, `expiresAt`, `maxClicks`, `password`
+ * and the UTM fields (`utm_source`, `utm_medium`, `utm_campaign`, `utm_term`, `utm_content`).
+ */
+
+const BULK_MAX_ITEMS = 100;
+
+// Every started block of this many links counts as one rate limit hit
+const ITEMS_PER_RATE_LIMIT_HIT = 10;
+
+type BulkLinkResult =
+  | { index: number; success: true; data: TaggedLink & { shortUrl: string } }
+  | { index: number; success: false; error: string };
+
+// Map CSV header spellings (originalUrl, original_url, URL, ...) to schema fields
+const CSV_COLUMNS: Record<string, string> = {
+  originalurl: "originalUrl",
+  url: "originalUrl",
+  customalias: "customAlias",
+  alias: "customAlias",
+  description: "description",
+  expiresat: "expiresAt",
+  maxclicks: "maxClicks",
+  password: "password",
+  utmsource: "utmSource",
+  utmmedium: "utmMedium",
+  utmcampaign: "utmCampaign",
+  utmterm: "utmTerm",
+  utmcontent: "utmContent",
+};
+
+function csvRecordToItem(record: Record<string, string>): Record<string, unknown> {
+  const item: Record<string, unknown> = {};
+  for (const [header, rawValue] of Object.entries(record)) {
+    const field = CSV_COLUMNS[header.toLowerCase().replace(/[^a-z]/g, "")];
+    const value = rawValue.trim();
+    if (!field || value === "") {
+      continue;
+    }
+    item[field] = field === "maxClicks" ? Number(value) : value;
+  }
+  return item;
+}
+
+async function readItems(request: NextRequest): Promise<unknown[] | null> {
+  const contentType = request.headers.get("content-type") ?? "";
+
+  if (contentType.includes("multipart/form-data")) {
+    const file = (await request.formData()).get("file");
+    if (!(file instanceof Blob)) {
+      return null;
+    }
+    return parseCsvRecords(await file.text()).map(csvRecordToItem);
+  }
+
+  if (contentType.includes("text/csv")) {
+    return parseCsvRecords(await request.text()).map(csvRecordToItem);
+  }
+
+  const body: unknown = await request.json().catch(() => null);
+  if (Array.isArray(body)) {
+    return body;
+  }
+  if (body && typeof body === "object" && "links" in body && Array.isArray(body.links)) {
+    return body.links;
+  }
+  return null;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const access = await authorizeScope(caller, "create");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    const items = await readItems(request);
+
+    if (!items) {
+      return withCorsHeaders(
+        request,
+        apiBadRequest("Expected a JSON array of links or a CSV file")
+      );
+    }
+
+    if (items.length === 0) {
+      return withCorsHeaders(request, apiBadRequest("At least one link is required"));
+    }
+
+    if (items.length > BULK_MAX_ITEMS) {
+      return withCorsHeaders(
+        request,
+        apiBadRequest(`A bulk request can contain at most ${BULK_MAX_ITEMS} links`)
+      );
+    }
+
+    // Rate limiting check, weighted by batch size
+    const withinLimit = await limitRequest(
+      request,
+      caller,
+      Math.ceil(items.length / ITEMS_PER_RATE_LIMIT_HIT)
+    );
+
+    if (!withinLimit) {
+      return withCorsHeaders(request, apiTooManyRequests("Too many requests. Please try again later."));
+    }
+
+    const results: BulkLinkResult[] = [];
+    const pending: Array<{ index: number; link: NewLinkInput }> = [];
+    // Short codes claimed by earlier rows of this request
+    const reserved = new Set<string>();
+    // Folder ownership, looked up once per folder ID
+    const ownedFolders = new Map<string, boolean>();
+
+    for (const [index, item] of items.entries()) {
+      const validation = CreateLinkSchema.safeParse(item);
+      if (!validation.success) {
+        results.push({ index, success: false, error: validation.error.issues[0].message });
+        continue;
+      }
+
+      const { originalUrl, customAlias, description, expiresAt, maxClicks, password, ...linkOptions } = validation.data;
+      const normalizedAlias = customAlias?.toLowerCase();
+      let shortCode: string;
+
+      const { folderId } = linkOptions;
+      if (folderId) {
+        if (!ownedFolders.has(folderId)) {
+          ownedFolders.set(folderId, !!(await getFolderInScope(folderId, access.scope)));
+        }
+        if (!ownedFolders.get(folderId)) {
+          results.push({ index, success: false, error: "Folder not found" });
+          continue;
+        }
+      }
+
+      if (normalizedAlias) {
+        if (reserved.has(normalizedAlias)) {
+          results.push({ index, success: false, error: "Custom alias is used more than once in this request" });
+          continue;
+        }
+
+        // Matches other links' aliases as well as their short codes
+        if (await checkShortCodeExists(normalizedAlias)) {
+          results.push({ index, success: false, error: "Custom alias already in use" });
+          continue;
+        }
+
+        shortCode = normalizedAlias;
+      } else {
+        do {
+          shortCode = generateShortCode();
+        } while (reserved.has(shortCode) || (await checkShortCodeExists(shortCode)));
+      }
+
+      reserved.add(shortCode);
+      pending.push({
+        index,
+        link: {
+          originalUrl,
+          shortCode,
+          customAlias: normalizedAlias,
+          description,
+          expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+          maxClicks,
+          password,
+          ...linkOptions,
+        },
+      });
+    }
+
+    // Insert all valid rows together. If that fails (e.g. an alias taken since it was
+    // checked), insert them one by one so only the offending rows report an error
+    const toResult = (index: number, link: TaggedLink): BulkLinkResult => ({
+      index,
+      success: true,
+      data: { ...link, shortUrl: `${process.env.NEXT_PUBLIC_APP_URL}/l/${link.shortCode}` },
+    });
+    const createdLinks: TaggedLink[] = [];
+    try {
+      const created = await createLinks(access.scope, pending.map(({ link }) => link));
+      pending.forEach(({ index }, position) => {
+        createdLinks.push(created[position]);
+        results.push(toResult(index, created[position]));
+      });
+    } catch (error) {
+      console.error("Bulk insert error, retrying rows individually:", error);
+      for (const { index, link } of pending) {
+        try {
+          const [created] = await createLinks(access.scope, [link]);
+          createdLinks.push(created);
+          results.push(toResult(index, created));
+        } catch (rowError) {
+          console.error(`Bulk insert error for row ${index}:`, rowError);
+          results.push({ index, success: false, error: "Failed to create link, please retry" });
+        }
+      }
+    }
+    after(() => Promise.all(createdLinks.map((link) => emitLinkEvent("link.created", link))));
+
+    results.sort((a, b) => a.index - b.index);
+    const createdCount = results.filter((result) => result.success).length;
+
+    const response = apiSuccess({
+      created: createdCount,
+      failed: results.length - createdCount,
+      results,
+    });
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    // Log detailed error server-side only
+    console.error("Bulk API error:", error);
+    const response = apiInternalError("An error occurred while processing your request");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/data/request-auth";
+import { getUserLinksPage } from "@/data/links-db";
+import { getUserClicksPage } from "@/data/analytics-db";
+import { authorizeScope } from "@/data/permissions";
+import {
+  apiBadRequest,
+  apiError,
+  apiForbidden,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import {
+  CLICK_EXPORT_COLUMNS,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  LINK_EXPORT_COLUMNS,
+  createExportStream,
+  getExportFilename,
+} from "@/lib/export";
+import { decodeCursor } from "@/lib/pagination";
+import { getScopeDenial } from "@/lib/permissions";
+import type { WorkspaceScope } from "@/lib/workspaces";
+import { z } from "zod";
+
+/**
+ * Export a user's links or click history
+ * `type=links` streams every link (active and trashed); `type=clicks` streams raw
+ * clicks across all links, optionally limited to a `from`/`to` range.
+ */
+
+const EXPORT_BATCH_SIZE = 500;
+
+const ExportQuerySchema = z
+  .object({
+    format: z.enum(EXPORT_FORMATS).default("csv"),
+    type: z.enum(["links", "clicks"]).default("links"),
+    from: z.string().datetime("Invalid 'from' date").optional(),
+    to: z.string().datetime("Invalid 'to' date").optional(),
+  })
+  .refine((query) => !query.from || !query.to || new Date(query.from) <= new Date(query.to), {
+    message: "`from` must be before `to`",
+  });
+
+async function* linkPages(scope: WorkspaceScope) {
+  let cursor: string | null = null;
+  do {
+    const page = await getUserLinksPage(scope, {
+      status: "all",
+      sort: "createdAt",
+      order: "asc",
+      limit: EXPORT_BATCH_SIZE,
+      cursor: cursor ? decodeCursor(cursor) : null,
+    });
+    yield page.links;
+    cursor = page.nextCursor;
+  } while (cursor);
+}
+
+async function* clickPages(scope: WorkspaceScope, from?: Date, to?: Date) {
+  let cursor: string | null = null;
+  do {
+    const page = await getUserClicksPage(scope, {
+      from,
+      to,
+      limit: EXPORT_BATCH_SIZE,
+      cursor: cursor ? decodeCursor(cursor) : null,
+    });
+    yield page.clicks;
+    cursor = page.nextCursor;
+  } while (cursor);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const validation = ExportQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+    const { format, type, from, to } = validation.data;
+
+    const access = await authorizeScope(caller, "export");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    // Raw clicks are analytics, so API keys also need analytics:read for them
+    const scopeDenial =
+      type === "clicks" && caller.apiKey ? getScopeDenial(caller.apiKey.scopes, "view_analytics") : null;
+    if (scopeDenial) {
+      return withCorsHeaders(request, apiForbidden(scopeDenial.message, scopeDenial.code));
+    }
+
+    const stream =
+      type === "clicks"
+        ? createExportStream(
+            format,
+            CLICK_EXPORT_COLUMNS,
+            clickPages(access.scope, from ? new Date(from) : undefined, to ? new Date(to) : undefined)
+          )
+        : createExportStream(format, LINK_EXPORT_COLUMNS, linkPages(access.scope));
+
+    const response = new NextResponse(stream, {
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${getExportFilename(type, format)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Export API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
@@ -0,0 +1,189 @@
+import { NextRequest, after } from "next/server";
+import { authenticateRequest, limitRequest } from "@/data/request-auth";
+import { createLinks, findTakenCodes, NewLinkInput, TaggedLink } from "@/data/links-db";
+import { authorizeScope } from "@/data/permissions";
+import { emitLinkEvent } from "@/data/webhook-delivery";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiError,
+  apiForbidden,
+  apiTooManyRequests,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import {
+  ImportPreview,
+  ImportPreviewRow,
+  ImportResult,
+  ImportRowError,
+  MAX_IMPORT_ROWS,
+  parseImportFile,
+} from "@/lib/link-import";
+import { generateShortCode } from "@/lib/short-code";
+import { z } from "zod";
+
+/**
+ * Import links from another shortener's CSV export
+ * Multipart form fields:
+ * - file: the CSV export
+ * - dryRun: "true" to only preview conflicts without creating anything
+ * - onConflict: "generate" (default) gives conflicting rows a random short code,
+ *   "skip" leaves them out
+ */
+
+const INSERT_BATCH_SIZE = 100;
+
+const ImportOptionsSchema = z.object({
+  dryRun: z.enum(["true", "false"]).default("false"),
+  onConflict: z.enum(["generate", "skip"]).default("generate"),
+});
+
+// Random short codes that are neither in the database nor already reserved by this import
+async function generateFreeShortCodes(count: number, reserved: Set<string>): Promise<string[]> {
+  const codes: string[] = [];
+  while (codes.length < count) {
+    const candidates = Array.from({ length: count - codes.length }, () => generateShortCode());
+    const taken = await findTakenCodes(candidates);
+    for (const code of candidates) {
+      if (!taken.has(code) && !reserved.has(code)) {
+        reserved.add(code);
+        codes.push(code);
+      }
+    }
+  }
+  return codes;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const access = await authorizeScope(caller, "create");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    const form = await request.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!form || !(file instanceof Blob)) {
+      return withCorsHeaders(request, apiBadRequest("A CSV file is required"));
+    }
+
+    const options = ImportOptionsSchema.safeParse({
+      dryRun: form.get("dryRun") ?? undefined,
+      onConflict: form.get("onConflict") ?? undefined,
+    });
+    if (!options.success) {
+      return withCorsHeaders(request, apiBadRequest(options.error.issues[0].message));
+    }
+    const dryRun = options.data.dryRun === "true";
+
+    const { source, rows, errors } = parseImportFile(await file.text());
+    const total = rows.length + errors.length;
+
+    if (total === 0) {
+      return withCorsHeaders(request, apiBadRequest("The file does not contain any links"));
+    }
+
+    if (total > MAX_IMPORT_ROWS) {
+      return withCorsHeaders(
+        request,
+        apiBadRequest(`An import can contain at most ${MAX_IMPORT_ROWS} links`)
+      );
+    }
+
+    // Previews are cheap; committing is weighted by the number of inserted batches
+    const withinLimit = await limitRequest(
+      request,
+      caller,
+      dryRun ? 1 : Math.ceil(rows.length / INSERT_BATCH_SIZE)
+    );
+
+    if (!withinLimit) {
+      return withCorsHeaders(request, apiTooManyRequests("Too many requests. Please try again later."));
+    }
+
+    // Keep the original short code as the alias unless it is taken or repeated in the file
+    const taken = await findTakenCodes(
+      rows.flatMap((row) => (row.customAlias ? [row.customAlias] : []))
+    );
+    const reserved = new Set<string>();
+    const previewRows: ImportPreviewRow[] = rows.map((row) => {
+      if (!row.customAlias) {
+        return { ...row, status: "ready" };
+      }
+      const conflict = taken.has(row.customAlias) || reserved.has(row.customAlias);
+      reserved.add(row.customAlias);
+      return { ...row, status: conflict ? "conflict" : "ready" };
+    });
+
+    if (dryRun) {
+      const preview: ImportPreview = { source, rows: previewRows, errors };
+      return withCorsHeaders(request, apiSuccess(preview));
+    }
+
+    const toImport = previewRows.filter(
+      (row) => row.status === "ready" || options.data.onConflict === "generate"
+    );
+    const needsCode = toImport.filter((row) => !row.customAlias || row.status === "conflict");
+    const freeCodes = await generateFreeShortCodes(needsCode.length, reserved);
+
+    const links = toImport.map((row): { row: number; link: NewLinkInput } => {
+      const alias = row.status === "ready" ? row.customAlias : undefined;
+      return {
+        row: row.row,
+        link: {
+          originalUrl: row.originalUrl,
+          shortCode: alias ?? freeCodes.pop()!,
+          customAlias: alias,
+          description: row.description,
+          clicks: row.clicks,
+          createdAt: row.createdAt ? new Date(row.createdAt) : undefined,
+        },
+      };
+    });
+
+    const importErrors: ImportRowError[] = [...errors];
+    const createdLinks: TaggedLink[] = [];
+
+    // Insert in batches. If a batch fails (e.g. an alias taken since the preview),
+    // insert its rows one by one so only the offending rows report an error
+    for (let start = 0; start < links.length; start += INSERT_BATCH_SIZE) {
+      const batch = links.slice(start, start + INSERT_BATCH_SIZE);
+      try {
+        createdLinks.push(...(await createLinks(access.scope, batch.map(({ link }) => link))));
+      } catch (error) {
+        console.error("Import batch error, retrying rows individually:", error);
+        for (const { row, link } of batch) {
+          try {
+            createdLinks.push(...(await createLinks(access.scope, [link])));
+          } catch (rowError) {
+            console.error(`Import error for row ${row}:`, rowError);
+            importErrors.push({ row, error: "Failed to import link, please retry" });
+          }
+        }
+      }
+    }
+    after(() => Promise.all(createdLinks.map((link) => emitLinkEvent("link.created", link))));
+
+    const result: ImportResult = {
+      created: createdLinks.length,
+      skipped: previewRows.length - toImport.length,
+      errors: importErrors.sort((a, b) => a.row - b.row),
+    };
+    return withCorsHeaders(request, apiSuccess(result));
+  } catch (error) {
+    console.error("Import API error:", error);
+    const response = apiInternalError("An error occurred while processing your request");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
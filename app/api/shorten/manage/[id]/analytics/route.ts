@@ -0,0 +1,90 @@
+import { NextRequest } from "next/server";
+import { authenticateRequest } from "@/data/request-auth";
+import { authorizeLink } from "@/data/permissions";
+import { getLinkAnalytics } from "@/data/analytics-db";
+import { ANALYTICS_INTERVALS, MAX_BUCKETS, countBuckets } from "@/lib/analytics";
+import { z } from "zod";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiError,
+  apiNotFound,
+  apiForbidden,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { PERMISSION_ERROR_CODES } from "@/lib/permissions";
+
+const DEFAULT_RANGE_DAYS = 30;
+
+const AnalyticsQuerySchema = z.object({
+  interval: z.enum(ANALYTICS_INTERVALS).default("day"),
+  from: z.string().datetime("Invalid 'from' date").optional(),
+  to: z.string().datetime("Invalid 'to' date").optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const { id } = await params;
+
+    const validation = AnalyticsQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+    const { interval, limit } = validation.data;
+
+    const to = validation.data.to ? new Date(validation.data.to) : new Date();
+    const from = validation.data.from
+      ? new Date(validation.data.from)
+      : new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+    if (from > to) {
+      return withCorsHeaders(request, apiBadRequest("'from' must be before 'to'"));
+    }
+
+    if (countBuckets(from, to, interval) > MAX_BUCKETS) {
+      return withCorsHeaders(
+        request,
+        apiBadRequest(`Range too large for ${interval} buckets (max ${MAX_BUCKETS})`)
+      );
+    }
+
+    // Same ownership check as the manage route
+    const access = await authorizeLink(id, caller, "view_analytics");
+
+    if (!access || (!access.allowed && access.code === PERMISSION_ERROR_CODES.linkAccess)) {
+      return withCorsHeaders(request, apiNotFound("Shortened URL not found or access denied"));
+    }
+
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    const url = access.link;
+
+    const analytics = await getLinkAnalytics(url, { from, to, interval, limit });
+
+    const response = apiSuccess(analytics);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Link analytics API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
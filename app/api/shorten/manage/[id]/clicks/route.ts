@@ -0,0 +1,66 @@
+import { NextRequest } from "next/server";
+import { authenticateRequest } from "@/data/request-auth";
+import { authorizeLink } from "@/data/permissions";
+import { getRecentClicks } from "@/data/analytics-db";
+import { z } from "zod";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiError,
+  apiNotFound,
+  apiForbidden,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { PERMISSION_ERROR_CODES } from "@/lib/permissions";
+
+const RecentClicksQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const { id } = await params;
+
+    const validation = RecentClicksQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+
+    const access = await authorizeLink(id, caller, "view_analytics");
+
+    if (!access || (!access.allowed && access.code === PERMISSION_ERROR_CODES.linkAccess)) {
+      return withCorsHeaders(request, apiNotFound("Shortened URL not found or access denied"));
+    }
+
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    const url = access.link;
+
+    const clicks = await getRecentClicks(url.id, validation.data.limit);
+
+    const response = apiSuccess(clicks);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Recent clicks API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/data/request-auth";
+import { authorizeLink } from "@/data/permissions";
+import { QR_CONTENT_TYPES, QrOptions, QrOptionsSchema } from "@/lib/qr";
+import {
+  apiBadRequest,
+  apiError,
+  apiNotFound,
+  apiForbidden,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { PERMISSION_ERROR_CODES } from "@/lib/permissions";
+import QRCode from "qrcode";
+
+// Rendered locally so the link never leaves the server
+async function renderQrCode(
+  text: string,
+  { format, size, margin, fg, bg, ecc }: QrOptions
+): Promise<string | Buffer> {
+  const options = {
+    errorCorrectionLevel: ecc,
+    margin,
+    width: size,
+    color: { dark: fg, light: bg },
+  };
+
+  return format === "png"
+    ? QRCode.toBuffer(text, { ...options, type: "png" })
+    : QRCode.toString(text, { ...options, type: "svg" });
+}
+
+/**
+ * QR code for a link's short URL
+ * Query: format=svg|png, size (px), margin (modules), fg/bg (hex colors),
+ * ecc=L|M|Q|H (error correction) and download=1 to send it as an attachment.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const { id } = await params;
+    const { download, ...query } = Object.fromEntries(request.nextUrl.searchParams);
+
+    const validation = QrOptionsSchema.safeParse(query);
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+    const options = validation.data;
+
+    // Same access check as the manage route; viewers may download QR codes
+    const access = await authorizeLink(id, caller, "view");
+
+    if (!access || (!access.allowed && access.code === PERMISSION_ERROR_CODES.linkAccess)) {
+      return withCorsHeaders(request, apiNotFound("Shortened URL not found or access denied"));
+    }
+
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    const url = access.link;
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const image = await renderQrCode(`${baseUrl}/l/${url.shortCode}`, options);
+
+    const headers: Record<string, string> = {
+      "Content-Type": QR_CONTENT_TYPES[options.format],
+      // The image only depends on the short code, which never changes, and the query options
+      "Cache-Control": "private, max-age=86400",
+    };
+    if (download === "1" || download === "true") {
+      headers["Content-Disposition"] = `attachment; filename="qr-${url.shortCode}.${options.format}"`;
+    }
+
+    const response = new NextResponse(
+      typeof image === "string" ? image : new Uint8Array(image),
+      { headers }
+    );
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("QR code API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
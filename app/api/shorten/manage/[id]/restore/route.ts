@@ -0,0 +1,64 @@
+import { NextRequest, after } from "next/server";
+import { authenticateRequest } from "@/data/request-auth";
+import { restoreLinkById } from "@/data/links-db";
+import { authorizeLink } from "@/data/permissions";
+import { withTags } from "@/data/tags-db";
+import { emitLinkEvent } from "@/data/webhook-delivery";
+import {
+  apiSuccess,
+  apiError,
+  apiNotFound,
+  apiForbidden,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const { id } = await params;
+
+    // Restoring undoes a delete, so it needs the same permission
+    const access = await authorizeLink(id, caller, "delete");
+
+    if (!access) {
+      return withCorsHeaders(request, apiNotFound("Shortened URL not found"));
+    }
+
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    // Restoring an active link is a no-op
+    const restored = access.link.isActive
+      ? access.link
+      : await restoreLinkById(id, access.scope);
+
+    if (!restored) {
+      return withCorsHeaders(request, apiNotFound("Shortened URL not found"));
+    }
+
+    const [tagged] = await withTags([restored]);
+    if (!access.link.isActive) {
+      after(() => emitLinkEvent("link.updated", tagged));
+    }
+    const response = apiSuccess(tagged);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Restore API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
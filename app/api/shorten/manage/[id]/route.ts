@@ -1,45 +1,55 @@
-import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
-import { getLinkById, getLinkByIdAndUserId, deactivateLinkById } from "@/data/links-db";
+import { NextRequest, NextResponse, after } from "next/server";
+import { authenticateRequest } from "@/data/request-auth";
+import {
+  deactivateLinkById,
+  updateLink,
+  isAliasTaken,
+} from "@/data/links-db";
+import { authorizeLink } from "@/data/permissions";
+import { getFolderInScope } from "@/data/folders-db";
+import { withTags } from "@/data/tags-db";
+import { emitLinkEvent } from "@/data/webhook-delivery";
 import {
   apiSuccess,
-  apiUnauthorized,
+  apiBadRequest,
+  apiError,
   apiNotFound,
   apiForbidden,
+  apiConflict,
   apiInternalError,
 } from "@/lib/api-response";
 import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { UpdateLinkSchema, toLinkUpdate } from "@/lib/link-schemas";
+import { PERMISSION_ERROR_CODES, getPermissionDenial } from "@/lib/permissions";
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { userId } = await auth();
+    const caller = await authenticateRequest(request);
 
-    if (!userId) {
-      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
     }
 
     const { id } = await params;
 
-    // Get the URL to verify ownership
-    const url = await getLinkById(id);
+    // Check the user's role on the URL allows deleting it
+    const access = await authorizeLink(id, caller, "delete");
 
-    if (!url) {
+    if (!access) {
       return withCorsHeaders(request, apiNotFound("Shortened URL not found"));
     }
 
-    // Verify the URL belongs to the current user
-    if (url.userId !== userId) {
-      return withCorsHeaders(
-        request,
-        apiForbidden("This URL does not belong to you")
-      );
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
     }
 
     // Soft delete by marking as inactive using helper
-    await deactivateLinkById(id, userId);
+    if (await deactivateLinkById(id, access.scope)) {
+      after(() => emitLinkEvent("link.deleted", access.link));
+    }
 
     const response = apiSuccess({ message: "URL deleted successfully" });
     return withCorsHeaders(request, response);
@@ -55,22 +65,27 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { userId } = await auth();
+    const caller = await authenticateRequest(request);
 
-    if (!userId) {
-      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
     }
 
     const { id } = await params;
 
-    // Get the specific URL using helper with ownership check
-    const url = await getLinkByIdAndUserId(id, userId);
+    // Get the specific URL; any workspace member may read it
+    const access = await authorizeLink(id, caller, "view");
 
-    if (!url) {
+    if (!access || (!access.allowed && access.code === PERMISSION_ERROR_CODES.linkAccess)) {
       return withCorsHeaders(request, apiNotFound("Shortened URL not found or access denied"));
     }
 
-    const response = apiSuccess(url);
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    const [tagged] = await withTags([access.link]);
+    const response = apiSuccess(tagged);
     return withCorsHeaders(request, response);
   } catch (error) {
     console.error("Get URL details API error:", error);
@@ -79,6 +94,76 @@ export async function GET(
   }
 }
 
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+
+    const validation = UpdateLinkSchema.safeParse(body);
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+
+    // Check the user's role on the URL allows editing it
+    const access = await authorizeLink(id, caller, "edit");
+
+    if (!access) {
+      return withCorsHeaders(request, apiNotFound("Shortened URL not found"));
+    }
+
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    // Switching a link off or on trashes or restores it, so it also needs delete
+    if (validation.data.isActive !== undefined) {
+      const denial = getPermissionDenial(access.role, "delete", {
+        isCreator: access.link.userId === caller.userId,
+      });
+      if (denial) {
+        return withCorsHeaders(request, apiForbidden(denial.message, denial.code));
+      }
+    }
+
+    const updates = toLinkUpdate(validation.data);
+
+    // A new alias must not collide with any other link's alias or short code
+    if (updates.customAlias && (await isAliasTaken(updates.customAlias, id))) {
+      return withCorsHeaders(request, apiConflict("Custom alias already in use"));
+    }
+
+    if (updates.folderId && !(await getFolderInScope(updates.folderId, access.scope))) {
+      return withCorsHeaders(request, apiBadRequest("Folder not found"));
+    }
+
+    const updated = await updateLink(id, access.scope, updates);
+
+    if (!updated) {
+      return withCorsHeaders(request, apiNotFound("Shortened URL not found"));
+    }
+    // Switching a link off moves it to the trash, so it is reported like a delete
+    const event = access.link.isActive && !updated.isActive ? "link.deleted" : "link.updated";
+    after(() => emitLinkEvent(event, updated));
+
+    const response = apiSuccess(updated);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Update API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
 export async function OPTIONS(request: NextRequest) {
   return handleCorsPreFlight(request);
 }
\ No newline at end of file
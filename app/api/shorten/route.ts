@@ -1,39 +1,41 @@
-import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
-import { getUserLinks, createLink, checkCustomAliasExists, checkShortCodeExists } from "@/data/links-db";
-import { z } from 'zod';
-import { rateLimiter } from "@/lib/rate-limit";
+import { NextRequest, after } from "next/server";
+import { authenticateRequest, limitRequest } from "@/data/request-auth";
+import { getUserLinksPage, createLink, checkShortCodeExists } from "@/data/links-db";
+import { getFolderInScope } from "@/data/folders-db";
+import { authorizeScope } from "@/data/permissions";
+import { emitLinkEvent } from "@/data/webhook-delivery";
 import { 
   apiSuccess, 
   apiBadRequest, 
-  apiUnauthorized, 
+  apiError,
+  apiForbidden,
   apiConflict, 
   apiTooManyRequests,
   apiInternalError 
 } from "@/lib/api-response";
 import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
-
-const CreateLinkSchema = z.object({
-  originalUrl: z.string().url("Invalid URL format"),
-  customAlias: z.string()
-    .regex(/^[a-zA-Z0-9_-]+$/, "Custom alias can only contain letters, numbers, hyphens, and underscores")
-    .min(3, "Custom alias must be at least 3 characters")
-    .max(30, "Custom alias must be at most 30 characters")
-    .optional(),
-  description: z.string().max(500, "Description must be at most 500 characters").optional(),
-  expiresAt: z.string().datetime().optional(),
+import { tagNameField } from "@/lib/link-organization";
+import { CreateLinkSchema } from "@/lib/link-schemas";
+import { decodeCursor } from "@/lib/pagination";
+import { generateShortCode } from "@/lib/short-code";
+import { z } from "zod";
+
+const ListLinksQuerySchema = z.object({
+  status: z.enum(["active", "inactive"]).default("active"),
+  q: z.string().trim().max(200, "Search query must be at most 200 characters").optional(),
+  sort: z.enum(["createdAt", "clicks", "alias"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().optional(),
+  utmSource: z.string().max(255).optional(),
+  utmMedium: z.string().max(255).optional(),
+  utmCampaign: z.string().max(255).optional(),
+  utmTerm: z.string().max(255).optional(),
+  utmContent: z.string().max(255).optional(),
+  tag: tagNameField.optional(),
+  folderId: z.string().max(64).optional(), // "none" lists links outside any folder
 });
 
-// Generate a random short code
-function generateShortCode(length: number = 8): string {
-  const chars = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
-  let result = "";
-  for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
-}
-
 // Validate URL format and protocol
 // Note: In production, consider enforcing HTTPS-only URLs for enhanced security
 // by modifying this function to return false for http:// URLs
@@ -48,20 +50,20 @@ function isValidUrl(url: string): boolean {
 
 export async function POST(request: NextRequest) {
   try {
-    // Rate limiting check
-    const ip = request.headers.get("x-forwarded-for") ?? 
-                request.headers.get("x-real-ip") ?? 
-                "127.0.0.1";
-    const { success } = await rateLimiter.limit(ip);
-    
-    if (!success) {
-      return withCorsHeaders(request, apiTooManyRequests("Too many requests. Please try again later."));
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
     }
 
-    const { userId } = await auth();
+    // Rate limiting check, per API key or per IP for sessions
+    if (!(await limitRequest(request, caller))) {
+      return withCorsHeaders(request, apiTooManyRequests("Too many requests. Please try again later."));
+    }
 
-    if (!userId) {
-      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    const access = await authorizeScope(caller, "create");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
     }
 
     const body = await request.json();
@@ -73,14 +75,18 @@ export async function POST(request: NextRequest) {
         apiBadRequest(validation.error.issues[0].message)
       );
     }
-    const { originalUrl, customAlias, description, expiresAt } = validation.data;
+    const { originalUrl, customAlias, description, expiresAt, maxClicks, password, ...linkOptions } = validation.data;
+
+    if (linkOptions.folderId && !(await getFolderInScope(linkOptions.folderId, access.scope))) {
+      return withCorsHeaders(request, apiBadRequest("Folder not found"));
+    }
 
     // Normalize custom alias to lowercase for consistency
     const normalizedAlias = customAlias?.toLowerCase();
 
-    // Check if custom alias already exists
+    // Aliases resolve like short codes, so the alias must not match another link's alias or code
     if (normalizedAlias) {
-      const aliasExists = await checkCustomAliasExists(normalizedAlias);
+      const aliasExists = await checkShortCodeExists(normalizedAlias);
 
       if (aliasExists) {
         return withCorsHeaders(
@@ -105,13 +111,15 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const newUrl = await createLink(
-      userId,
-      originalUrl,
-      shortCode,
-      normalizedAlias,
-      description
-    );
+    const newUrl = await createLink(access.scope, originalUrl, shortCode, {
+      customAlias: normalizedAlias,
+      description,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      maxClicks,
+      password,
+      ...linkOptions,
+    });
+    after(() => emitLinkEvent("link.created", newUrl));
 
     const response = apiSuccess(
       {
@@ -132,23 +140,57 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const { userId } = await auth();
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
 
-    if (!userId) {
-      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    const validation = ListLinksQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
     }
 
-    // Get all URLs for the current user using helper
-    const urls = await getUserLinks(userId);
+    const access = await authorizeScope(caller, "view");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
 
-    const response = apiSuccess({ data: urls });
+    const { status, q, sort, order, limit, cursor: rawCursor, tag, folderId, ...utm } = validation.data;
+
+    const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+    // A cursor only makes sense for the sort it was issued for
+    const cursorMatchesSort =
+      !cursor ||
+      (sort === "clicks"
+        ? typeof cursor.value === "number"
+        : typeof cursor.value === "string" &&
+          (sort !== "createdAt" || !Number.isNaN(Date.parse(cursor.value))));
+    if ((rawCursor && !cursor) || !cursorMatchesSort) {
+      return withCorsHeaders(request, apiBadRequest("Invalid cursor"));
+    }
+
+    // Get one page of the workspace's (or the user's personal) active or trashed URLs
+    const { links, nextCursor } = await getUserLinksPage(access.scope, {
+      status,
+      search: q || undefined,
+      sort,
+      order,
+      limit,
+      cursor,
+      utm,
+      tag,
+      folderId,
+    });
+
+    const response = apiSuccess({ data: links, nextCursor });
     return withCorsHeaders(request, response);
   } catch (error) {
     // Log detailed error server-side only
     console.error("API error:", error);
-    return NextResponse.json(
-      { error: "An error occurred while processing your request" },
-      { status: 500 }
-    );
+    const response = apiInternalError("An error occurred while processing your request");
+    return withCorsHeaders(request, response);
   }
 }
@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { authenticateRequest } from "@/data/request-auth";
+import { getUserTags } from "@/data/tags-db";
+import { authorizeScope } from "@/data/permissions";
+import {
+  apiSuccess,
+  apiError,
+  apiForbidden,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+
+// Tags in use on the links of the current workspace (or personal links), with link counts
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const access = await authorizeScope(caller, "view");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    const tags = await getUserTags(access.scope);
+
+    const response = apiSuccess(tags);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Tags API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
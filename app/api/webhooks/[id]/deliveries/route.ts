@@ -0,0 +1,57 @@
+import { NextRequest } from "next/server";
+import { authenticateRequest } from "@/data/request-auth";
+import { authorizeScope } from "@/data/permissions";
+import { getWebhookDeliveries, getWebhookInScope } from "@/data/webhooks-db";
+import {
+  apiSuccess,
+  apiError,
+  apiNotFound,
+  apiForbidden,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+
+/**
+ * Webhook delivery log
+ * Returns the most recent deliveries, newest first, with the payload and the
+ * outcome of the last attempt.
+ */
+
+const DELIVERY_LOG_LIMIT = 50;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const { id } = await params;
+
+    const access = await authorizeScope(caller, "edit");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    if (!(await getWebhookInScope(id, access.scope))) {
+      return withCorsHeaders(request, apiNotFound("Webhook not found"));
+    }
+
+    const deliveries = await getWebhookDeliveries(id, DELIVERY_LOG_LIMIT);
+
+    const response = apiSuccess(deliveries);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Webhook deliveries API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
@@ -0,0 +1,92 @@
+import { NextRequest } from "next/server";
+import { authenticateRequest } from "@/data/request-auth";
+import { authorizeScope } from "@/data/permissions";
+import { deleteWebhook, updateWebhook } from "@/data/webhooks-db";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiError,
+  apiNotFound,
+  apiForbidden,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { UpdateWebhookSchema } from "@/lib/webhooks";
+
+// Change a webhook's URL or events, or pause and resume it with isActive
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const { id } = await params;
+
+    const access = await authorizeScope(caller, "edit");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const validation = UpdateWebhookSchema.safeParse(body);
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+
+    // The scope filter in the update keeps webhooks of other users and workspaces out of reach
+    const webhook = await updateWebhook(id, access.scope, validation.data);
+
+    if (!webhook) {
+      return withCorsHeaders(request, apiNotFound("Webhook not found"));
+    }
+
+    const response = apiSuccess(webhook);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Update webhook API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+// Deleting a webhook also removes its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const { id } = await params;
+
+    const access = await authorizeScope(caller, "edit");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    if (!(await deleteWebhook(id, access.scope))) {
+      return withCorsHeaders(request, apiNotFound("Webhook not found"));
+    }
+
+    const response = apiSuccess({ message: "Webhook deleted successfully" });
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Delete webhook API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
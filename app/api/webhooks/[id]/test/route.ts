@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server";
+import { authenticateRequest } from "@/data/request-auth";
+import { authorizeScope } from "@/data/permissions";
+import { sendWebhookTestEvent } from "@/data/webhook-delivery";
+import { getWebhookInScope } from "@/data/webhooks-db";
+import {
+  apiSuccess,
+  apiError,
+  apiNotFound,
+  apiForbidden,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+
+/**
+ * Send a webhook.test event
+ * The first attempt is made before responding, so the returned delivery shows
+ * whether the endpoint accepted it. Failed test events are retried like any other.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const { id } = await params;
+
+    const access = await authorizeScope(caller, "edit");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    const webhook = await getWebhookInScope(id, access.scope);
+    if (!webhook) {
+      return withCorsHeaders(request, apiNotFound("Webhook not found"));
+    }
+
+    const delivery = await sendWebhookTestEvent(webhook);
+
+    const response = apiSuccess(delivery);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Webhook test API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
@@ -0,0 +1,86 @@
+import { NextRequest } from "next/server";
+import { authenticateRequest } from "@/data/request-auth";
+import { authorizeScope } from "@/data/permissions";
+import { countWebhooks, createWebhook, getWebhooks } from "@/data/webhooks-db";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiError,
+  apiForbidden,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { CreateWebhookSchema, MAX_WEBHOOKS_PER_SCOPE } from "@/lib/webhooks";
+
+/**
+ * Outgoing webhooks
+ * GET lists the webhooks of the current workspace (or the user's personal
+ * webhooks); POST creates one and returns its signing secret once.
+ * Managing webhooks needs the edit permission, since they receive link data.
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const access = await authorizeScope(caller, "edit");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    const webhooks = await getWebhooks(access.scope);
+
+    const response = apiSuccess(webhooks);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Webhooks API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await authenticateRequest(request);
+
+    if (!caller.ok) {
+      return withCorsHeaders(request, apiError(caller.error, caller.status, caller.code));
+    }
+
+    const access = await authorizeScope(caller, "edit");
+    if (!access.allowed) {
+      return withCorsHeaders(request, apiForbidden(access.message, access.code));
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const validation = CreateWebhookSchema.safeParse(body);
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+
+    if ((await countWebhooks(access.scope)) >= MAX_WEBHOOKS_PER_SCOPE) {
+      return withCorsHeaders(
+        request,
+        apiBadRequest(`You can have at most ${MAX_WEBHOOKS_PER_SCOPE} webhooks`)
+      );
+    }
+
+    const created = await createWebhook(access.scope, validation.data);
+
+    const response = apiSuccess(created, 201);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Create webhook API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
@@ -0,0 +1,117 @@
+import { NextRequest } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import {
+  countWorkspaceOwners,
+  getWorkspaceRole,
+  removeWorkspaceMember,
+  updateWorkspaceMemberRole,
+} from "@/data/workspaces-db";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiUnauthorized,
+  apiNotFound,
+  apiForbidden,
+  apiConflict,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { UpdateWorkspaceMemberSchema, canManageMembers } from "@/lib/workspaces";
+
+type Params = { params: Promise<{ id: string; userId: string }> };
+
+// Owners change roles; the last owner cannot be demoted
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    }
+
+    const { id, userId: memberId } = await params;
+
+    const role = await getWorkspaceRole(id, userId);
+    if (!role) {
+      return withCorsHeaders(request, apiNotFound("Workspace not found"));
+    }
+    if (!canManageMembers(role)) {
+      return withCorsHeaders(request, apiForbidden("Only owners can change roles"));
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const validation = UpdateWorkspaceMemberSchema.safeParse(body);
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+
+    const currentRole = await getWorkspaceRole(id, memberId);
+    if (!currentRole) {
+      return withCorsHeaders(request, apiNotFound("Member not found"));
+    }
+
+    if (
+      currentRole === "owner" &&
+      validation.data.role !== "owner" &&
+      (await countWorkspaceOwners(id)) <= 1
+    ) {
+      return withCorsHeaders(request, apiConflict("A workspace needs at least one owner"));
+    }
+
+    const member = await updateWorkspaceMemberRole(id, memberId, validation.data.role);
+    if (!member) {
+      return withCorsHeaders(request, apiNotFound("Member not found"));
+    }
+
+    const response = apiSuccess(member);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Update workspace member API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+// Owners remove members; any member can remove themselves to leave
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    }
+
+    const { id, userId: memberId } = await params;
+
+    const role = await getWorkspaceRole(id, userId);
+    if (!role) {
+      return withCorsHeaders(request, apiNotFound("Workspace not found"));
+    }
+    if (memberId !== userId && !canManageMembers(role)) {
+      return withCorsHeaders(request, apiForbidden("Only owners can remove members"));
+    }
+
+    const memberRole = memberId === userId ? role : await getWorkspaceRole(id, memberId);
+    if (!memberRole) {
+      return withCorsHeaders(request, apiNotFound("Member not found"));
+    }
+
+    if (memberRole === "owner" && (await countWorkspaceOwners(id)) <= 1) {
+      return withCorsHeaders(request, apiConflict("A workspace needs at least one owner"));
+    }
+
+    await removeWorkspaceMember(id, memberId);
+
+    const response = apiSuccess({ message: "Member removed successfully" });
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Remove workspace member API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
@@ -0,0 +1,107 @@
+import { NextRequest } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { findUserIdByEmail, getUserProfiles } from "@/data/clerk-users";
+import {
+  addWorkspaceMember,
+  getWorkspaceMembers,
+  getWorkspaceRole,
+} from "@/data/workspaces-db";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiUnauthorized,
+  apiNotFound,
+  apiForbidden,
+  apiConflict,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { AddWorkspaceMemberSchema, canManageMembers } from "@/lib/workspaces";
+
+// Any member can see who else is in the workspace
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    }
+
+    const { id } = await params;
+
+    if (!(await getWorkspaceRole(id, userId))) {
+      return withCorsHeaders(request, apiNotFound("Workspace not found"));
+    }
+
+    const members = await getWorkspaceMembers(id);
+    const profiles = await getUserProfiles(members.map((member) => member.userId));
+
+    const response = apiSuccess(
+      members.map((member) => ({
+        ...member,
+        email: profiles.get(member.userId)?.email ?? null,
+        name: profiles.get(member.userId)?.name ?? null,
+      }))
+    );
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Workspace members API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+// Owners add existing accounts by email
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    }
+
+    const { id } = await params;
+
+    const role = await getWorkspaceRole(id, userId);
+    if (!role) {
+      return withCorsHeaders(request, apiNotFound("Workspace not found"));
+    }
+    if (!canManageMembers(role)) {
+      return withCorsHeaders(request, apiForbidden("Only owners can add members"));
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const validation = AddWorkspaceMemberSchema.safeParse(body);
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+
+    const memberId = await findUserIdByEmail(validation.data.email);
+    if (!memberId) {
+      return withCorsHeaders(request, apiNotFound("No account found with this email"));
+    }
+
+    const member = await addWorkspaceMember(id, memberId, validation.data.role);
+    if (!member) {
+      return withCorsHeaders(request, apiConflict("This user is already a member"));
+    }
+
+    const response = apiSuccess({ ...member, email: validation.data.email, name: null }, 201);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Add workspace member API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
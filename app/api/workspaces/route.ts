@@ -0,0 +1,66 @@
+import { NextRequest } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createWorkspace, getUserWorkspaces } from "@/data/workspaces-db";
+import {
+  apiSuccess,
+  apiBadRequest,
+  apiUnauthorized,
+  apiInternalError,
+} from "@/lib/api-response";
+import { withCorsHeaders, handleCorsPreFlight } from "@/lib/cors";
+import { CreateWorkspaceSchema } from "@/lib/workspaces";
+
+/**
+ * Team workspaces
+ * GET lists the workspaces the user belongs to, with their role in each;
+ * POST creates a workspace with the user as owner.
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    }
+
+    const workspaces = await getUserWorkspaces(userId);
+
+    const response = apiSuccess(workspaces);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Workspaces API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return withCorsHeaders(request, apiUnauthorized("Authentication required"));
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const validation = CreateWorkspaceSchema.safeParse(body);
+    if (!validation.success) {
+      return withCorsHeaders(request, apiBadRequest(validation.error.issues[0].message));
+    }
+
+    const workspace = await createWorkspace(userId, validation.data.name);
+
+    const response = apiSuccess(workspace, 201);
+    return withCorsHeaders(request, response);
+  } catch (error) {
+    console.error("Create workspace API error:", error);
+    const response = apiInternalError("Internal server error");
+    return withCorsHeaders(request, response);
+  }
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreFlight(request);
+}
@@ -1,16 +1,31 @@
 "use server";
 
+import { after } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import { deactivateLinkById } from "@/data/links-db";
+import {
+  deactivateLinkById,
+  isAliasTaken,
+  restoreLinkById,
+  updateLink,
+  TaggedLink,
+} from "@/data/links-db";
+import { getFolderInScope } from "@/data/folders-db";
+import { authorizeLink } from "@/data/permissions";
+import { sessionAuth } from "@/data/request-auth";
+import { withTags } from "@/data/tags-db";
+import { emitLinkEvent } from "@/data/webhook-delivery";
+import { UpdateLinkInput, UpdateLinkSchema, toLinkUpdate } from "@/lib/link-schemas";
+import { getPermissionDenial } from "@/lib/permissions";
 import { z } from "zod";
 
-const DeleteLinkSchema = z.object({
+const LinkIdSchema = z.object({
   id: z.string().min(1, "Link ID is required"),
 });
 
 export type DeleteLinkResult = {
   success: boolean;
   error?: string;
+  code?: string;
   message?: string;
 };
 
@@ -28,10 +43,27 @@ export async function deleteLinkAction(
     }
 
     // Validate input
-    const validatedData = DeleteLinkSchema.parse({ id });
+    const validatedData = LinkIdSchema.parse({ id });
+
+    const access = await authorizeLink(validatedData.id, sessionAuth(userId), "delete");
+    if (!access) {
+      return {
+        success: false,
+        error: "Link not found",
+      };
+    }
+    if (!access.allowed) {
+      return {
+        success: false,
+        error: access.message,
+        code: access.code,
+      };
+    }
 
     // Deactivate the link
-    await deactivateLinkById(validatedData.id, userId);
+    if (await deactivateLinkById(validatedData.id, access.scope)) {
+      after(() => emitLinkEvent("link.deleted", access.link));
+    }
 
     return {
       success: true,
@@ -52,3 +84,185 @@ export async function deleteLinkAction(
     };
   }
 }
+
+export type RestoreLinkResult = {
+  success: boolean;
+  error?: string;
+  code?: string;
+  data?: TaggedLink;
+};
+
+export async function restoreLinkAction(
+  id: string
+): Promise<RestoreLinkResult> {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: "Unauthorized - please log in",
+      };
+    }
+
+    // Validate input
+    const validatedData = LinkIdSchema.parse({ id });
+
+    const access = await authorizeLink(validatedData.id, sessionAuth(userId), "delete");
+    if (!access) {
+      return {
+        success: false,
+        error: "Link not found",
+      };
+    }
+    if (!access.allowed) {
+      return {
+        success: false,
+        error: access.message,
+        code: access.code,
+      };
+    }
+
+    // The scope filter in the update keeps it within the link's owner
+    const restored = await restoreLinkById(validatedData.id, access.scope);
+
+    if (!restored) {
+      return {
+        success: false,
+        error: "Link not found",
+      };
+    }
+
+    const [tagged] = await withTags([restored]);
+    if (!access.link.isActive) {
+      after(() => emitLinkEvent("link.updated", tagged));
+    }
+    return {
+      success: true,
+      data: tagged,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: "Invalid link ID",
+      };
+    }
+
+    console.error("Restore link action error:", error);
+    return {
+      success: false,
+      error: "Failed to restore link",
+    };
+  }
+}
+
+export type UpdateLinkResult = {
+  success: boolean;
+  error?: string;
+  code?: string;
+  data?: TaggedLink;
+};
+
+export async function updateLinkAction(
+  id: string,
+  input: UpdateLinkInput
+): Promise<UpdateLinkResult> {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return {
+        success: false,
+        error: "Unauthorized - please log in",
+      };
+    }
+
+    // Validate input
+    const { id: linkId } = LinkIdSchema.parse({ id });
+    const validation = UpdateLinkSchema.safeParse(input);
+    if (!validation.success) {
+      return {
+        success: false,
+        error: validation.error.issues[0].message,
+      };
+    }
+
+    const access = await authorizeLink(linkId, sessionAuth(userId), "edit");
+    if (!access) {
+      return {
+        success: false,
+        error: "Link not found",
+      };
+    }
+    if (!access.allowed) {
+      return {
+        success: false,
+        error: access.message,
+        code: access.code,
+      };
+    }
+
+    // Switching a link off or on trashes or restores it, so it also needs delete
+    if (validation.data.isActive !== undefined) {
+      const denial = getPermissionDenial(access.role, "delete", {
+        isCreator: access.link.userId === userId,
+      });
+      if (denial) {
+        return {
+          success: false,
+          error: denial.message,
+          code: denial.code,
+        };
+      }
+    }
+
+    const updates = toLinkUpdate(validation.data);
+
+    if (updates.customAlias && (await isAliasTaken(updates.customAlias, linkId))) {
+      return {
+        success: false,
+        error: "Custom alias already in use",
+      };
+    }
+
+    if (updates.folderId && !(await getFolderInScope(updates.folderId, access.scope))) {
+      return {
+        success: false,
+        error: "Folder not found",
+      };
+    }
+
+    // The scope filter in the update keeps it within the link's owner
+    const updated = await updateLink(linkId, access.scope, updates);
+
+    if (!updated) {
+      return {
+        success: false,
+        error: "Link not found",
+      };
+    }
+
+    // Switching a link off moves it to the trash, so it is reported like a delete
+    const event = access.link.isActive && !updated.isActive ? "link.deleted" : "link.updated";
+    after(() => emitLinkEvent(event, updated));
+
+    return {
+      success: true,
+      data: updated,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: "Invalid link ID",
+      };
+    }
+
+    console.error("Update link action error:", error);
+    return {
+      success: false,
+      error: "Failed to update link",
+    };
+  }
+}
@@ -0,0 +1,275 @@
+"use client";
+
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { createApiKey, fetchApiKeys, revokeApiKey } from "@/data/api-keys";
+import { fetchWorkspaces } from "@/data/workspaces";
+import { DEFAULT_API_KEY_RATE_LIMIT, MAX_API_KEY_RATE_LIMIT } from "@/lib/api-keys";
+import { API_KEY_SCOPES, API_KEY_SCOPE_LABELS, type ApiKeyScope } from "@/lib/permissions";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+
+export default function ApiKeysPage() {
+  const [name, setName] = useState("");
+  const [workspaceId, setWorkspaceId] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([...API_KEY_SCOPES]);
+  const [rateLimit, setRateLimit] = useState(String(DEFAULT_API_KEY_RATE_LIMIT));
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [revokeConfirmId, setRevokeConfirmId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const keysQuery = useQuery({ queryKey: ["api-keys"], queryFn: fetchApiKeys });
+  const workspacesQuery = useQuery({ queryKey: ["workspaces"], queryFn: fetchWorkspaces });
+
+  const createMutation = useMutation({
+    mutationFn: createApiKey,
+    onSuccess: (created) => {
+      setName("");
+      setCopied(false);
+      setCreatedKey(created.key);
+      queryClient.invalidateQueries({ queryKey: ["api-keys"] });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: revokeApiKey,
+    onSettled: () => {
+      setRevokeConfirmId(null);
+      queryClient.invalidateQueries({ queryKey: ["api-keys"] });
+    },
+  });
+
+  function handleCreate(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    createMutation.mutate({
+      name: name.trim(),
+      workspaceId: workspaceId || null,
+      scopes,
+      rateLimit: Number(rateLimit),
+    });
+  }
+
+  function toggleScope(scope: ApiKeyScope, enabled: boolean) {
+    setScopes((current) =>
+      enabled ? [...current, scope] : current.filter((existing) => existing !== scope)
+    );
+  }
+
+  async function handleCopy() {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    setCopied(true);
+  }
+
+  const keys = keysQuery.data ?? [];
+  const workspaces = workspacesQuery.data ?? [];
+  const workspaceNames = new Map(workspaces.map((workspace) => [workspace.id, workspace.name]));
+
+  return (
+    <main className="p-6 space-y-6">
+      <header className="space-y-2">
+        <Link href="/dashboard" className="text-sm text-primary hover:underline">
+          ← Back to dashboard
+        </Link>
+        <h1 className="text-2xl font-bold">API keys</h1>
+        <p className="text-sm text-muted-foreground">
+          Use a key from scripts and integrations with{" "}
+          <code className="rounded bg-muted px-1">Authorization: Bearer &lt;key&gt;</code>. A key
+          acts as you, limited to your personal links or one workspace, to the scopes you pick and to
+          its own rate limit.
+        </p>
+      </header>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">New API key</CardTitle>
+          <CardDescription>Name the key after where it is used so you can revoke it later.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <form className="flex flex-col gap-3 sm:flex-row sm:items-end" onSubmit={handleCreate}>
+            <div className="flex-1 space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="api-key-name">
+                Name
+              </label>
+              <Input
+                id="api-key-name"
+                required
+                maxLength={100}
+                placeholder="CI deploy script"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                disabled={createMutation.isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="api-key-scope">
+                Links
+              </label>
+              <select
+                id="api-key-scope"
+                className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs sm:w-48"
+                value={workspaceId}
+                onChange={(event) => setWorkspaceId(event.target.value)}
+                disabled={createMutation.isPending}
+              >
+                <option value="">Personal links</option>
+                {workspaces.map((workspace) => (
+                  <option key={workspace.id} value={workspace.id}>
+                    {workspace.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="api-key-rate-limit">
+                Requests per minute
+              </label>
+              <Input
+                id="api-key-rate-limit"
+                type="number"
+                required
+                min={1}
+                max={MAX_API_KEY_RATE_LIMIT}
+                className="sm:w-32"
+                value={rateLimit}
+                onChange={(event) => setRateLimit(event.target.value)}
+                disabled={createMutation.isPending}
+              />
+            </div>
+            <Button type="submit" disabled={createMutation.isPending || scopes.length === 0}>
+              {createMutation.isPending ? "Creating…" : "Create key"}
+            </Button>
+          </form>
+          <fieldset className="flex flex-wrap gap-4 text-sm" disabled={createMutation.isPending}>
+            <legend className="sr-only">Scopes</legend>
+            {API_KEY_SCOPES.map((scope) => (
+              <label key={scope} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={(event) => toggleScope(scope, event.target.checked)}
+                />
+                {API_KEY_SCOPE_LABELS[scope]}{" "}
+                <code className="text-xs text-muted-foreground">{scope}</code>
+              </label>
+            ))}
+          </fieldset>
+          {createMutation.error && (
+            <p className="text-sm text-red-600">{createMutation.error.message}</p>
+          )}
+          {createdKey && (
+            <div className="space-y-2 rounded-md border bg-muted/70 px-3 py-2 text-sm">
+              <p className="text-muted-foreground">
+                Copy this key now. It will not be shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 break-all">{createdKey}</code>
+                <Button variant="outline" size="sm" onClick={handleCopy}>
+                  {copied ? "Copied" : "Copy"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="py-4">
+          {keysQuery.isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading API keys…</p>
+          ) : keysQuery.isError ? (
+            <p className="text-sm text-red-600">
+              {keysQuery.error instanceof Error ? keysQuery.error.message : "Failed to load API keys"}
+            </p>
+          ) : keys.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No API keys yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Links</TableHead>
+                  <TableHead>Scopes</TableHead>
+                  <TableHead className="text-right">Limit</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Last used</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {keys.map((apiKey) => (
+                  <TableRow key={apiKey.id}>
+                    <TableCell className="font-medium">{apiKey.name}</TableCell>
+                    <TableCell>
+                      <code>{apiKey.prefix}…</code>
+                    </TableCell>
+                    <TableCell>
+                      {apiKey.workspaceId
+                        ? workspaceNames.get(apiKey.workspaceId) ?? "Workspace"
+                        : "Personal"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {apiKey.scopes.map((scope) => (
+                          <Badge key={scope} variant="outline">
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{apiKey.rateLimit}/min</TableCell>
+                    <TableCell>{new Date(apiKey.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : "Never"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {apiKey.revokedAt ? (
+                        <Badge variant="secondary">Revoked</Badge>
+                      ) : revokeConfirmId === apiKey.id ? (
+                        <Button
+                          size="sm"
+                          className="bg-red-600 hover:bg-red-700"
+                          onClick={() => revokeMutation.mutate(apiKey.id)}
+                          disabled={revokeMutation.isPending}
+                        >
+                          {revokeMutation.isPending ? "Revoking..." : "Confirm revoke"}
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setRevokeConfirmId(apiKey.id)}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  fetchCollection,
+  updateCollection,
+  type CollectionItem,
+  type CollectionWithLinks,
+} from "@/data/collections";
+import { fetchLinks } from "@/data/links";
+import { MAX_COLLECTION_LINKS } from "@/lib/collection-schemas";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+
+const LINK_SEARCH_LIMIT = 10;
+const SEARCH_DEBOUNCE_MS = 300;
+
+function CollectionEditor({ collection }: { collection: CollectionWithLinks }) {
+  const [title, setTitle] = useState(collection.title);
+  const [handle, setHandle] = useState(collection.handle);
+  const [description, setDescription] = useState(collection.description ?? "");
+  const [items, setItems] = useState<CollectionItem[]>(collection.links);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [saved, setSaved] = useState(false);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const linksQuery = useQuery({
+    queryKey: ["links", "active", debouncedSearch, "collection-picker"],
+    queryFn: () => fetchLinks({ q: debouncedSearch || undefined, limit: LINK_SEARCH_LIMIT }),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      updateCollection(collection.id, {
+        title: title.trim(),
+        handle: handle.trim(),
+        description: description.trim() || null,
+        links: items.map((item) => ({ linkId: item.linkId, title: item.title?.trim() || null })),
+      }),
+    onSuccess: (updated) => {
+      setSaved(true);
+      queryClient.setQueryData(["collection", collection.id], updated);
+      queryClient.invalidateQueries({ queryKey: ["collections"] });
+    },
+  });
+
+  const inCollection = new Set(items.map((item) => item.linkId));
+  const candidates = (linksQuery.data?.data ?? []).filter((link) => !inCollection.has(link.id));
+
+  const updateItems = (next: CollectionItem[]) => {
+    setSaved(false);
+    setItems(next);
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateItems(next);
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Page details</CardTitle>
+          <CardDescription>
+            Published at{" "}
+            <a
+              className="text-primary hover:underline"
+              href={`/p/${collection.handle}`}
+              target="_blank"
+              rel="noreferrer"
+            >
+              /p/{collection.handle}
+            </a>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-muted-foreground" htmlFor="collection-title">
+              Title
+            </label>
+            <Input
+              id="collection-title"
+              maxLength={100}
+              value={title}
+              onChange={(event) => {
+                setSaved(false);
+                setTitle(event.target.value);
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-muted-foreground" htmlFor="collection-handle">
+              Handle
+            </label>
+            <Input
+              id="collection-handle"
+              maxLength={32}
+              value={handle}
+              onChange={(event) => {
+                setSaved(false);
+                setHandle(event.target.value);
+              }}
+            />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <label className="text-xs font-medium text-muted-foreground" htmlFor="collection-description">
+              Description
+            </label>
+            <Input
+              id="collection-description"
+              maxLength={500}
+              placeholder="Optional"
+              value={description}
+              onChange={(event) => {
+                setSaved(false);
+                setDescription(event.target.value);
+              }}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Links</CardTitle>
+          <CardDescription>
+            Shown in this order. Titles default to the link description; trashed and expired
+            links are hidden from the page.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {items.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No links yet. Add some below.</p>
+          ) : (
+            <ol className="space-y-2">
+              {items.map((item, index) => (
+                <li
+                  key={item.linkId}
+                  className="flex flex-col gap-2 rounded-md border p-3 sm:flex-row sm:items-center"
+                >
+                  <div className="flex-1 space-y-1">
+                    <Input
+                      aria-label={`Title for /l/${item.shortCode}`}
+                      maxLength={100}
+                      placeholder={item.description ?? item.shortCode}
+                      value={item.title ?? ""}
+                      onChange={(event) =>
+                        updateItems(
+                          items.map((current, position) =>
+                            position === index ? { ...current, title: event.target.value } : current
+                          )
+                        )
+                      }
+                    />
+                    <p className="text-xs text-muted-foreground break-all">
+                      /l/{item.shortCode} → {item.originalUrl}
+                      {!item.isActive && (
+                        <Badge variant="secondary" className="ml-2">
+                          In trash
+                        </Badge>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      aria-label="Move up"
+                      onClick={() => moveItem(index, -1)}
+                      disabled={index === 0}
+                    >
+                      ↑
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      aria-label="Move down"
+                      onClick={() => moveItem(index, 1)}
+                      disabled={index === items.length - 1}
+                    >
+                      ↓
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateItems(items.filter((_, position) => position !== index))}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          <div className="space-y-2 border-t pt-3">
+            <label className="text-xs font-medium text-muted-foreground" htmlFor="collection-link-search">
+              Add a link
+            </label>
+            <Input
+              id="collection-link-search"
+              type="search"
+              placeholder="Search your links"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+            />
+            {candidates.length > 0 && (
+              <ul className="divide-y rounded-md border">
+                {candidates.map((link) => (
+                  <li key={link.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <span className="truncate">
+                      /l/{link.shortCode}
+                      <span className="text-muted-foreground"> · {link.description ?? link.originalUrl}</span>
+                    </span>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={items.length >= MAX_COLLECTION_LINKS}
+                      onClick={() =>
+                        updateItems([
+                          ...items,
+                          {
+                            linkId: link.id,
+                            title: null,
+                            position: items.length,
+                            shortCode: link.shortCode,
+                            originalUrl: link.originalUrl,
+                            description: link.description,
+                            isActive: link.isActive,
+                          },
+                        ])
+                      }
+                    >
+                      Add
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-end gap-3">
+        {saveMutation.error && (
+          <p className="text-sm text-red-600">{saveMutation.error.message}</p>
+        )}
+        {saved && <p className="text-sm text-muted-foreground">Saved</p>}
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving…" : "Save collection"}
+        </Button>
+      </div>
+    </>
+  );
+}
+
+export default function CollectionEditorPage() {
+  const { id } = useParams<{ id: string }>();
+
+  const collectionQuery = useQuery({
+    queryKey: ["collection", id],
+    queryFn: () => fetchCollection(id),
+  });
+
+  return (
+    <main className="p-6 space-y-6">
+      <header className="space-y-2">
+        <Link href="/dashboard/collections" className="text-sm text-primary hover:underline">
+          ← Back to collections
+        </Link>
+        <h1 className="text-2xl font-bold">{collectionQuery.data?.title ?? "Collection"}</h1>
+      </header>
+
+      {collectionQuery.isLoading ? (
+        <Card>
+          <CardContent className="py-6 text-sm text-muted-foreground">Loading collection…</CardContent>
+        </Card>
+      ) : collectionQuery.data ? (
+        // The form keeps its own draft; refetches don't overwrite unsaved edits
+        <CollectionEditor key={collectionQuery.data.id} collection={collectionQuery.data} />
+      ) : (
+        <Card>
+          <CardContent className="py-6 text-sm text-red-600">
+            {collectionQuery.error instanceof Error
+              ? collectionQuery.error.message
+              : "Collection not found"}
+          </CardContent>
+        </Card>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import Link from "next/link";
+import { Button, buttonVariants } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { createCollection, deleteCollection, fetchCollections } from "@/data/collections";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+export default function CollectionsPage() {
+  const [title, setTitle] = useState("");
+  const [handle, setHandle] = useState("");
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const router = useRouter();
+
+  const collectionsQuery = useQuery({
+    queryKey: ["collections"],
+    queryFn: fetchCollections,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createCollection,
+    onSuccess: (collection) => {
+      queryClient.invalidateQueries({ queryKey: ["collections"] });
+      router.push(`/dashboard/collections/${collection.id}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteCollection,
+    onSettled: () => {
+      setDeleteConfirmId(null);
+      queryClient.invalidateQueries({ queryKey: ["collections"] });
+    },
+  });
+
+  function handleCreate(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    createMutation.mutate({ title: title.trim(), handle: handle.trim() });
+  }
+
+  const collections = collectionsQuery.data ?? [];
+
+  return (
+    <main className="p-6 space-y-6">
+      <header className="space-y-2">
+        <Link href="/dashboard" className="text-sm text-primary hover:underline">
+          ← Back to dashboard
+        </Link>
+        <h1 className="text-2xl font-bold">Collections</h1>
+        <p className="text-sm text-muted-foreground">
+          Link-in-bio pages listing several of your short links, published at /p/&lt;handle&gt;.
+        </p>
+      </header>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">New collection</CardTitle>
+          <CardDescription>Pick a title and the handle used in the page address.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <form className="flex flex-col gap-3 sm:flex-row sm:items-end" onSubmit={handleCreate}>
+            <div className="flex-1 space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="collection-title">
+                Title
+              </label>
+              <Input
+                id="collection-title"
+                required
+                maxLength={100}
+                placeholder="Our links"
+                value={title}
+                onChange={(event) => setTitle(event.target.value)}
+                disabled={createMutation.isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="collection-handle">
+                Handle
+              </label>
+              <Input
+                id="collection-handle"
+                required
+                minLength={3}
+                maxLength={32}
+                pattern="[a-zA-Z0-9_\-]+"
+                placeholder="acme"
+                className="sm:w-48"
+                value={handle}
+                onChange={(event) => setHandle(event.target.value)}
+                disabled={createMutation.isPending}
+              />
+            </div>
+            <Button type="submit" disabled={createMutation.isPending}>
+              {createMutation.isPending ? "Creating…" : "Create"}
+            </Button>
+          </form>
+          {createMutation.error && (
+            <p className="text-sm text-red-600">{createMutation.error.message}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="py-4">
+          {collectionsQuery.isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading collections…</p>
+          ) : collectionsQuery.isError ? (
+            <p className="text-sm text-red-600">
+              {collectionsQuery.error instanceof Error
+                ? collectionsQuery.error.message
+                : "Failed to load collections"}
+            </p>
+          ) : collections.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No collections yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Page</TableHead>
+                  <TableHead className="text-right">Links</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {collections.map((collection) => (
+                  <TableRow key={collection.id}>
+                    <TableCell className="font-medium">{collection.title}</TableCell>
+                    <TableCell>
+                      <a
+                        className="text-primary hover:underline"
+                        href={`/p/${collection.handle}`}
+                        target="_blank"
+                        rel="noreferrer"
+                      >
+                        /p/{collection.handle}
+                      </a>
+                    </TableCell>
+                    <TableCell className="text-right">{collection.linkCount}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Link
+                          href={`/dashboard/collections/${collection.id}`}
+                          className={buttonVariants({ variant: "outline", size: "sm" })}
+                        >
+                          Edit
+                        </Link>
+                        {deleteConfirmId === collection.id ? (
+                          <Button
+                            size="sm"
+                            className="bg-red-600 hover:bg-red-700"
+                            onClick={() => deleteMutation.mutate(collection.id)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            {deleteMutation.isPending ? "Deleting..." : "Confirm delete"}
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setDeleteConfirmId(collection.id)}
+                          >
+                            Delete
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
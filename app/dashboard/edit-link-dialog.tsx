@@ -0,0 +1,350 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import type { ShortenedUrl } from "@/data/links";
+import { parseTagInput } from "@/lib/link-organization";
+import type { UpdateLinkInput } from "@/lib/link-schemas";
+import type { LinkVariantInput } from "@/lib/link-variants";
+import { UTM_FIELDS } from "@/lib/utm";
+import { updateLinkAction } from "./actions";
+import OrganizationFields, { OrganizationValues } from "./organization-fields";
+import UtmFields, { QueryForwardingFields, UtmValues } from "./tracking-fields";
+import {
+  DeviceRulesFields,
+  GeoRulesFields,
+  VariantsFields,
+  cleanDeviceRules,
+  cleanGeoRules,
+  cleanVariants,
+} from "./routing-fields";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+
+type EditLinkDialogProps = {
+  link: ShortenedUrl;
+  canChangeActive: boolean; // switching a link off moves it to the trash, so it needs delete
+  onClose: () => void;
+};
+
+// Format an ISO timestamp for a datetime-local input (local time, minute precision)
+function toDateTimeLocal(iso: string | null): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+export default function EditLinkDialog({
+  link,
+  canChangeActive,
+  onClose,
+}: EditLinkDialogProps) {
+  const queryClient = useQueryClient();
+  const [originalUrl, setOriginalUrl] = useState(link.originalUrl);
+  const [customAlias, setCustomAlias] = useState(link.customAlias ?? "");
+  const [description, setDescription] = useState(link.description ?? "");
+  const [expiresAt, setExpiresAt] = useState(toDateTimeLocal(link.expiresAt));
+  const [maxClicks, setMaxClicks] = useState(link.maxClicks?.toString() ?? "");
+  const [password, setPassword] = useState("");
+  const [removePassword, setRemovePassword] = useState(false);
+  const [isActive, setIsActive] = useState(link.isActive);
+  const [utm, setUtm] = useState<UtmValues>(() => ({
+    utmSource: link.utmSource ?? "",
+    utmMedium: link.utmMedium ?? "",
+    utmCampaign: link.utmCampaign ?? "",
+    utmTerm: link.utmTerm ?? "",
+    utmContent: link.utmContent ?? "",
+  }));
+  const [queryForwarding, setQueryForwarding] = useState({
+    forwardQuery: link.forwardQuery,
+    queryPrecedence: link.queryPrecedence,
+  });
+  const [geoRules, setGeoRules] = useState(link.geoRules);
+  const [deviceRules, setDeviceRules] = useState(link.deviceRules);
+  const [variants, setVariants] = useState<LinkVariantInput[]>(link.variants);
+  const [organization, setOrganization] = useState<OrganizationValues>({
+    folderId: link.folderId ?? "",
+    tagInput: link.tags.join(", "),
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const updateMutation = useMutation({
+    mutationFn: (input: UpdateLinkInput) => updateLinkAction(link.id, input),
+    onSuccess: (result) => {
+      if (!result.success) {
+        setError(result.error ?? "Failed to update link");
+        return;
+      }
+      onClose();
+    },
+    onError: (err) => {
+      setError(err instanceof Error ? err.message : "Failed to update link");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["links"] });
+      queryClient.invalidateQueries({ queryKey: ["link", link.id] });
+      queryClient.invalidateQueries({ queryKey: ["folders"] });
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+    },
+  });
+
+  function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+
+    // Only send changed fields so an untouched alias never rewrites the short code
+    const input: UpdateLinkInput = {};
+    if (originalUrl.trim() !== link.originalUrl) {
+      input.originalUrl = originalUrl.trim();
+    }
+    if (customAlias.trim() !== (link.customAlias ?? "")) {
+      input.customAlias = customAlias.trim() || null;
+    }
+    if (description.trim() !== (link.description ?? "")) {
+      input.description = description.trim() || null;
+    }
+    if (expiresAt !== toDateTimeLocal(link.expiresAt)) {
+      input.expiresAt = expiresAt ? new Date(expiresAt).toISOString() : null;
+    }
+    if (maxClicks !== (link.maxClicks?.toString() ?? "")) {
+      input.maxClicks = maxClicks ? Number(maxClicks) : null;
+    }
+    if (removePassword) {
+      input.password = null;
+    } else if (password) {
+      input.password = password;
+    }
+    if (isActive !== link.isActive) {
+      input.isActive = isActive;
+    }
+    for (const field of UTM_FIELDS) {
+      if (utm[field].trim() !== (link[field] ?? "")) {
+        input[field] = utm[field].trim() || null;
+      }
+    }
+    if (queryForwarding.forwardQuery !== link.forwardQuery) {
+      input.forwardQuery = queryForwarding.forwardQuery;
+    }
+    if (queryForwarding.queryPrecedence !== link.queryPrecedence) {
+      input.queryPrecedence = queryForwarding.queryPrecedence;
+    }
+    const cleanedGeoRules = cleanGeoRules(geoRules);
+    if (JSON.stringify(cleanedGeoRules) !== JSON.stringify(link.geoRules)) {
+      input.geoRules = cleanedGeoRules;
+    }
+    const cleanedDeviceRules = cleanDeviceRules(deviceRules);
+    if (JSON.stringify(cleanedDeviceRules) !== JSON.stringify(link.deviceRules)) {
+      input.deviceRules = cleanedDeviceRules;
+    }
+    const cleanedVariants = cleanVariants(variants);
+    if (JSON.stringify(cleanedVariants) !== JSON.stringify(link.variants)) {
+      input.variants = cleanedVariants;
+    }
+    if (organization.folderId !== (link.folderId ?? "")) {
+      input.folderId = organization.folderId || null;
+    }
+    const tags = parseTagInput(organization.tagInput);
+    if (JSON.stringify(tags) !== JSON.stringify(link.tags)) {
+      input.tags = tags;
+    }
+
+    if (Object.keys(input).length === 0) {
+      onClose();
+      return;
+    }
+
+    updateMutation.mutate(input);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-lg" role="dialog" aria-modal="true" aria-labelledby="edit-link-title">
+        <CardHeader>
+          <CardTitle id="edit-link-title">Edit link</CardTitle>
+          <CardDescription>
+            Changes apply immediately. Click history is kept.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="edit-url">
+                Destination URL
+              </label>
+              <Input
+                id="edit-url"
+                type="url"
+                required
+                value={originalUrl}
+                onChange={(event) => setOriginalUrl(event.target.value)}
+                disabled={updateMutation.isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="edit-alias">
+                Custom alias
+              </label>
+              <Input
+                id="edit-alias"
+                placeholder="my-campaign"
+                value={customAlias}
+                onChange={(event) => setCustomAlias(event.target.value)}
+                disabled={updateMutation.isPending}
+              />
+              <p className="text-xs text-muted-foreground">
+                Changing the alias changes the short link.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="edit-description">
+                Description
+              </label>
+              <Input
+                id="edit-description"
+                maxLength={500}
+                value={description}
+                onChange={(event) => setDescription(event.target.value)}
+                disabled={updateMutation.isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="edit-expires">
+                Expires at
+              </label>
+              <Input
+                id="edit-expires"
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(event) => setExpiresAt(event.target.value)}
+                disabled={updateMutation.isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="edit-max-clicks">
+                Max clicks
+              </label>
+              <Input
+                id="edit-max-clicks"
+                type="number"
+                min={1}
+                step={1}
+                placeholder="Unlimited"
+                value={maxClicks}
+                onChange={(event) => setMaxClicks(event.target.value)}
+                disabled={updateMutation.isPending}
+              />
+              <p className="text-xs text-muted-foreground">
+                The link stops redirecting after this many clicks ({link.clicks} so far).
+              </p>
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="edit-password">
+                {link.hasPassword ? "New password" : "Password"}
+              </label>
+              <Input
+                id="edit-password"
+                type="password"
+                autoComplete="new-password"
+                minLength={4}
+                maxLength={128}
+                placeholder={link.hasPassword ? "Leave blank to keep the current password" : "Optional"}
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                disabled={updateMutation.isPending || removePassword}
+              />
+              {link.hasPassword && (
+                <label className="flex items-center gap-2 text-sm" htmlFor="edit-remove-password">
+                  <input
+                    id="edit-remove-password"
+                    type="checkbox"
+                    checked={removePassword}
+                    onChange={(event) => setRemovePassword(event.target.checked)}
+                    disabled={updateMutation.isPending}
+                  />
+                  Remove password
+                </label>
+              )}
+            </div>
+            <OrganizationFields
+              idPrefix="edit"
+              values={organization}
+              onChange={setOrganization}
+              disabled={updateMutation.isPending}
+            />
+            <fieldset className="space-y-2">
+              <legend className="text-xs font-medium text-muted-foreground">UTM parameters</legend>
+              <UtmFields
+                idPrefix="edit"
+                originalUrl={originalUrl.trim()}
+                values={utm}
+                onChange={setUtm}
+                disabled={updateMutation.isPending}
+              />
+            </fieldset>
+            <QueryForwardingFields
+              idPrefix="edit"
+              {...queryForwarding}
+              onChange={setQueryForwarding}
+              disabled={updateMutation.isPending}
+            />
+            <fieldset className="space-y-2">
+              <legend className="text-xs font-medium text-muted-foreground">Routing rules</legend>
+              <DeviceRulesFields
+                idPrefix="edit"
+                rules={deviceRules}
+                onChange={setDeviceRules}
+                disabled={updateMutation.isPending}
+              />
+              <GeoRulesFields
+                idPrefix="edit"
+                rules={geoRules}
+                onChange={setGeoRules}
+                disabled={updateMutation.isPending}
+              />
+              <VariantsFields
+                idPrefix="edit"
+                variants={variants}
+                onChange={setVariants}
+                disabled={updateMutation.isPending}
+              />
+            </fieldset>
+            <label className="flex items-center gap-2 text-sm" htmlFor="edit-active">
+              <input
+                id="edit-active"
+                type="checkbox"
+                checked={isActive}
+                onChange={(event) => setIsActive(event.target.checked)}
+                disabled={updateMutation.isPending || !canChangeActive}
+              />
+              Active
+            </label>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex gap-3 justify-end">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={updateMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={updateMutation.isPending}>
+                {updateMutation.isPending ? "Saving..." : "Save changes"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { commitImport, previewImport } from "@/data/links";
+import {
+  MAX_IMPORT_ROWS,
+  type ImportConflictStrategy,
+  type ImportPreview,
+  type ImportResult,
+  type ImportRowError,
+} from "@/lib/link-import";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+
+const SOURCE_LABELS: Record<ImportPreview["source"], string> = {
+  bitly: "Bitly export",
+  generic: "Generic CSV",
+};
+
+function RowErrors({ errors }: { errors: ImportRowError[] }) {
+  if (errors.length === 0) return null;
+
+  return (
+    <div className="space-y-1 text-sm text-red-600">
+      <p className="font-medium">{errors.length} row(s) could not be imported:</p>
+      <ul className="list-disc pl-5">
+        {errors.map((item) => (
+          <li key={item.row}>
+            Row {item.row}: {item.error}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function ImportPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [onConflict, setOnConflict] = useState<ImportConflictStrategy>("generate");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const queryClient = useQueryClient();
+
+  const previewMutation = useMutation({
+    mutationFn: previewImport,
+    onSuccess: setPreview,
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: ({ file, onConflict }: { file: File; onConflict: ImportConflictStrategy }) =>
+      commitImport(file, onConflict),
+    onSuccess: (importResult) => {
+      setResult(importResult);
+      queryClient.invalidateQueries({ queryKey: ["links"] });
+    },
+  });
+
+  const handleReset = () => {
+    setFile(null);
+    setPreview(null);
+    setResult(null);
+    previewMutation.reset();
+    commitMutation.reset();
+  };
+
+  const conflicts = preview?.rows.filter((row) => row.status === "conflict").length ?? 0;
+  const importCount = preview
+    ? onConflict === "skip"
+      ? preview.rows.length - conflicts
+      : preview.rows.length
+    : 0;
+
+  const step = result ? "done" : preview ? "preview" : "upload";
+  const error = previewMutation.error ?? commitMutation.error;
+
+  return (
+    <main className="p-6 space-y-6">
+      <header className="space-y-2">
+        <Link href="/dashboard" className="text-sm text-primary hover:underline">
+          ← Back to dashboard
+        </Link>
+        <h1 className="text-2xl font-bold">Import links</h1>
+        <p className="text-sm text-muted-foreground">
+          Move links over from another shortener. Original short codes are kept as aliases
+          when they are free, along with click counts and creation dates.
+        </p>
+      </header>
+
+      {error && (
+        <Card>
+          <CardContent className="py-4 text-sm text-red-600">
+            {error instanceof Error ? error.message : "Import failed"}
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "upload" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">1. Upload a CSV export</CardTitle>
+            <CardDescription>
+              Bitly exports and generic CSVs with a header row (for example url, alias,
+              title, clicks, created_at) are supported, up to {MAX_IMPORT_ROWS} links.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-3 sm:flex-row">
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              aria-label="CSV file"
+              onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+            />
+            <Button
+              onClick={() => file && previewMutation.mutate(file)}
+              disabled={!file || previewMutation.isPending}
+            >
+              {previewMutation.isPending ? "Checking…" : "Preview import"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "preview" && preview && file && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">2. Review</CardTitle>
+            <CardDescription>
+              {SOURCE_LABELS[preview.source]} · {preview.rows.length} link(s) ready ·{" "}
+              {conflicts} alias conflict(s) · {preview.errors.length} invalid row(s)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {conflicts > 0 && (
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                <label className="text-sm text-muted-foreground" htmlFor="conflict-select">
+                  When an alias is already taken
+                </label>
+                <select
+                  id="conflict-select"
+                  className="border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs"
+                  value={onConflict}
+                  onChange={(event) => setOnConflict(event.target.value as ImportConflictStrategy)}
+                >
+                  <option value="generate">Import with a new random short code</option>
+                  <option value="skip">Skip the link</option>
+                </select>
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Original URL</TableHead>
+                  <TableHead>Alias</TableHead>
+                  <TableHead>Clicks</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rows.map((row) => (
+                  <TableRow key={row.row}>
+                    <TableCell>{row.row}</TableCell>
+                    <TableCell className="max-w-xs truncate text-muted-foreground">
+                      {row.originalUrl}
+                    </TableCell>
+                    <TableCell>{row.customAlias ?? "—"}</TableCell>
+                    <TableCell>{row.clicks}</TableCell>
+                    <TableCell>
+                      {row.createdAt ? new Date(row.createdAt).toLocaleDateString() : "—"}
+                    </TableCell>
+                    <TableCell>
+                      {row.status === "conflict" ? (
+                        <Badge variant="secondary">Alias taken</Badge>
+                      ) : (
+                        <Badge className="bg-emerald-100 text-emerald-700">Ready</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <RowErrors errors={preview.errors} />
+
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={handleReset} disabled={commitMutation.isPending}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => commitMutation.mutate({ file, onConflict })}
+                disabled={importCount === 0 || commitMutation.isPending}
+              >
+                {commitMutation.isPending ? "Importing…" : `Import ${importCount} link(s)`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "done" && result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">3. Done</CardTitle>
+            <CardDescription>
+              Imported {result.created} link(s)
+              {result.skipped > 0 && `, skipped ${result.skipped} with taken aliases`}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <RowErrors errors={result.errors} />
+            <div className="flex gap-3">
+              <Link href="/dashboard" className="text-sm text-primary hover:underline">
+                View links
+              </Link>
+              <Button variant="outline" size="sm" onClick={handleReset}>
+                Import another file
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </main>
+  );
+}
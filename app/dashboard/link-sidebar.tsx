@@ -0,0 +1,160 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { createFolder, deleteFolder, fetchFolders, fetchTags } from "@/data/link-organization";
+import { UNFILED_FOLDER } from "@/lib/link-organization";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+
+type LinkSidebarProps = {
+  folderFilter: string | null;
+  tagFilter: string | null;
+  onFolderChange: (folderId: string | null) => void;
+  onTagChange: (tag: string | null) => void;
+};
+
+function SidebarItem({
+  label,
+  count,
+  selected,
+  onClick,
+}: {
+  label: string;
+  count?: number;
+  selected: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={selected}
+      className={`flex w-full items-center justify-between rounded-md px-2 py-1 text-left text-sm hover:bg-muted ${
+        selected ? "bg-muted font-medium" : ""
+      }`}
+      onClick={onClick}
+    >
+      <span className="truncate">{label}</span>
+      {count !== undefined && <span className="text-xs text-muted-foreground">{count}</span>}
+    </button>
+  );
+}
+
+// Folder and tag filters for the links table, plus folder management
+export default function LinkSidebar({
+  folderFilter,
+  tagFilter,
+  onFolderChange,
+  onTagChange,
+}: LinkSidebarProps) {
+  const [folderName, setFolderName] = useState("");
+  const queryClient = useQueryClient();
+
+  const foldersQuery = useQuery({ queryKey: ["folders"], queryFn: fetchFolders });
+  const tagsQuery = useQuery({ queryKey: ["tags"], queryFn: fetchTags });
+
+  const createMutation = useMutation({
+    mutationFn: createFolder,
+    onSuccess: () => {
+      setFolderName("");
+      queryClient.invalidateQueries({ queryKey: ["folders"] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteFolder,
+    onSuccess: (_result, id) => {
+      if (folderFilter === id) {
+        onFolderChange(null);
+      }
+      queryClient.invalidateQueries({ queryKey: ["folders"] });
+      queryClient.invalidateQueries({ queryKey: ["links"] });
+    },
+  });
+
+  const folders = foldersQuery.data ?? [];
+  const tags = tagsQuery.data ?? [];
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 py-4">
+        <nav aria-label="Folders" className="space-y-1">
+          <SidebarItem
+            label="All links"
+            selected={!folderFilter && !tagFilter}
+            onClick={() => {
+              onFolderChange(null);
+              onTagChange(null);
+            }}
+          />
+          <SidebarItem
+            label="Unfiled"
+            selected={folderFilter === UNFILED_FOLDER}
+            onClick={() => onFolderChange(UNFILED_FOLDER)}
+          />
+          {folders.map((folder) => (
+            <div key={folder.id} className="group flex items-center gap-1">
+              <SidebarItem
+                label={folder.name}
+                count={folder.linkCount}
+                selected={folderFilter === folder.id}
+                onClick={() => onFolderChange(folder.id)}
+              />
+              <button
+                type="button"
+                className="px-1 text-xs text-muted-foreground opacity-0 hover:text-red-600 group-hover:opacity-100 focus:opacity-100"
+                aria-label={`Delete folder ${folder.name}`}
+                title="Delete folder (its links are kept)"
+                onClick={() => deleteMutation.mutate(folder.id)}
+                disabled={deleteMutation.isPending}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </nav>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (folderName.trim()) {
+              createMutation.mutate({ name: folderName.trim() });
+            }
+          }}
+        >
+          <Input
+            aria-label="New folder name"
+            placeholder="New folder"
+            maxLength={100}
+            value={folderName}
+            onChange={(event) => setFolderName(event.target.value)}
+            disabled={createMutation.isPending}
+          />
+          <Button type="submit" variant="outline" size="sm" disabled={createMutation.isPending}>
+            Add
+          </Button>
+        </form>
+        {createMutation.error && (
+          <p className="text-xs text-red-600">{createMutation.error.message}</p>
+        )}
+
+        {tags.length > 0 && (
+          <nav aria-label="Tags" className="space-y-1 border-t pt-3">
+            <p className="px-2 text-xs font-medium text-muted-foreground">Tags</p>
+            {tags.map((tag) => (
+              <SidebarItem
+                key={tag.name}
+                label={`#${tag.name}`}
+                count={tag.linkCount}
+                selected={tagFilter === tag.name}
+                onClick={() => onTagChange(tagFilter === tag.name ? null : tag.name)}
+              />
+            ))}
+          </nav>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
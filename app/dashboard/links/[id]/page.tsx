@@ -0,0 +1,389 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { fetchLink, fetchLinkAnalytics, fetchRecentClicks } from "@/data/links";
+import type {
+  AnalyticsInterval,
+  BreakdownItem,
+  TimeSeriesPoint,
+  VariantStats,
+} from "@/lib/analytics";
+import { useQuery } from "@tanstack/react-query";
+import { useMemo, useState } from "react";
+
+const RECENT_CLICKS_LIMIT = 20;
+
+const RANGES: Array<{ key: string; label: string; days: number; interval: AnalyticsInterval }> = [
+  { key: "24h", label: "24 hours", days: 1, interval: "hour" },
+  { key: "7d", label: "7 days", days: 7, interval: "day" },
+  { key: "30d", label: "30 days", days: 30, interval: "day" },
+  { key: "90d", label: "90 days", days: 90, interval: "week" },
+];
+
+function formatBucket(bucket: string, interval: AnalyticsInterval): string {
+  const date = new Date(bucket);
+  return interval === "hour"
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+function ClicksChart({
+  points,
+  interval,
+}: {
+  points: TimeSeriesPoint[];
+  interval: AnalyticsInterval;
+}) {
+  const max = Math.max(1, ...points.map((point) => point.clicks));
+  const total = points.reduce((sum, point) => sum + point.clicks, 0);
+
+  return (
+    <div className="space-y-2">
+      <div
+        className="flex h-48 items-end gap-px"
+        role="img"
+        aria-label={`${total} clicks across ${points.length} ${interval} buckets`}
+      >
+        {points.map((point) => (
+          <div
+            key={point.bucket}
+            className="flex-1 rounded-t-sm bg-primary/80 hover:bg-primary"
+            style={{ height: `${(point.clicks / max) * 100}%`, minHeight: point.clicks ? 2 : 0 }}
+            title={`${formatBucket(point.bucket, interval)}: ${point.clicks} clicks`}
+          />
+        ))}
+      </div>
+      {points.length > 0 && (
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{formatBucket(points[0].bucket, interval)}</span>
+          <span>{formatBucket(points[points.length - 1].bucket, interval)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BreakdownCard({
+  title,
+  label,
+  items,
+  total,
+}: {
+  title: string;
+  label: string;
+  items: BreakdownItem[];
+  total: number;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No clicks in this range.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{label}</TableHead>
+                <TableHead className="text-right">Clicks</TableHead>
+                <TableHead className="text-right">Share</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.name}>
+                  <TableCell className="capitalize">{item.name}</TableCell>
+                  <TableCell className="text-right">{item.clicks}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {total ? Math.round((item.clicks / total) * 100) : 0}%
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function VariantsCard({ variants }: { variants: VariantStats[] }) {
+  const totalClicks = variants.reduce((total, variant) => total + variant.clicks, 0);
+  const totalWeight = variants.reduce((total, variant) => total + (variant.weight ?? 0), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">A/B variants</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Destination</TableHead>
+              <TableHead className="text-right">Target</TableHead>
+              <TableHead className="text-right">Clicks</TableHead>
+              <TableHead className="text-right">Share</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {variants.map((variant) => (
+              <TableRow key={variant.id}>
+                <TableCell className="max-w-xs truncate">
+                  {variant.url ?? <span className="text-muted-foreground">Removed variant</span>}
+                </TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {variant.weight && totalWeight
+                    ? `${Math.round((variant.weight / totalWeight) * 100)}%`
+                    : "—"}
+                </TableCell>
+                <TableCell className="text-right">{variant.clicks}</TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {totalClicks ? Math.round((variant.clicks / totalClicks) * 100) : 0}%
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function LinkDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [rangeKey, setRangeKey] = useState("30d");
+  const range = RANGES.find((item) => item.key === rangeKey) ?? RANGES[2];
+
+  const linkQuery = useQuery({
+    queryKey: ["link", id],
+    queryFn: () => fetchLink(id),
+  });
+
+  const analyticsQuery = useQuery({
+    queryKey: ["link-analytics", id, range.key],
+    queryFn: () =>
+      fetchLinkAnalytics(id, {
+        interval: range.interval,
+        from: new Date(Date.now() - range.days * 24 * 60 * 60 * 1000).toISOString(),
+      }),
+    enabled: linkQuery.isSuccess,
+  });
+
+  const recentClicksQuery = useQuery({
+    queryKey: ["link-clicks", id],
+    queryFn: () => fetchRecentClicks(id, RECENT_CLICKS_LIMIT),
+    enabled: linkQuery.isSuccess,
+    refetchInterval: 5000, // Refetch every 5 seconds
+  });
+
+  const baseUrl = useMemo(() => {
+    if (typeof window === "undefined") return "";
+    return window.location.origin;
+  }, []);
+
+  const link = linkQuery.data;
+  const analytics = analyticsQuery.data;
+
+  if (linkQuery.isLoading) {
+    return (
+      <main className="p-6">
+        <Card>
+          <CardContent className="py-6 text-sm text-muted-foreground">Loading link…</CardContent>
+        </Card>
+      </main>
+    );
+  }
+
+  if (!link) {
+    return (
+      <main className="p-6 space-y-4">
+        <Link href="/dashboard" className="text-sm text-primary hover:underline">
+          ← Back to dashboard
+        </Link>
+        <Card>
+          <CardContent className="py-6 text-sm text-red-600">
+            {linkQuery.error instanceof Error ? linkQuery.error.message : "Link not found"}
+          </CardContent>
+        </Card>
+      </main>
+    );
+  }
+
+  const linkCode = link.customAlias ?? link.shortCode;
+  const shortLinkLabel = baseUrl ? `${baseUrl}/l/${linkCode}` : `/l/${linkCode}`;
+
+  return (
+    <main className="p-6 space-y-6">
+      <header className="space-y-2">
+        <Link href="/dashboard" className="text-sm text-primary hover:underline">
+          ← Back to dashboard
+        </Link>
+        <h1 className="text-2xl font-bold break-all">{shortLinkLabel}</h1>
+        <p className="text-sm text-muted-foreground break-all">{link.originalUrl}</p>
+      </header>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Link details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid gap-4 text-sm sm:grid-cols-2 lg:grid-cols-4">
+            <div>
+              <dt className="text-muted-foreground">Total clicks</dt>
+              <dd className="text-2xl font-semibold">
+                {link.clicks}
+                {link.maxClicks !== null && (
+                  <span className="text-sm font-normal text-muted-foreground"> / {link.maxClicks}</span>
+                )}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Status</dt>
+              <dd>
+                {link.isActive ? (
+                  <Badge className="bg-emerald-100 text-emerald-700">Active</Badge>
+                ) : (
+                  <Badge variant="secondary">Disabled</Badge>
+                )}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Created</dt>
+              <dd>{new Date(link.createdAt).toLocaleString()}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Expires</dt>
+              <dd>{link.expiresAt ? new Date(link.expiresAt).toLocaleString() : "Never"}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Password</dt>
+              <dd>{link.hasPassword ? "Required" : "None"}</dd>
+            </div>
+            {link.customAlias && (
+              <div>
+                <dt className="text-muted-foreground">Alias</dt>
+                <dd>{link.customAlias}</dd>
+              </div>
+            )}
+            {link.description && (
+              <div className="sm:col-span-2 lg:col-span-3">
+                <dt className="text-muted-foreground">Description</dt>
+                <dd>{link.description}</dd>
+              </div>
+            )}
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Clicks over time</CardTitle>
+          <CardDescription>
+            {analytics
+              ? `${analytics.totalClicks} clicks in the last ${range.label}`
+              : `Last ${range.label}`}
+          </CardDescription>
+          <div className="flex flex-wrap gap-2" role="group" aria-label="Date range">
+            {RANGES.map((item) => (
+              <Button
+                key={item.key}
+                size="sm"
+                variant={item.key === rangeKey ? "default" : "outline"}
+                aria-pressed={item.key === rangeKey}
+                onClick={() => setRangeKey(item.key)}
+              >
+                {item.label}
+              </Button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {analyticsQuery.isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading analytics…</p>
+          ) : analyticsQuery.isError ? (
+            <p className="text-sm text-red-600">
+              {analyticsQuery.error instanceof Error
+                ? analyticsQuery.error.message
+                : "Failed to load analytics"}
+            </p>
+          ) : analytics ? (
+            <ClicksChart points={analytics.timeSeries} interval={analytics.range.interval} />
+          ) : null}
+        </CardContent>
+      </Card>
+
+      {analytics && (
+        <div className="grid gap-6 md:grid-cols-2">
+          <BreakdownCard title="Top referrers" label="Referrer" items={analytics.referers} total={analytics.totalClicks} />
+          <BreakdownCard title="Countries" label="Country" items={analytics.countries} total={analytics.totalClicks} />
+          <BreakdownCard title="Devices" label="Device" items={analytics.devices} total={analytics.totalClicks} />
+          <BreakdownCard title="Browsers" label="Browser" items={analytics.browsers} total={analytics.totalClicks} />
+        </div>
+      )}
+
+      {analytics && analytics.variants.length > 0 && <VariantsCard variants={analytics.variants} />}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Recent clicks</CardTitle>
+          <CardDescription>The last {RECENT_CLICKS_LIMIT} recorded clicks.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {recentClicksQuery.isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading clicks…</p>
+          ) : !recentClicksQuery.data?.length ? (
+            <p className="text-sm text-muted-foreground">No clicks recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Referrer</TableHead>
+                  <TableHead>Country</TableHead>
+                  <TableHead>Device</TableHead>
+                  <TableHead>Browser</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recentClicksQuery.data.map((click) => (
+                  <TableRow key={click.id}>
+                    <TableCell>{new Date(click.clickedAt).toLocaleString()}</TableCell>
+                    <TableCell className="max-w-64 truncate" title={click.referer ?? undefined}>
+                      {click.referer ?? "Direct"}
+                    </TableCell>
+                    <TableCell>{click.country ?? "Unknown"}</TableCell>
+                    <TableCell className="capitalize">{click.device}</TableCell>
+                    <TableCell>
+                      {click.browser} · {click.os}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
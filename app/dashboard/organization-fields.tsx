@@ -0,0 +1,69 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { fetchFolders } from "@/data/link-organization";
+import { MAX_TAGS_PER_LINK } from "@/lib/link-organization";
+import { useQuery } from "@tanstack/react-query";
+
+export type OrganizationValues = {
+  folderId: string; // "" when the link is not in a folder
+  tagInput: string; // comma-separated, parsed with parseTagInput on submit
+};
+
+export const EMPTY_ORGANIZATION_VALUES: OrganizationValues = { folderId: "", tagInput: "" };
+
+type OrganizationFieldsProps = {
+  idPrefix: string;
+  values: OrganizationValues;
+  onChange: (values: OrganizationValues) => void;
+  disabled?: boolean;
+};
+
+// Folder picker and tag input shared by the create form and the edit dialog
+export default function OrganizationFields({
+  idPrefix,
+  values,
+  onChange,
+  disabled,
+}: OrganizationFieldsProps) {
+  const foldersQuery = useQuery({ queryKey: ["folders"], queryFn: fetchFolders });
+
+  return (
+    <div className="flex flex-col gap-3 sm:flex-row">
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-muted-foreground" htmlFor={`${idPrefix}-folder`}>
+          Folder
+        </label>
+        <select
+          id={`${idPrefix}-folder`}
+          className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs sm:w-44"
+          value={values.folderId}
+          onChange={(event) => onChange({ ...values, folderId: event.target.value })}
+          disabled={disabled}
+        >
+          <option value="">No folder</option>
+          {(foldersQuery.data ?? []).map((folder) => (
+            <option key={folder.id} value={folder.id}>
+              {folder.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex-1 space-y-2">
+        <label className="text-xs font-medium text-muted-foreground" htmlFor={`${idPrefix}-tags`}>
+          Tags
+        </label>
+        <Input
+          id={`${idPrefix}-tags`}
+          placeholder="launch, social"
+          value={values.tagInput}
+          onChange={(event) => onChange({ ...values, tagInput: event.target.value })}
+          disabled={disabled}
+        />
+        <p className="text-xs text-muted-foreground">
+          Separate tags with commas, up to {MAX_TAGS_PER_LINK} per link.
+        </p>
+      </div>
+    </div>
+  );
+}
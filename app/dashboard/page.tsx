@@ -1,7 +1,9 @@
 "use client";
 
+import Link from "next/link";
+import { useAuth } from "@clerk/nextjs";
 import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
+import { Button, buttonVariants } from "@/components/ui/button";
 import {
   Card,
   CardContent,
@@ -18,72 +20,279 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { createShortLink, fetchLinks, ShortenedUrl } from "@/data/links";
+import { fetchFolders } from "@/data/link-organization";
+import {
+  createShortLink,
+  fetchLinks,
+  getExportUrl,
+  LinkSort,
+  LinksPage,
+  ShortenedUrl,
+} from "@/data/links";
+import { EXPORT_FORMATS, ExportFormat } from "@/lib/export";
+import { DEVICE_TARGET_LABELS, type DeviceRule } from "@/lib/device-targeting";
+import type { GeoRule } from "@/lib/geo-targeting";
+import { UNFILED_FOLDER, parseTagInput } from "@/lib/link-organization";
+import type { LinkVariantInput } from "@/lib/link-variants";
 import { deleteLinkAction } from "./actions";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { useMemo, useState } from "react";
+import EditLinkDialog from "./edit-link-dialog";
+import LinkSidebar from "./link-sidebar";
+import OrganizationFields, {
+  EMPTY_ORGANIZATION_VALUES,
+  OrganizationValues,
+} from "./organization-fields";
+import QrDialog from "./qr-dialog";
+import UtmFields, { EMPTY_UTM_VALUES, QueryForwardingFields, UtmValues } from "./tracking-fields";
+import {
+  DeviceRulesFields,
+  GeoRulesFields,
+  VariantsFields,
+  cleanDeviceRules,
+  cleanGeoRules,
+  cleanVariants,
+} from "./routing-fields";
+import { UTM_FIELDS, UTM_LABELS, type UtmField } from "@/lib/utm";
+import TrashList from "./trash-list";
+import WorkspaceSwitcher from "./workspace-switcher";
+import type { WorkspaceSummary } from "@/data/workspaces";
+import { hasPermission } from "@/lib/permissions";
+import {
+  InfiniteData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { useEffect, useMemo, useRef, useState } from "react";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXPIRY_PRESETS = [
+  { value: "never", label: "Never", days: 0 },
+  { value: "1d", label: "1 day", days: 1 },
+  { value: "7d", label: "7 days", days: 7 },
+  { value: "30d", label: "30 days", days: 30 },
+];
+
+const SORT_OPTIONS: Array<{ value: string; label: string; sort: LinkSort; order: "asc" | "desc" }> = [
+  { value: "newest", label: "Newest first", sort: "createdAt", order: "desc" },
+  { value: "oldest", label: "Oldest first", sort: "createdAt", order: "asc" },
+  { value: "most-clicked", label: "Most clicks", sort: "clicks", order: "desc" },
+  { value: "least-clicked", label: "Fewest clicks", sort: "clicks", order: "asc" },
+  { value: "alias", label: "Alias A–Z", sort: "alias", order: "asc" },
+];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const EXPORT_CLICKS_DAYS = 30;
+
+type LinksData = InfiniteData<LinksPage, string | null>;
+
+// Apply an update to every loaded page of a cached link list
+function updateLinkPages(
+  data: LinksData | undefined,
+  update: (links: ShortenedUrl[], pageIndex: number) => ShortenedUrl[]
+): LinksData | undefined {
+  if (!data) return data;
+  return {
+    ...data,
+    pages: data.pages.map((page, index) => ({ ...page, data: update(page.data, index) })),
+  };
+}
 
 export default function Dashboard() {
   const [createError, setCreateError] = useState<string | null>(null);
   const [originalUrl, setOriginalUrl] = useState("");
+  const [expiryPreset, setExpiryPreset] = useState("never");
+  const [maxClicks, setMaxClicks] = useState("");
+  const [password, setPassword] = useState("");
+  const [utm, setUtm] = useState<UtmValues>(EMPTY_UTM_VALUES);
+  const [queryForwarding, setQueryForwarding] = useState<{
+    forwardQuery: boolean;
+    queryPrecedence: ShortenedUrl["queryPrecedence"];
+  }>({ forwardQuery: false, queryPrecedence: "link" });
+  const [geoRules, setGeoRules] = useState<GeoRule[]>([]);
+  const [deviceRules, setDeviceRules] = useState<DeviceRule[]>([]);
+  const [variants, setVariants] = useState<LinkVariantInput[]>([]);
+  const [organization, setOrganization] = useState<OrganizationValues>(EMPTY_ORGANIZATION_VALUES);
   const [shortUrl, setShortUrl] = useState<string | null>(null);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [editingLink, setEditingLink] = useState<ShortenedUrl | null>(null);
+  const [qrLink, setQrLink] = useState<ShortenedUrl | null>(null);
+  const [view, setView] = useState<"links" | "trash">("links");
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [sortOption, setSortOption] = useState("newest");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [utmFilter, setUtmFilter] = useState<{ field: UtmField; value: string } | null>(null);
+  const [folderFilter, setFolderFilter] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [workspace, setWorkspace] = useState<WorkspaceSummary | null>(null);
+  // Personal links act as owned by the user; in a workspace the role decides
+  const { userId } = useAuth();
+  const role = workspace?.role ?? "owner";
+  const canCreate = hasPermission(role, "create");
+  const canEdit = hasPermission(role, "edit");
+  const canExport = hasPermission(role, "export");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
   const baseUrl = useMemo(() => {
     if (typeof window === "undefined") return "";
     return window.location.origin;
   }, []);
 
-  const { data: links = [], isLoading, isError, error } = useQuery({
-    queryKey: ["links"],
-    queryFn: fetchLinks,
-    refetchInterval: 5000, // Refetch every 5 seconds
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  // Folders, tags and UTM values belong to the previous workspace
+  const workspaceId = workspace?.id ?? null;
+  const [filtersWorkspaceId, setFiltersWorkspaceId] = useState(workspaceId);
+  if (filtersWorkspaceId !== workspaceId) {
+    setFiltersWorkspaceId(workspaceId);
+    setFolderFilter(null);
+    setTagFilter(null);
+    setUtmFilter(null);
+  }
+
+  const { sort, order } = SORT_OPTIONS.find((option) => option.value === sortOption) ?? SORT_OPTIONS[0];
+  const linksQueryKey = [
+    "links",
+    "active",
+    debouncedSearch,
+    sort,
+    order,
+    utmFilter,
+    folderFilter,
+    tagFilter,
+  ];
+
+  const {
+    data,
+    isLoading,
+    isError,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: linksQueryKey,
+    queryFn: ({ pageParam }) =>
+      fetchLinks({
+        q: debouncedSearch,
+        sort,
+        order,
+        cursor: pageParam,
+        ...(utmFilter && { [utmFilter.field]: utmFilter.value }),
+        folderId: folderFilter ?? undefined,
+        tag: tagFilter ?? undefined,
+      }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // Refetching an infinite query reloads every page, so only poll while the first page
+    // is all that's loaded; after scrolling, mutations still invalidate the list
+    refetchInterval: (query) => ((query.state.data?.pages.length ?? 0) > 1 ? false : 5000),
   });
 
+  const links = useMemo(() => data?.pages.flatMap((page) => page.data) ?? [], [data]);
+
+  const foldersQuery = useQuery({ queryKey: ["folders"], queryFn: fetchFolders });
+  const folderNames = useMemo(
+    () => new Map((foldersQuery.data ?? []).map((folder) => [folder.id, folder.name])),
+    [foldersQuery.data]
+  );
+
+  // Infinite scroll: load the next page when the sentinel below the table becomes visible
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage]);
+
   const createMutation = useMutation({
     mutationFn: createShortLink,
-    onMutate: async (url) => {
+    onMutate: async (input) => {
       setCreateError(null);
       setShortUrl(null);
       await queryClient.cancelQueries({ queryKey: ["links"] });
 
-      const previous = queryClient.getQueryData<ShortenedUrl[]>(["links"]) ?? [];
+      const previous = queryClient.getQueryData<LinksData>(linksQueryKey);
       const optimisticLink: ShortenedUrl = {
         id: `temp-${Date.now()}`,
         shortCode: "pending",
-        originalUrl: url,
+        originalUrl: input.originalUrl,
         userId: "pending",
+        workspaceId: null,
         customAlias: null,
         description: null,
         clicks: 0,
+        maxClicks: input.maxClicks ?? null,
+        hasPassword: !!input.password,
+        utmSource: input.utmSource ?? null,
+        utmMedium: input.utmMedium ?? null,
+        utmCampaign: input.utmCampaign ?? null,
+        utmTerm: input.utmTerm ?? null,
+        utmContent: input.utmContent ?? null,
+        forwardQuery: input.forwardQuery ?? false,
+        queryPrecedence: input.queryPrecedence ?? "link",
+        geoRules: input.geoRules ?? [],
+        deviceRules: input.deviceRules ?? [],
+        variants: (input.variants ?? []).map((variant, index) => ({
+          ...variant,
+          id: variant.id ?? `pending-${index}`,
+        })),
+        folderId: input.folderId ?? null,
+        tags: input.tags ?? [],
         isActive: true,
-        expiresAt: null,
+        expiresAt: input.expiresAt ?? null,
+        deactivatedAt: null,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
 
-      queryClient.setQueryData(["links"], [optimisticLink, ...previous]);
+      queryClient.setQueryData<LinksData>(linksQueryKey, (current) =>
+        updateLinkPages(current, (pageLinks, index) =>
+          index === 0 ? [optimisticLink, ...pageLinks] : pageLinks
+        )
+      );
       return { previous, tempId: optimisticLink.id };
     },
     onError: (err, _variables, context) => {
       if (context?.previous) {
-        queryClient.setQueryData(["links"], context.previous);
+        queryClient.setQueryData(linksQueryKey, context.previous);
       }
       setCreateError(err instanceof Error ? err.message : "Failed to shorten link");
     },
     onSuccess: (payload, _variables, context) => {
       setShortUrl(payload.shortUrl);
       setOriginalUrl("");
-      queryClient.setQueryData<ShortenedUrl[]>(["links"], (current) => {
-        const existing = current ?? [];
-        const withoutTemp = context?.tempId
-          ? existing.filter((item) => item.id !== context.tempId)
-          : existing;
-        return [payload.data, ...withoutTemp];
-      });
+      setExpiryPreset("never");
+      setMaxClicks("");
+      setPassword("");
+      setUtm(EMPTY_UTM_VALUES);
+      setQueryForwarding({ forwardQuery: false, queryPrecedence: "link" });
+      setGeoRules([]);
+      setDeviceRules([]);
+      setVariants([]);
+      setOrganization(EMPTY_ORGANIZATION_VALUES);
+      queryClient.setQueryData<LinksData>(linksQueryKey, (current) =>
+        updateLinkPages(current, (pageLinks) =>
+          pageLinks.map((item) => (item.id === context?.tempId ? payload.data : item))
+        )
+      );
     },
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: ["links"] });
+      queryClient.invalidateQueries({ queryKey: ["folders"] });
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
     },
   });
 
@@ -91,13 +300,15 @@ export default function Dashboard() {
     mutationFn: deleteLinkAction,
     onMutate: async (id) => {
       await queryClient.cancelQueries({ queryKey: ["links"] });
-      const previous = queryClient.getQueryData<ShortenedUrl[]>(["links"]) ?? [];
-      queryClient.setQueryData(["links"], previous.filter((link) => link.id !== id));
+      const previous = queryClient.getQueryData<LinksData>(linksQueryKey);
+      queryClient.setQueryData<LinksData>(linksQueryKey, (current) =>
+        updateLinkPages(current, (pageLinks) => pageLinks.filter((link) => link.id !== id))
+      );
       return { previous };
     },
     onError: (_err, _variables, context) => {
       if (context?.previous) {
-        queryClient.setQueryData(["links"], context.previous);
+        queryClient.setQueryData(linksQueryKey, context.previous);
       }
     },
     onSuccess: (result) => {
@@ -108,6 +319,7 @@ export default function Dashboard() {
     onSettled: () => {
       setDeleteConfirmId(null);
       queryClient.invalidateQueries({ queryKey: ["links"] });
+      queryClient.invalidateQueries({ queryKey: ["folders"] });
     },
   });
 
@@ -121,6 +333,14 @@ export default function Dashboard() {
     setDeleteConfirmId(null);
   };
 
+  const handleExport = (type: "links" | "clicks") => {
+    const from =
+      type === "clicks"
+        ? new Date(Date.now() - EXPORT_CLICKS_DAYS * 24 * 60 * 60 * 1000)
+        : undefined;
+    window.location.assign(getExportUrl(type, exportFormat, from));
+  };
+
   const errorMessage = isError
     ? error instanceof Error
       ? error.message
@@ -131,182 +351,558 @@ export default function Dashboard() {
     event.preventDefault();
     const value = originalUrl.trim();
     if (!value) return;
-    createMutation.mutate(value);
+    const preset = EXPIRY_PRESETS.find((item) => item.value === expiryPreset);
+    createMutation.mutate({
+      originalUrl: value,
+      expiresAt: preset?.days
+        ? new Date(Date.now() + preset.days * DAY_MS).toISOString()
+        : undefined,
+      maxClicks: maxClicks ? Number(maxClicks) : undefined,
+      password: password || undefined,
+      ...Object.fromEntries(
+        UTM_FIELDS.map((field) => [field, utm[field].trim() || undefined])
+      ),
+      ...queryForwarding,
+      geoRules: cleanGeoRules(geoRules),
+      deviceRules: cleanDeviceRules(deviceRules),
+      variants: cleanVariants(variants),
+      folderId: organization.folderId || undefined,
+      tags: parseTagInput(organization.tagInput),
+    });
   }
 
   return (
     <main className="p-6 space-y-6">
-      <header className="space-y-2">
-        <h1 className="text-2xl font-bold">Dashboard</h1>
-        <p className="text-sm text-muted-foreground">
-          Manage your shortened links and track engagement.
-        </p>
+      <header className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold">Dashboard</h1>
+          <p className="text-sm text-muted-foreground">
+            {workspace
+              ? `Manage the links shared in ${workspace.name} and track engagement.`
+              : "Manage your shortened links and track engagement."}
+          </p>
+        </div>
+        <WorkspaceSwitcher onChange={setWorkspace} />
       </header>
 
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-sm">Create a new short link</CardTitle>
-          <CardDescription>
-            Paste a long URL and instantly get a short link for sharing.
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <form className="flex flex-col gap-3 sm:flex-row sm:items-end" onSubmit={handleCreate}>
-            <div className="flex-1 space-y-2">
-              <label className="text-xs font-medium text-muted-foreground" htmlFor="url-input">
-                Long URL
-              </label>
-              <Input
-                id="url-input"
-                type="url"
-                required
-                placeholder="https://example.com/your/long/url"
-                value={originalUrl}
-                onChange={(event) => setOriginalUrl(event.target.value)}
-                disabled={createMutation.isPending}
-              />
-            </div>
-            <Button type="submit" size="lg" disabled={createMutation.isPending}>
-              {createMutation.isPending ? "Shortening..." : "Shorten URL"}
-            </Button>
-          </form>
-
-          {createError && (
-            <p className="text-sm text-red-600">{createError}</p>
-          )}
-
-          {shortUrl && (
-            <div className="rounded-md border bg-muted/70 px-3 py-2 text-sm">
-              <span className="text-muted-foreground">Short link:</span>{" "}
-              <a
-                className="text-primary hover:underline"
-                href={shortUrl}
-                target="_blank"
-                rel="noreferrer"
-              >
-                {shortUrl}
-              </a>
-            </div>
-          )}
-        </CardContent>
-      </Card>
-
-      {isLoading ? (
-        <Card>
-          <CardContent className="py-6 text-sm text-muted-foreground">
-            Loading links…
-          </CardContent>
-        </Card>
-      ) : errorMessage ? (
-        <Card>
-          <CardContent className="py-6 text-sm text-red-600">
-            {errorMessage}
-          </CardContent>
-        </Card>
-      ) : links.length === 0 ? (
-        <Card>
-          <CardContent className="py-6 text-sm text-muted-foreground">
-            No links yet. Create your first shortened URL to see it here.
-          </CardContent>
-        </Card>
-      ) : (
+      {canCreate && (
         <Card>
           <CardHeader>
-            <CardTitle className="text-sm">Your links</CardTitle>
+            <CardTitle className="text-sm">Create a new short link</CardTitle>
             <CardDescription>
-              All active links for your account.
+              Paste a long URL and instantly get a short link for sharing.
             </CardDescription>
           </CardHeader>
-          <CardContent>
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Short link</TableHead>
-                  <TableHead>Original URL</TableHead>
-                  <TableHead>Clicks</TableHead>
-                  <TableHead>Created</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {links.map((link) => {
-                  const isPending = link.shortCode === "pending";
-                  const shortLinkLabel = baseUrl
-                    ? `${baseUrl}/l/${link.shortCode}`
-                    : `/l/${link.shortCode}`;
-
-                  return (
-                    <TableRow key={link.id}>
-                      <TableCell className="font-medium">
-                        {isPending ? (
-                          <span className="text-muted-foreground">Generating…</span>
-                        ) : (
-                          <a
-                            className="text-primary hover:underline"
-                            href={shortLinkLabel}
-                            target="_blank"
-                            rel="noreferrer"
-                          >
-                            {shortLinkLabel}
-                          </a>
-                        )}
-                        {link.customAlias && !isPending && (
-                          <div className="text-xs text-muted-foreground">
-                            Alias: {link.customAlias}
-                          </div>
-                        )}
-                      </TableCell>
-                      <TableCell>
-                        <a
-                          className="text-muted-foreground hover:underline"
-                          href={link.originalUrl}
-                          target="_blank"
-                          rel="noreferrer"
-                        >
-                          {link.originalUrl}
-                        </a>
-                      </TableCell>
-                      <TableCell>{link.clicks}</TableCell>
-                      <TableCell>
-                        {new Date(link.createdAt).toLocaleDateString()}
-                      </TableCell>
-                      <TableCell>
-                        {link.isActive ? (
-                          <Badge className="bg-emerald-100 text-emerald-700">
-                            Active
-                          </Badge>
-                        ) : (
-                          <Badge variant="secondary">Disabled</Badge>
-                        )}
-                      </TableCell>
-                      <TableCell className="text-right">
-                        <Button
-                          variant="default"
-                          size="sm"
-                          className="bg-red-600 hover:bg-red-700"
-                          onClick={() => setDeleteConfirmId(link.id)}
-                          disabled={deleteMutation.isPending || isPending}
-                        >
-                          Delete
-                        </Button>
-                      </TableCell>
-                    </TableRow>
-                  );
-                })}
-              </TableBody>
-            </Table>
+          <CardContent className="space-y-4">
+            <form className="space-y-3" onSubmit={handleCreate}>
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+                <div className="flex-1 space-y-2">
+                  <label className="text-xs font-medium text-muted-foreground" htmlFor="url-input">
+                    Long URL
+                  </label>
+                  <Input
+                    id="url-input"
+                    type="url"
+                    required
+                    placeholder="https://example.com/your/long/url"
+                    value={originalUrl}
+                    onChange={(event) => setOriginalUrl(event.target.value)}
+                    disabled={createMutation.isPending}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-medium text-muted-foreground" htmlFor="expiry-select">
+                    Expires
+                  </label>
+                  <select
+                    id="expiry-select"
+                    className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs sm:w-32"
+                    value={expiryPreset}
+                    onChange={(event) => setExpiryPreset(event.target.value)}
+                    disabled={createMutation.isPending}
+                  >
+                    {EXPIRY_PRESETS.map((preset) => (
+                      <option key={preset.value} value={preset.value}>
+                        {preset.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-medium text-muted-foreground" htmlFor="max-clicks-input">
+                    Max clicks
+                  </label>
+                  <Input
+                    id="max-clicks-input"
+                    type="number"
+                    min={1}
+                    step={1}
+                    placeholder="Unlimited"
+                    className="sm:w-32"
+                    value={maxClicks}
+                    onChange={(event) => setMaxClicks(event.target.value)}
+                    disabled={createMutation.isPending}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-medium text-muted-foreground" htmlFor="password-input">
+                    Password
+                  </label>
+                  <Input
+                    id="password-input"
+                    type="password"
+                    autoComplete="new-password"
+                    minLength={4}
+                    maxLength={128}
+                    placeholder="Optional"
+                    className="sm:w-36"
+                    value={password}
+                    onChange={(event) => setPassword(event.target.value)}
+                    disabled={createMutation.isPending}
+                  />
+                </div>
+                <Button type="submit" size="lg" disabled={createMutation.isPending}>
+                  {createMutation.isPending ? "Shortening..." : "Shorten URL"}
+                </Button>
+              </div>
+              <OrganizationFields
+                idPrefix="create"
+                values={organization}
+                onChange={setOrganization}
+                disabled={createMutation.isPending}
+              />
+              <details className="text-sm">
+                <summary className="cursor-pointer text-xs font-medium text-muted-foreground">
+                  Tracking options
+                </summary>
+                <div className="space-y-4 pt-3">
+                  <UtmFields
+                    idPrefix="create"
+                    originalUrl={originalUrl.trim()}
+                    values={utm}
+                    onChange={setUtm}
+                    disabled={createMutation.isPending}
+                  />
+                  <QueryForwardingFields
+                    idPrefix="create"
+                    {...queryForwarding}
+                    onChange={setQueryForwarding}
+                    disabled={createMutation.isPending}
+                  />
+                </div>
+              </details>
+              <details className="text-sm">
+                <summary className="cursor-pointer text-xs font-medium text-muted-foreground">
+                  Routing rules
+                </summary>
+                <div className="space-y-4 pt-3">
+                  <DeviceRulesFields
+                    idPrefix="create"
+                    rules={deviceRules}
+                    onChange={setDeviceRules}
+                    disabled={createMutation.isPending}
+                  />
+                  <GeoRulesFields
+                    idPrefix="create"
+                    rules={geoRules}
+                    onChange={setGeoRules}
+                    disabled={createMutation.isPending}
+                  />
+                  <VariantsFields
+                    idPrefix="create"
+                    variants={variants}
+                    onChange={setVariants}
+                    disabled={createMutation.isPending}
+                  />
+                </div>
+              </details>
+            </form>
+
+            {createError && (
+              <p className="text-sm text-red-600">{createError}</p>
+            )}
+
+            {shortUrl && (
+              <div className="rounded-md border bg-muted/70 px-3 py-2 text-sm">
+                <span className="text-muted-foreground">Short link:</span>{" "}
+                <a
+                  className="text-primary hover:underline"
+                  href={shortUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  {shortUrl}
+                </a>
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
 
+      <div className="flex gap-2" role="tablist" aria-label="Link views">
+        <Button
+          role="tab"
+          aria-selected={view === "links"}
+          variant={view === "links" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setView("links")}
+        >
+          Links
+        </Button>
+        <Button
+          role="tab"
+          aria-selected={view === "trash"}
+          variant={view === "trash" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setView("trash")}
+        >
+          Trash
+        </Button>
+      </div>
+
+      {view === "links" && (
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Input
+            type="search"
+            aria-label="Search links"
+            placeholder="Search by URL, alias or description"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+          />
+          <select
+            aria-label="Sort links"
+            className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs sm:w-44"
+            value={sortOption}
+            onChange={(event) => setSortOption(event.target.value)}
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {canExport && (
+            <>
+              <select
+                aria-label="Export format"
+                className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs sm:w-28"
+                value={exportFormat}
+                onChange={(event) => setExportFormat(event.target.value as ExportFormat)}
+              >
+                {EXPORT_FORMATS.map((format) => (
+                  <option key={format} value={format}>
+                    {format.toUpperCase()}
+                  </option>
+                ))}
+              </select>
+              <Button variant="outline" onClick={() => handleExport("links")}>
+                Export links
+              </Button>
+              <Button variant="outline" onClick={() => handleExport("clicks")}>
+                Export clicks ({EXPORT_CLICKS_DAYS}d)
+              </Button>
+            </>
+          )}
+          {canCreate && (
+            <Link href="/dashboard/import" className={buttonVariants({ variant: "outline" })}>
+              Import
+            </Link>
+          )}
+          <Link href="/dashboard/collections" className={buttonVariants({ variant: "outline" })}>
+            Collections
+          </Link>
+          <Link href="/dashboard/api-keys" className={buttonVariants({ variant: "outline" })}>
+            API keys
+          </Link>
+          {canEdit && (
+            <Link href="/dashboard/webhooks" className={buttonVariants({ variant: "outline" })}>
+              Webhooks
+            </Link>
+          )}
+        </div>
+      )}
+
+      {view === "links" && (utmFilter || folderFilter || tagFilter) && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Filtered by</span>
+          {folderFilter && (
+            <Badge variant="secondary">
+              Folder:{" "}
+              {folderFilter === UNFILED_FOLDER ? "Unfiled" : folderNames.get(folderFilter) ?? "…"}
+            </Badge>
+          )}
+          {tagFilter && <Badge variant="secondary">#{tagFilter}</Badge>}
+          {utmFilter && (
+            <Badge variant="secondary">
+              {UTM_LABELS[utmFilter.field]}: {utmFilter.value}
+            </Badge>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setUtmFilter(null);
+              setFolderFilter(null);
+              setTagFilter(null);
+            }}
+          >
+            Clear filter
+          </Button>
+        </div>
+      )}
+
+      {view === "trash" ? (
+        <TrashList />
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[14rem_1fr] lg:items-start">
+          <LinkSidebar
+            folderFilter={folderFilter}
+            tagFilter={tagFilter}
+            onFolderChange={setFolderFilter}
+            onTagChange={setTagFilter}
+          />
+          <div className="min-w-0">
+            {isLoading ? (
+              <Card>
+                <CardContent className="py-6 text-sm text-muted-foreground">
+                  Loading links…
+                </CardContent>
+              </Card>
+            ) : errorMessage ? (
+              <Card>
+                <CardContent className="py-6 text-sm text-red-600">
+                  {errorMessage}
+                </CardContent>
+              </Card>
+            ) : links.length === 0 ? (
+              <Card>
+                <CardContent className="py-6 text-sm text-muted-foreground">
+                  {debouncedSearch || utmFilter || folderFilter || tagFilter
+                    ? "No links match the current search or filter."
+                    : "No links yet. Create your first shortened URL to see it here."}
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Your links</CardTitle>
+                  <CardDescription>
+                    All active links for your account.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Short link</TableHead>
+                        <TableHead>Original URL</TableHead>
+                        <TableHead>Clicks</TableHead>
+                        <TableHead>Created</TableHead>
+                        <TableHead>Expires</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {links.map((link) => {
+                        const isPending = link.shortCode === "pending";
+                        const isExpired =
+                          (!!link.expiresAt && new Date(link.expiresAt) <= new Date()) ||
+                          (link.maxClicks !== null && link.clicks >= link.maxClicks);
+                        // A changed alias resolves alongside the original short code
+                        const linkCode = link.customAlias ?? link.shortCode;
+                        const shortLinkLabel = baseUrl
+                          ? `${baseUrl}/l/${linkCode}`
+                          : `/l/${linkCode}`;
+
+                        return (
+                          <TableRow key={link.id}>
+                            <TableCell className="font-medium">
+                              {isPending ? (
+                                <span className="text-muted-foreground">Generating…</span>
+                              ) : (
+                                <a
+                                  className="text-primary hover:underline"
+                                  href={shortLinkLabel}
+                                  target="_blank"
+                                  rel="noreferrer"
+                                >
+                                  {shortLinkLabel}
+                                </a>
+                              )}
+                              {link.customAlias && !isPending && (
+                                <div className="text-xs text-muted-foreground">
+                                  Alias: {link.customAlias}
+                                </div>
+                              )}
+                              {link.hasPassword && (
+                                <Badge variant="outline" className="mt-1">
+                                  Password protected
+                                </Badge>
+                              )}
+                              {link.geoRules.length > 0 && (
+                                <Badge
+                                  variant="outline"
+                                  className="mt-1"
+                                  title={link.geoRules.map((rule) => `${rule.country}: ${rule.url}`).join("\n")}
+                                >
+                                  Geo-targeted ({link.geoRules.length})
+                                </Badge>
+                              )}
+                              {link.variants.length > 0 && (
+                                <Badge variant="outline" className="mt-1">
+                                  A/B split ({link.variants.length})
+                                </Badge>
+                              )}
+                              {link.deviceRules.length > 0 && (
+                                <Badge variant="outline" className="mt-1">
+                                  Device rules: {link.deviceRules.map((rule) => DEVICE_TARGET_LABELS[rule.device]).join(", ")}
+                                </Badge>
+                              )}
+                              {link.folderId && folderNames.has(link.folderId) && (
+                                <div className="text-xs text-muted-foreground">
+                                  Folder: {folderNames.get(link.folderId)}
+                                </div>
+                              )}
+                              <div className="mt-1 flex flex-wrap gap-1">
+                                {link.tags.map((tag) => (
+                                  <Badge key={tag} variant="outline" asChild>
+                                    <button
+                                      type="button"
+                                      title="Show links with this tag"
+                                      onClick={() => setTagFilter(tag)}
+                                    >
+                                      #{tag}
+                                    </button>
+                                  </Badge>
+                                ))}
+                                {UTM_FIELDS.map((field) => {
+                                  const value = link[field];
+                                  if (!value) return null;
+                                  return (
+                                    <Badge key={field} variant="secondary" asChild>
+                                      <button
+                                        type="button"
+                                        title={`Show links with this ${UTM_LABELS[field].toLowerCase()}`}
+                                        onClick={() => setUtmFilter({ field, value })}
+                                      >
+                                        {UTM_LABELS[field]}: {value}
+                                      </button>
+                                    </Badge>
+                                  );
+                                })}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <a
+                                className="text-muted-foreground hover:underline"
+                                href={link.originalUrl}
+                                target="_blank"
+                                rel="noreferrer"
+                              >
+                                {link.originalUrl}
+                              </a>
+                            </TableCell>
+                            <TableCell>
+                              {link.maxClicks !== null
+                                ? `${link.clicks} / ${link.maxClicks}`
+                                : link.clicks}
+                            </TableCell>
+                            <TableCell>
+                              {new Date(link.createdAt).toLocaleDateString()}
+                            </TableCell>
+                            <TableCell>
+                              {link.expiresAt
+                                ? new Date(link.expiresAt).toLocaleString()
+                                : "Never"}
+                            </TableCell>
+                            <TableCell>
+                              {isExpired ? (
+                                <Badge variant="secondary">Expired</Badge>
+                              ) : link.isActive ? (
+                                <Badge className="bg-emerald-100 text-emerald-700">
+                                  Active
+                                </Badge>
+                              ) : (
+                                <Badge variant="secondary">Disabled</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="space-x-2 text-right">
+                              {!isPending && (
+                                <Link
+                                  href={`/dashboard/links/${link.id}`}
+                                  className={buttonVariants({ variant: "outline", size: "sm" })}
+                                >
+                                  Analytics
+                                </Link>
+                              )}
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setQrLink(link)}
+                                disabled={isPending}
+                              >
+                                QR
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setEditingLink(link)}
+                                disabled={isPending || !canEdit}
+                              >
+                                Edit
+                              </Button>
+                              <Button
+                                variant="default"
+                                size="sm"
+                                className="bg-red-600 hover:bg-red-700"
+                                onClick={() => setDeleteConfirmId(link.id)}
+                                disabled={
+                                  deleteMutation.isPending ||
+                                  isPending ||
+                                  !hasPermission(role, "delete", {
+                                    isCreator: link.userId === userId,
+                                  })
+                                }
+                              >
+                                Delete
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                  <div ref={loadMoreRef} className="pt-4 text-center text-xs text-muted-foreground">
+                    {isFetchingNextPage && "Loading more…"}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      )}
+
+      {editingLink && (
+        <EditLinkDialog
+          link={editingLink}
+          canChangeActive={hasPermission(role, "delete", {
+            isCreator: editingLink.userId === userId,
+          })}
+          onClose={() => setEditingLink(null)}
+        />
+      )}
+
+      {qrLink && <QrDialog link={qrLink} onClose={() => setQrLink(null)} />}
+
       {deleteConfirmId && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
           <Card className="w-96 shadow-lg">
             <CardHeader>
               <CardTitle>Delete Link?</CardTitle>
               <CardDescription>
-                This action cannot be undone. The link will be permanently disabled.
+                The link will stop redirecting and move to the trash, where it can be
+                restored until it is permanently purged.
               </CardDescription>
             </CardHeader>
             <CardContent className="flex gap-3 justify-end">
@@ -0,0 +1,133 @@
+"use client";
+
+import { Button, buttonVariants } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getQrCodeUrl, type ShortenedUrl } from "@/data/links";
+import { QR_ERROR_CORRECTION_LEVELS, QR_FORMATS, type QrFormat, type QrOptions } from "@/lib/qr";
+import { useState } from "react";
+
+type QrDialogProps = {
+  link: ShortenedUrl;
+  onClose: () => void;
+};
+
+const SIZES = [256, 512, 1024, 2048];
+
+const ERROR_CORRECTION_LABELS: Record<QrOptions["ecc"], string> = {
+  L: "Low (7%)",
+  M: "Medium (15%)",
+  Q: "Quartile (25%)",
+  H: "High (30%)",
+};
+
+const selectClassName =
+  "border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs";
+
+export default function QrDialog({ link, onClose }: QrDialogProps) {
+  const [format, setFormat] = useState<QrFormat>("png");
+  const [size, setSize] = useState(512);
+  const [ecc, setEcc] = useState<QrOptions["ecc"]>("M");
+  const [fg, setFg] = useState("#000000");
+  const [bg, setBg] = useState("#ffffff");
+
+  const options = { size, ecc, fg, bg };
+  // The preview is always SVG so it stays sharp at any zoom level
+  const previewUrl = getQrCodeUrl(link.id, { ...options, format: "svg" });
+  const downloadUrl = getQrCodeUrl(link.id, { ...options, format }, true);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-lg shadow-lg" role="dialog" aria-modal="true" aria-labelledby="qr-dialog-title">
+        <CardHeader>
+          <CardTitle id="qr-dialog-title">QR code</CardTitle>
+          <CardDescription>Scans to /l/{link.shortCode}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex justify-center rounded-md border p-4" style={{ background: bg }}>
+            {/* eslint-disable-next-line @next/next/no-img-element -- served by our own API route */}
+            <img src={previewUrl} alt={`QR code for /l/${link.shortCode}`} className="h-48 w-48" />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="qr-format">
+                Format
+              </label>
+              <select
+                id="qr-format"
+                className={selectClassName}
+                value={format}
+                onChange={(event) => setFormat(event.target.value as QrFormat)}
+              >
+                {QR_FORMATS.map((value) => (
+                  <option key={value} value={value}>
+                    {value.toUpperCase()}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="qr-size">
+                Size
+              </label>
+              <select
+                id="qr-size"
+                className={selectClassName}
+                value={size}
+                onChange={(event) => setSize(Number(event.target.value))}
+              >
+                {SIZES.map((value) => (
+                  <option key={value} value={value}>
+                    {value} × {value}px
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="qr-ecc">
+                Error correction
+              </label>
+              <select
+                id="qr-ecc"
+                className={selectClassName}
+                value={ecc}
+                onChange={(event) => setEcc(event.target.value as QrOptions["ecc"])}
+              >
+                {QR_ERROR_CORRECTION_LEVELS.map((value) => (
+                  <option key={value} value={value}>
+                    {ERROR_CORRECTION_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-4">
+              <label className="space-y-2 text-xs font-medium text-muted-foreground">
+                <span className="block">Foreground</span>
+                <input type="color" value={fg} onChange={(event) => setFg(event.target.value)} />
+              </label>
+              <label className="space-y-2 text-xs font-medium text-muted-foreground">
+                <span className="block">Background</span>
+                <input type="color" value={bg} onChange={(event) => setBg(event.target.value)} />
+              </label>
+            </div>
+          </div>
+
+          <div className="flex gap-3 justify-end">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            <a href={downloadUrl} download className={buttonVariants()}>
+              Download {format.toUpperCase()}
+            </a>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
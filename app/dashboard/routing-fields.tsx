@@ -0,0 +1,219 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DEVICE_TARGETS,
+  DEVICE_TARGET_LABELS,
+  type DeviceRule,
+  type DeviceTarget,
+} from "@/lib/device-targeting";
+import { MAX_GEO_RULES, type GeoRule } from "@/lib/geo-targeting";
+import { MAX_LINK_VARIANTS, type LinkVariantInput } from "@/lib/link-variants";
+
+/**
+ * Normalize geo rules typed into the editor
+ * Country codes are uppercased and rows left completely empty are dropped;
+ * anything else is sent as-is so the server can report what is wrong with it.
+ */
+export function cleanGeoRules(rules: GeoRule[]): GeoRule[] {
+  return rules
+    .map((rule) => ({ country: rule.country.trim().toUpperCase(), url: rule.url.trim() }))
+    .filter((rule) => rule.country || rule.url);
+}
+
+type GeoRulesFieldsProps = {
+  idPrefix: string;
+  rules: GeoRule[];
+  onChange: (rules: GeoRule[]) => void;
+  disabled?: boolean;
+};
+
+// Country -> destination editor shared by the create form and the edit dialog
+export function GeoRulesFields({ idPrefix, rules, onChange, disabled }: GeoRulesFieldsProps) {
+  const updateRule = (index: number, update: Partial<GeoRule>) =>
+    onChange(rules.map((rule, position) => (position === index ? { ...rule, ...update } : rule)));
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Visitors from these countries go to their own destination; everyone else uses the
+        original URL.
+      </p>
+      {rules.map((rule, index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            id={`${idPrefix}-geo-country-${index}`}
+            aria-label="Country code"
+            className="w-20 uppercase"
+            maxLength={2}
+            placeholder="DE"
+            value={rule.country}
+            onChange={(event) => updateRule(index, { country: event.target.value })}
+            disabled={disabled}
+          />
+          <Input
+            id={`${idPrefix}-geo-url-${index}`}
+            aria-label="Destination URL"
+            type="url"
+            placeholder="https://example.com/de"
+            value={rule.url}
+            onChange={(event) => updateRule(index, { url: event.target.value })}
+            disabled={disabled}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(rules.filter((_, position) => position !== index))}
+            disabled={disabled}
+          >
+            Remove
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rules, { country: "", url: "" }])}
+        disabled={disabled || rules.length >= MAX_GEO_RULES}
+      >
+        Add country rule
+      </Button>
+    </div>
+  );
+}
+
+export function cleanDeviceRules(rules: DeviceRule[]): DeviceRule[] {
+  return rules
+    .map((rule) => ({ ...rule, url: rule.url.trim() }))
+    .filter((rule) => rule.url);
+}
+
+const DEVICE_PLACEHOLDERS: Record<DeviceTarget, string> = {
+  ios: "https://apps.apple.com/app/id…",
+  android: "https://play.google.com/store/apps/details?id=…",
+  desktop: "https://example.com",
+};
+
+type DeviceRulesFieldsProps = {
+  idPrefix: string;
+  rules: DeviceRule[];
+  onChange: (rules: DeviceRule[]) => void;
+  disabled?: boolean;
+};
+
+// One optional destination per platform; clearing a field removes its rule
+export function DeviceRulesFields({ idPrefix, rules, onChange, disabled }: DeviceRulesFieldsProps) {
+  const urlFor = (device: DeviceTarget) => rules.find((rule) => rule.device === device)?.url ?? "";
+
+  const setUrl = (device: DeviceTarget, url: string) =>
+    onChange(
+      DEVICE_TARGETS.map((target) => ({
+        device: target,
+        url: target === device ? url : urlFor(target),
+      })).filter((rule) => rule.url)
+    );
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Send each platform to its own destination (for example an app store). Device rules
+        are checked before geo rules.
+      </p>
+      {DEVICE_TARGETS.map((device) => (
+        <div key={device} className="space-y-1">
+          <label className="text-xs font-medium text-muted-foreground" htmlFor={`${idPrefix}-device-${device}`}>
+            {DEVICE_TARGET_LABELS[device]}
+          </label>
+          <Input
+            id={`${idPrefix}-device-${device}`}
+            type="url"
+            placeholder={DEVICE_PLACEHOLDERS[device]}
+            value={urlFor(device)}
+            onChange={(event) => setUrl(device, event.target.value)}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function cleanVariants(variants: LinkVariantInput[]): LinkVariantInput[] {
+  return variants
+    .map((variant) => ({ ...variant, url: variant.url.trim() }))
+    .filter((variant) => variant.url);
+}
+
+type VariantsFieldsProps = {
+  idPrefix: string;
+  variants: LinkVariantInput[];
+  onChange: (variants: LinkVariantInput[]) => void;
+  disabled?: boolean;
+};
+
+// Weighted A/B destinations; existing variants keep their ids so click history stays attached
+export function VariantsFields({ idPrefix, variants, onChange, disabled }: VariantsFieldsProps) {
+  const totalWeight = variants.reduce((total, variant) => total + (variant.weight || 0), 0);
+  const updateVariant = (index: number, update: Partial<LinkVariantInput>) =>
+    onChange(
+      variants.map((variant, position) => (position === index ? { ...variant, ...update } : variant))
+    );
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Split visitors across several destinations by weight. Each visitor keeps the
+        variant they were first sent to.
+      </p>
+      {variants.map((variant, index) => (
+        <div key={variant.id ?? index} className="flex items-center gap-2">
+          <Input
+            id={`${idPrefix}-variant-url-${index}`}
+            aria-label="Variant URL"
+            type="url"
+            placeholder="https://example.com/landing-b"
+            value={variant.url}
+            onChange={(event) => updateVariant(index, { url: event.target.value })}
+            disabled={disabled}
+          />
+          <Input
+            id={`${idPrefix}-variant-weight-${index}`}
+            aria-label="Weight"
+            type="number"
+            min={1}
+            max={1000}
+            step={1}
+            className="w-20"
+            value={variant.weight}
+            onChange={(event) => updateVariant(index, { weight: Number(event.target.value) })}
+            disabled={disabled}
+          />
+          <span className="w-10 text-right text-xs text-muted-foreground">
+            {totalWeight ? Math.round(((variant.weight || 0) / totalWeight) * 100) : 0}%
+          </span>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(variants.filter((_, position) => position !== index))}
+            disabled={disabled}
+          >
+            Remove
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...variants, { url: "", weight: 1 }])}
+        disabled={disabled || variants.length >= MAX_LINK_VARIANTS}
+      >
+        Add variant
+      </Button>
+    </div>
+  );
+}
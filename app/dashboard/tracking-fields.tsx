@@ -0,0 +1,120 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import type { QueryPrecedence } from "@/lib/redirect-url";
+import { UTM_FIELDS, UTM_LABELS, UTM_QUERY_PARAMS, applyUtmParams, type UtmField } from "@/lib/utm";
+
+export type UtmValues = Record<UtmField, string>;
+
+export const EMPTY_UTM_VALUES: UtmValues = {
+  utmSource: "",
+  utmMedium: "",
+  utmCampaign: "",
+  utmTerm: "",
+  utmContent: "",
+};
+
+type UtmFieldsProps = {
+  idPrefix: string;
+  originalUrl: string;
+  values: UtmValues;
+  onChange: (values: UtmValues) => void;
+  disabled?: boolean;
+};
+
+function previewUrl(originalUrl: string, values: UtmValues): string | null {
+  try {
+    return applyUtmParams(originalUrl, values);
+  } catch {
+    return null;
+  }
+}
+
+type QueryForwardingFieldsProps = {
+  idPrefix: string;
+  forwardQuery: boolean;
+  queryPrecedence: QueryPrecedence;
+  onChange: (value: { forwardQuery: boolean; queryPrecedence: QueryPrecedence }) => void;
+  disabled?: boolean;
+};
+
+// Query-string passthrough options shared by the create form and the edit dialog
+export function QueryForwardingFields({
+  idPrefix,
+  forwardQuery,
+  queryPrecedence,
+  onChange,
+  disabled,
+}: QueryForwardingFieldsProps) {
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm" htmlFor={`${idPrefix}-forward-query`}>
+        <input
+          id={`${idPrefix}-forward-query`}
+          type="checkbox"
+          checked={forwardQuery}
+          onChange={(event) => onChange({ forwardQuery: event.target.checked, queryPrecedence })}
+          disabled={disabled}
+        />
+        Forward visitor query parameters (e.g. /l/code?ref=newsletter)
+      </label>
+      {forwardQuery && (
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-muted-foreground" htmlFor={`${idPrefix}-query-precedence`}>
+            When a parameter is already on the destination URL
+          </label>
+          <select
+            id={`${idPrefix}-query-precedence`}
+            className="border-input dark:bg-input/30 h-9 w-full rounded-md border bg-transparent px-3 text-sm shadow-xs"
+            value={queryPrecedence}
+            onChange={(event) =>
+              onChange({ forwardQuery, queryPrecedence: event.target.value as QueryPrecedence })
+            }
+            disabled={disabled}
+          >
+            <option value="link">Keep the link&apos;s value</option>
+            <option value="incoming">Use the visitor&apos;s value</option>
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// UTM builder shared by the create form and the edit dialog
+export default function UtmFields({
+  idPrefix,
+  originalUrl,
+  values,
+  onChange,
+  disabled,
+}: UtmFieldsProps) {
+  const preview = originalUrl ? previewUrl(originalUrl, values) : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        {UTM_FIELDS.map((field) => (
+          <div key={field} className="space-y-1">
+            <label className="text-xs font-medium text-muted-foreground" htmlFor={`${idPrefix}-${field}`}>
+              {UTM_LABELS[field]}
+            </label>
+            <Input
+              id={`${idPrefix}-${field}`}
+              maxLength={255}
+              placeholder={UTM_QUERY_PARAMS[field]}
+              value={values[field]}
+              onChange={(event) => onChange({ ...values, [field]: event.target.value })}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+      {preview && (
+        <p className="text-xs text-muted-foreground break-all">
+          Visitors are sent to: {preview}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { fetchLinks, LinksPage } from "@/data/links";
+import { restoreLinkAction } from "./actions";
+import {
+  InfiniteData,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+
+type LinksData = InfiniteData<LinksPage, string | null>;
+
+export default function TrashList() {
+  const queryClient = useQueryClient();
+
+  const {
+    data,
+    isLoading,
+    isError,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["links", "inactive"],
+    queryFn: ({ pageParam }) => fetchLinks({ status: "inactive", cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const links = data?.pages.flatMap((page) => page.data) ?? [];
+
+  const restoreMutation = useMutation({
+    mutationFn: restoreLinkAction,
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: ["links", "inactive"] });
+      const previous = queryClient.getQueryData<LinksData>(["links", "inactive"]);
+      queryClient.setQueryData<LinksData>(["links", "inactive"], (current) =>
+        current && {
+          ...current,
+          pages: current.pages.map((page) => ({
+            ...page,
+            data: page.data.filter((link) => link.id !== id),
+          })),
+        }
+      );
+      return { previous };
+    },
+    onError: (_err, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(["links", "inactive"], context.previous);
+      }
+    },
+    onSuccess: (result) => {
+      if (!result.success) {
+        console.error("Restore failed:", result.error);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["links"] });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-sm text-muted-foreground">
+          Loading trash…
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isError) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-sm text-red-600">
+          {error instanceof Error ? error.message : "Failed to load trash"}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (links.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-sm text-muted-foreground">
+          Trash is empty. Deleted links show up here until they are permanently purged.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Trash</CardTitle>
+        <CardDescription>
+          Deleted and disabled links. Restore a link to make it redirect again; links left
+          here are permanently deleted after the retention period.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Short code</TableHead>
+              <TableHead>Original URL</TableHead>
+              <TableHead>Clicks</TableHead>
+              <TableHead>Deleted</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {links.map((link) => (
+              <TableRow key={link.id}>
+                <TableCell className="font-medium">/l/{link.shortCode}</TableCell>
+                <TableCell className="text-muted-foreground">{link.originalUrl}</TableCell>
+                <TableCell>{link.clicks}</TableCell>
+                <TableCell>
+                  {new Date(link.deactivatedAt ?? link.updatedAt).toLocaleDateString()}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(link.id)}
+                    disabled={restoreMutation.isPending}
+                  >
+                    Restore
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {hasNextPage && (
+          <div className="pt-4 text-center">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? "Loading…" : "Load more"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,402 @@
+"use client";
+
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  createWebhook,
+  deleteWebhook,
+  fetchWebhookDeliveries,
+  fetchWebhooks,
+  sendTestEvent,
+  updateWebhook,
+  type WebhookDelivery,
+  type WebhookSummary,
+} from "@/data/webhooks";
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_SIGNATURE_HEADER,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+} from "@/lib/webhooks";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import WorkspaceSwitcher from "../workspace-switcher";
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, "secondary" | "outline" | "destructive"> = {
+  succeeded: "secondary",
+  pending: "outline",
+  failed: "destructive",
+};
+
+function describeAttempt(delivery: WebhookDelivery): string {
+  if (delivery.status === "succeeded") {
+    return `Delivered (HTTP ${delivery.responseStatus})`;
+  }
+  return delivery.error ?? "Not attempted yet";
+}
+
+function DeliveryLog({ webhook }: { webhook: WebhookSummary }) {
+  const deliveriesQuery = useQuery({
+    queryKey: ["webhook-deliveries", webhook.id],
+    queryFn: () => fetchWebhookDeliveries(webhook.id),
+  });
+  const deliveries = deliveriesQuery.data ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Delivery log</CardTitle>
+        <CardDescription className="break-all">
+          The latest deliveries to {webhook.url}. Failed deliveries are retried with exponential
+          backoff for about half an hour.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {deliveriesQuery.isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading deliveries…</p>
+        ) : deliveriesQuery.isError ? (
+          <p className="text-sm text-red-600">
+            {deliveriesQuery.error instanceof Error
+              ? deliveriesQuery.error.message
+              : "Failed to load deliveries"}
+          </p>
+        ) : deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No deliveries yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Attempts</TableHead>
+                <TableHead>Last attempt</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead>Payload</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell>
+                    <code>{delivery.event}</code>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{delivery.attempts}</TableCell>
+                  <TableCell>
+                    {delivery.lastAttemptAt
+                      ? new Date(delivery.lastAttemptAt).toLocaleString()
+                      : "—"}
+                  </TableCell>
+                  <TableCell className="max-w-xs whitespace-normal text-sm">
+                    {describeAttempt(delivery)}
+                    {delivery.nextAttemptAt && delivery.status === "pending" && (
+                      <span className="block text-xs text-muted-foreground">
+                        Next attempt {new Date(delivery.nextAttemptAt).toLocaleString()}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <details>
+                      <summary className="cursor-pointer text-sm text-primary">View</summary>
+                      <pre className="mt-2 max-h-64 max-w-md overflow-auto rounded bg-muted p-2 text-xs">
+                        {JSON.stringify(delivery.payload, null, 2)}
+                      </pre>
+                    </details>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function WebhooksPage() {
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([...WEBHOOK_EVENTS]);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [logWebhookId, setLogWebhookId] = useState<string | null>(null);
+  const [testResult, setTestResult] = useState<{ webhookId: string; message: string } | null>(null);
+  const queryClient = useQueryClient();
+
+  const webhooksQuery = useQuery({ queryKey: ["webhooks"], queryFn: fetchWebhooks });
+
+  const createMutation = useMutation({
+    mutationFn: createWebhook,
+    onSuccess: (created) => {
+      setUrl("");
+      setCopied(false);
+      setCreatedSecret(created.secret);
+      queryClient.invalidateQueries({ queryKey: ["webhooks"] });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (webhook: WebhookSummary) =>
+      updateWebhook(webhook.id, { isActive: !webhook.isActive }),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["webhooks"] }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteWebhook,
+    onSettled: () => {
+      setDeleteConfirmId(null);
+      queryClient.invalidateQueries({ queryKey: ["webhooks"] });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: sendTestEvent,
+    onSuccess: (delivery, webhookId) => {
+      setTestResult({
+        webhookId,
+        message:
+          delivery.status === "succeeded"
+            ? `Test event delivered (HTTP ${delivery.responseStatus})`
+            : `Test event failed: ${delivery.error}`,
+      });
+    },
+    onError: (error, webhookId) => {
+      setTestResult({ webhookId, message: error.message });
+    },
+    onSettled: (_delivery, _error, webhookId) =>
+      queryClient.invalidateQueries({ queryKey: ["webhook-deliveries", webhookId] }),
+  });
+
+  function handleCreate(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    createMutation.mutate({ url: url.trim(), events });
+  }
+
+  function toggleEvent(webhookEvent: WebhookEvent, enabled: boolean) {
+    setEvents((current) =>
+      enabled ? [...current, webhookEvent] : current.filter((existing) => existing !== webhookEvent)
+    );
+  }
+
+  async function handleCopy() {
+    if (!createdSecret) return;
+    await navigator.clipboard.writeText(createdSecret);
+    setCopied(true);
+  }
+
+  const webhooks = webhooksQuery.data ?? [];
+  // The log closes by itself when its webhook is deleted or belongs to another workspace
+  const logWebhook = webhooks.find((webhook) => webhook.id === logWebhookId) ?? null;
+
+  return (
+    <main className="p-6 space-y-6">
+      <header className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-2">
+          <Link href="/dashboard" className="text-sm text-primary hover:underline">
+            ← Back to dashboard
+          </Link>
+          <h1 className="text-2xl font-bold">Webhooks</h1>
+          <p className="text-sm text-muted-foreground">
+            Get a signed POST request when links in this workspace are created, updated, deleted,
+            expire or are clicked. Verify the{" "}
+            <code className="rounded bg-muted px-1">{WEBHOOK_SIGNATURE_HEADER}</code> header with the
+            webhook&apos;s secret before trusting a request.
+          </p>
+        </div>
+        <WorkspaceSwitcher />
+      </header>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">New webhook</CardTitle>
+          <CardDescription>Events are sent as JSON to the URL you enter.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <form className="flex flex-col gap-3 sm:flex-row sm:items-end" onSubmit={handleCreate}>
+            <div className="flex-1 space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="webhook-url">
+                Endpoint URL
+              </label>
+              <Input
+                id="webhook-url"
+                type="url"
+                required
+                maxLength={2048}
+                placeholder="https://example.com/webhooks/links"
+                value={url}
+                onChange={(event) => setUrl(event.target.value)}
+                disabled={createMutation.isPending}
+              />
+            </div>
+            <Button type="submit" disabled={createMutation.isPending || events.length === 0}>
+              {createMutation.isPending ? "Creating…" : "Add webhook"}
+            </Button>
+          </form>
+          <fieldset className="flex flex-wrap gap-4 text-sm" disabled={createMutation.isPending}>
+            <legend className="sr-only">Events</legend>
+            {WEBHOOK_EVENTS.map((webhookEvent) => (
+              <label key={webhookEvent} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={events.includes(webhookEvent)}
+                  onChange={(event) => toggleEvent(webhookEvent, event.target.checked)}
+                />
+                {WEBHOOK_EVENT_LABELS[webhookEvent]}{" "}
+                <code className="text-xs text-muted-foreground">{webhookEvent}</code>
+              </label>
+            ))}
+          </fieldset>
+          {createMutation.error && (
+            <p className="text-sm text-red-600">{createMutation.error.message}</p>
+          )}
+          {createdSecret && (
+            <div className="space-y-2 rounded-md border bg-muted/70 px-3 py-2 text-sm">
+              <p className="text-muted-foreground">
+                Copy this signing secret now. It will not be shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 break-all">{createdSecret}</code>
+                <Button variant="outline" size="sm" onClick={handleCopy}>
+                  {copied ? "Copied" : "Copy"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="py-4">
+          {webhooksQuery.isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading webhooks…</p>
+          ) : webhooksQuery.isError ? (
+            <p className="text-sm text-red-600">
+              {webhooksQuery.error instanceof Error
+                ? webhooksQuery.error.message
+                : "Failed to load webhooks"}
+            </p>
+          ) : webhooks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No webhooks yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>URL</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {webhooks.map((webhook) => (
+                  <TableRow key={webhook.id}>
+                    <TableCell className="max-w-xs whitespace-normal break-all font-medium">
+                      {webhook.url}
+                      {testResult?.webhookId === webhook.id && (
+                        <span className="block text-xs font-normal text-muted-foreground">
+                          {testResult.message}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {webhook.events.map((webhookEvent) => (
+                          <Badge key={webhookEvent} variant="outline">
+                            {webhookEvent}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={webhook.isActive ? "secondary" : "outline"}>
+                        {webhook.isActive ? "Active" : "Paused"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{new Date(webhook.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => testMutation.mutate(webhook.id)}
+                          disabled={testMutation.isPending}
+                        >
+                          {testMutation.isPending && testMutation.variables === webhook.id
+                            ? "Sending…"
+                            : "Send test event"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setLogWebhookId(logWebhook?.id === webhook.id ? null : webhook.id)
+                          }
+                        >
+                          {logWebhook?.id === webhook.id ? "Hide deliveries" : "Deliveries"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => toggleMutation.mutate(webhook)}
+                          disabled={toggleMutation.isPending}
+                        >
+                          {webhook.isActive ? "Pause" : "Resume"}
+                        </Button>
+                        {deleteConfirmId === webhook.id ? (
+                          <Button
+                            size="sm"
+                            className="bg-red-600 hover:bg-red-700"
+                            onClick={() => deleteMutation.mutate(webhook.id)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            {deleteMutation.isPending ? "Deleting..." : "Confirm delete"}
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setDeleteConfirmId(webhook.id)}
+                          >
+                            Delete
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {(toggleMutation.error || deleteMutation.error) && (
+            <p className="mt-2 text-sm text-red-600">
+              {(toggleMutation.error ?? deleteMutation.error)?.message}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {logWebhook && <DeliveryLog webhook={logWebhook} />}
+    </main>
+  );
+}
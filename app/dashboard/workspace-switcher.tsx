@@ -0,0 +1,79 @@
+"use client";
+
+import Link from "next/link";
+import { buttonVariants } from "@/components/ui/button";
+import {
+  fetchWorkspaces,
+  getActiveWorkspaceId,
+  setActiveWorkspaceId,
+  type WorkspaceSummary,
+} from "@/data/workspaces";
+import { WORKSPACE_ROLE_LABELS } from "@/lib/workspaces";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState, useSyncExternalStore } from "react";
+
+type WorkspaceSwitcherProps = {
+  // Called with the selected workspace, or null for personal links
+  onChange?: (workspace: WorkspaceSummary | null) => void;
+};
+
+// The cookie has no change events; the switcher tracks its own changes in state
+function subscribeToCookie() {
+  return () => {};
+}
+
+export default function WorkspaceSwitcher({ onChange }: WorkspaceSwitcherProps) {
+  // undefined until the user picks a workspace here, then the picked ID
+  const [selectedId, setSelectedId] = useState<string | null | undefined>(undefined);
+  const cookieId = useSyncExternalStore(subscribeToCookie, getActiveWorkspaceId, () => null);
+  const activeId = selectedId === undefined ? cookieId : selectedId;
+  const queryClient = useQueryClient();
+
+  const workspacesQuery = useQuery({ queryKey: ["workspaces"], queryFn: fetchWorkspaces });
+  const workspaces = workspacesQuery.data;
+  const active = workspaces?.find((workspace) => workspace.id === activeId) ?? null;
+
+  // Fall back to personal links when the workspace is gone or the user was removed from it
+  const isStale = !!workspaces && !!activeId && !active;
+  useEffect(() => {
+    if (isStale) {
+      setActiveWorkspaceId(null);
+      queryClient.resetQueries({ predicate: (query) => query.queryKey[0] !== "workspaces" });
+    }
+  }, [isStale, queryClient]);
+
+  useEffect(() => {
+    onChange?.(active);
+  }, [active, onChange]);
+
+  const handleChange = (workspaceId: string) => {
+    setActiveWorkspaceId(workspaceId || null);
+    setSelectedId(workspaceId || null);
+    // Everything except the workspace list itself belongs to the previous workspace
+    queryClient.resetQueries({ predicate: (query) => query.queryKey[0] !== "workspaces" });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        aria-label="Workspace"
+        className="border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs"
+        value={active?.id ?? ""}
+        onChange={(event) => handleChange(event.target.value)}
+      >
+        <option value="">Personal links</option>
+        {(workspaces ?? []).map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name} ({WORKSPACE_ROLE_LABELS[workspace.role]})
+          </option>
+        ))}
+      </select>
+      <Link
+        href="/dashboard/workspaces"
+        className={buttonVariants({ variant: "outline", size: "sm" })}
+      >
+        Workspaces
+      </Link>
+    </div>
+  );
+}
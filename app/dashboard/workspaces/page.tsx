@@ -0,0 +1,312 @@
+"use client";
+
+import Link from "next/link";
+import { useAuth } from "@clerk/nextjs";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  addWorkspaceMember,
+  createWorkspace,
+  fetchWorkspaceMembers,
+  fetchWorkspaces,
+  removeWorkspaceMember,
+  updateWorkspaceMember,
+  type WorkspaceSummary,
+} from "@/data/workspaces";
+import {
+  WORKSPACE_ROLES,
+  WORKSPACE_ROLE_LABELS,
+  canManageMembers,
+  type WorkspaceRole,
+} from "@/lib/workspaces";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+
+const selectClassName =
+  "border-input dark:bg-input/30 h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs";
+
+function MembersCard({ workspace }: { workspace: WorkspaceSummary }) {
+  const { userId } = useAuth();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>("editor");
+  const [removeConfirmId, setRemoveConfirmId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const isOwner = canManageMembers(workspace.role);
+  const membersQueryKey = ["workspace-members", workspace.id];
+
+  const membersQuery = useQuery({
+    queryKey: membersQueryKey,
+    queryFn: () => fetchWorkspaceMembers(workspace.id),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: membersQueryKey });
+    queryClient.invalidateQueries({ queryKey: ["workspaces"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => addWorkspaceMember(workspace.id, { email: email.trim(), role }),
+    onSuccess: () => {
+      setEmail("");
+      invalidate();
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (input: { userId: string; role: WorkspaceRole }) =>
+      updateWorkspaceMember(workspace.id, input.userId, input.role),
+    onSettled: invalidate,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (memberId: string) => removeWorkspaceMember(workspace.id, memberId),
+    onSettled: () => {
+      setRemoveConfirmId(null);
+      invalidate();
+    },
+  });
+
+  function handleAdd(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    addMutation.mutate();
+  }
+
+  const members = membersQuery.data ?? [];
+  const mutationError = updateMutation.error ?? removeMutation.error;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">{workspace.name}</CardTitle>
+        <CardDescription>
+          You are {workspace.role === "owner" ? "an" : "a"}{" "}
+          {WORKSPACE_ROLE_LABELS[workspace.role].toLowerCase()} of this workspace.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isOwner && (
+          <form className="flex flex-col gap-3 sm:flex-row sm:items-end" onSubmit={handleAdd}>
+            <div className="flex-1 space-y-2">
+              <label
+                className="text-xs font-medium text-muted-foreground"
+                htmlFor={`member-email-${workspace.id}`}
+              >
+                Add a member by email
+              </label>
+              <Input
+                id={`member-email-${workspace.id}`}
+                type="email"
+                required
+                placeholder="teammate@example.com"
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                disabled={addMutation.isPending}
+              />
+            </div>
+            <select
+              aria-label="Role"
+              className={selectClassName}
+              value={role}
+              onChange={(event) => setRole(event.target.value as WorkspaceRole)}
+              disabled={addMutation.isPending}
+            >
+              {WORKSPACE_ROLES.map((option) => (
+                <option key={option} value={option}>
+                  {WORKSPACE_ROLE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+            <Button type="submit" disabled={addMutation.isPending}>
+              {addMutation.isPending ? "Adding…" : "Add member"}
+            </Button>
+          </form>
+        )}
+        {addMutation.error && <p className="text-sm text-red-600">{addMutation.error.message}</p>}
+        {mutationError && <p className="text-sm text-red-600">{mutationError.message}</p>}
+
+        {membersQuery.isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading members…</p>
+        ) : membersQuery.isError ? (
+          <p className="text-sm text-red-600">
+            {membersQuery.error instanceof Error
+              ? membersQuery.error.message
+              : "Failed to load members"}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map((member) => {
+                const isSelf = member.userId === userId;
+                return (
+                  <TableRow key={member.userId}>
+                    <TableCell>
+                      <div className="font-medium">
+                        {member.name ?? member.email ?? member.userId}
+                        {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                      </div>
+                      {member.name && member.email && (
+                        <div className="text-xs text-muted-foreground">{member.email}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {isOwner ? (
+                        <select
+                          aria-label={`Role for ${member.email ?? member.userId}`}
+                          className={selectClassName}
+                          value={member.role}
+                          onChange={(event) =>
+                            updateMutation.mutate({
+                              userId: member.userId,
+                              role: event.target.value as WorkspaceRole,
+                            })
+                          }
+                          disabled={updateMutation.isPending}
+                        >
+                          {WORKSPACE_ROLES.map((option) => (
+                            <option key={option} value={option}>
+                              {WORKSPACE_ROLE_LABELS[option]}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        WORKSPACE_ROLE_LABELS[member.role]
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {(isOwner || isSelf) &&
+                        (removeConfirmId === member.userId ? (
+                          <Button
+                            size="sm"
+                            className="bg-red-600 hover:bg-red-700"
+                            onClick={() => removeMutation.mutate(member.userId)}
+                            disabled={removeMutation.isPending}
+                          >
+                            {removeMutation.isPending ? "Removing..." : "Confirm"}
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setRemoveConfirmId(member.userId)}
+                          >
+                            {isSelf ? "Leave" : "Remove"}
+                          </Button>
+                        ))}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function WorkspacesPage() {
+  const [name, setName] = useState("");
+  const queryClient = useQueryClient();
+
+  const workspacesQuery = useQuery({
+    queryKey: ["workspaces"],
+    queryFn: fetchWorkspaces,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createWorkspace,
+    onSuccess: () => {
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["workspaces"] });
+    },
+  });
+
+  function handleCreate(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    createMutation.mutate({ name: name.trim() });
+  }
+
+  const workspaces = workspacesQuery.data ?? [];
+
+  return (
+    <main className="p-6 space-y-6">
+      <header className="space-y-2">
+        <Link href="/dashboard" className="text-sm text-primary hover:underline">
+          ← Back to dashboard
+        </Link>
+        <h1 className="text-2xl font-bold">Workspaces</h1>
+        <p className="text-sm text-muted-foreground">
+          Share links with your team. Owners manage members, editors create and edit links
+          (and delete their own) and viewers can see links and analytics.
+        </p>
+      </header>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">New workspace</CardTitle>
+          <CardDescription>You become its owner and can add members afterwards.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <form className="flex flex-col gap-3 sm:flex-row sm:items-end" onSubmit={handleCreate}>
+            <div className="flex-1 space-y-2">
+              <label className="text-xs font-medium text-muted-foreground" htmlFor="workspace-name">
+                Name
+              </label>
+              <Input
+                id="workspace-name"
+                required
+                maxLength={100}
+                placeholder="Marketing"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                disabled={createMutation.isPending}
+              />
+            </div>
+            <Button type="submit" disabled={createMutation.isPending}>
+              {createMutation.isPending ? "Creating…" : "Create"}
+            </Button>
+          </form>
+          {createMutation.error && (
+            <p className="text-sm text-red-600">{createMutation.error.message}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {workspacesQuery.isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading workspaces…</p>
+      ) : workspacesQuery.isError ? (
+        <p className="text-sm text-red-600">
+          {workspacesQuery.error instanceof Error
+            ? workspacesQuery.error.message
+            : "Failed to load workspaces"}
+        </p>
+      ) : workspaces.length === 0 ? (
+        <p className="text-sm text-muted-foreground">You are not in any workspaces yet.</p>
+      ) : (
+        workspaces.map((workspace) => <MembersCard key={workspace.id} workspace={workspace} />)
+      )}
+    </main>
+  );
+}
@@ -1,5 +1,46 @@
-import { NextRequest, NextResponse } from "next/server";
-import { getLinkByCode, incrementClicks } from "@/data/links-db";
+import { NextRequest, NextResponse, after } from "next/server";
+import { getLinkByCode, getLinkPasswordHash } from "@/data/links-db";
+import {
+  getUnavailableReason,
+  resolveClick,
+  type UnavailableReason,
+} from "@/data/link-resolution";
+import { emitLinkExpired } from "@/data/webhook-delivery";
+import { getClientIp } from "@/lib/request-info";
+import { rateLimiter } from "@/lib/rate-limit";
+import { verifyPassword } from "@/lib/password";
+import {
+  LINK_ACCESS_TTL_SECONDS,
+  createLinkAccessToken,
+  getLinkAccessCookieName,
+  renderPasswordPage,
+  verifyLinkAccessToken,
+} from "@/lib/link-access";
+import {
+  VARIANT_COOKIE_TTL_SECONDS,
+  getVariantCookieName,
+} from "@/lib/link-variants";
+
+const UNAVAILABLE_RESPONSES: Record<UnavailableReason, { error: string; status: number }> = {
+  missing: { error: "Shortened URL not found", status: 404 },
+  disabled: { error: "This link has been disabled", status: 410 },
+  expired: { error: "This link has expired", status: 410 },
+};
+
+function unavailableResponse(reason: UnavailableReason): NextResponse {
+  const { error, status } = UNAVAILABLE_RESPONSES[reason];
+  return NextResponse.json({ error }, { status });
+}
+
+function passwordPageResponse(shortCode: string, status: number, error?: string): NextResponse {
+  return new NextResponse(renderPasswordPage(shortCode, error), {
+    status,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
 
 export async function GET(
   request: NextRequest,
@@ -14,48 +55,37 @@ export async function GET(
     const url = await getLinkByCode(normalizedShortCode);
     console.log(`[REDIRECT] Found URL:`, url);
 
-    if (!url) {
-      return NextResponse.json(
-        { error: "Shortened URL not found" },
-        { status: 404 }
-      );
-    }
-
-    // Check if URL is active
-    if (!url.isActive) {
-      return NextResponse.json(
-        { error: "This link has been disabled" },
-        { status: 410 }
-      );
+    const unavailable = getUnavailableReason(url);
+    if (!url || unavailable) {
+      // The first visit after a link expires reports it, unless the last click already did
+      if (url && unavailable === "expired") {
+        after(() => emitLinkExpired(url));
+      }
+      return unavailableResponse(unavailable ?? "missing");
     }
 
-    // Check if URL has expired
-    if (url.expiresAt && new Date() > new Date(url.expiresAt)) {
-      return NextResponse.json(
-        { error: "This link has expired" },
-        { status: 410 }
-      );
+    // Protected links show the password prompt until a valid access cookie is present
+    if (url.hasPassword) {
+      const passwordHash = await getLinkPasswordHash(url.id);
+      const token = request.cookies.get(getLinkAccessCookieName(url.shortCode))?.value;
+      if (!passwordHash || !verifyLinkAccessToken(token, url.id, passwordHash)) {
+        return passwordPageResponse(shortcode, 401);
+      }
     }
 
-    // Increment click count using helper
+    // Count the click and pick the destination; fails once the click limit is reached
     console.log(`[REDIRECT] Incrementing clicks for: ${normalizedShortCode}`);
-    const clickIncremented = await incrementClicks(normalizedShortCode);
-    if (!clickIncremented) {
-      console.warn(`[REDIRECT] Failed to increment clicks - shortCode might not exist: ${normalizedShortCode}`);
-    } else {
-      console.log(`[REDIRECT] Clicks incremented successfully`);
+    const variantCookieName = getVariantCookieName(url.shortCode);
+    const stickyVariantId = request.cookies.get(variantCookieName)?.value;
+    const resolved = await resolveClick(request, url, stickyVariantId);
+    if (!resolved) {
+      // Another request used up the last click since the link was loaded
+      return unavailableResponse("expired");
     }
+    const { destinationUrl, variant } = resolved;
 
     // Validate URL protocol before redirecting
-    try {
-      const urlToRedirect = new URL(url.originalUrl);
-      if (urlToRedirect.protocol !== 'http:' && urlToRedirect.protocol !== 'https:') {
-        return NextResponse.json(
-          { error: "Invalid redirect URL" },
-          { status: 400 }
-        );
-      }
-    } catch {
+    if (!destinationUrl) {
       return NextResponse.json(
         { error: "Invalid redirect URL" },
         { status: 400 }
@@ -64,7 +94,19 @@ export async function GET(
 
     // Redirect to the original URL with 307 (temporary) to prevent browser caching
     // This ensures each click hits our server so we can track the count
-    return NextResponse.redirect(url.originalUrl, { status: 307 });
+    const response = NextResponse.redirect(destinationUrl, { status: 307 });
+
+    // Remember the variant so the visitor keeps seeing the same destination
+    if (variant && variant.id !== stickyVariantId) {
+      response.cookies.set(variantCookieName, variant.id, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax",
+        path: "/l",
+        maxAge: VARIANT_COOKIE_TTL_SECONDS,
+      });
+    }
+    return response;
   } catch (error) {
     console.error("Redirect error:", error);
     return NextResponse.json(
@@ -73,3 +115,63 @@ export async function GET(
     );
   }
 }
+
+// Password form submission for protected links
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ shortcode: string }> }
+) {
+  try {
+    const { shortcode } = await params;
+    const normalizedShortCode = shortcode.toLowerCase();
+
+    const url = await getLinkByCode(normalizedShortCode);
+
+    const unavailable = getUnavailableReason(url);
+    if (!url || unavailable) {
+      return unavailableResponse(unavailable ?? "missing");
+    }
+
+    // Keep the visitor's query string so it can still be forwarded after the prompt
+    const redirectUrl = new URL(`/l/${url.shortCode}${request.nextUrl.search}`, request.url);
+    const passwordHash = url.hasPassword ? await getLinkPasswordHash(url.id) : null;
+    if (!passwordHash) {
+      return NextResponse.redirect(redirectUrl, { status: 303 });
+    }
+
+    // Limit password guesses per client and link
+    const ip = getClientIp(request) ?? "127.0.0.1";
+    const { success } = await rateLimiter.limit(`link-password:${url.id}:${ip}`);
+    if (!success) {
+      return passwordPageResponse(shortcode, 429, "Too many attempts. Please try again later.");
+    }
+
+    const formData = await request.formData().catch(() => null);
+    const password = formData?.get("password");
+
+    if (typeof password !== "string" || !(await verifyPassword(password, passwordHash))) {
+      return passwordPageResponse(shortcode, 401, "Incorrect password");
+    }
+
+    // 303 turns the POST into a GET, which counts the click and redirects
+    const response = NextResponse.redirect(redirectUrl, { status: 303 });
+    response.cookies.set(
+      getLinkAccessCookieName(url.shortCode),
+      createLinkAccessToken(url.id, passwordHash),
+      {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax",
+        path: "/l",
+        maxAge: LINK_ACCESS_TTL_SECONDS,
+      }
+    );
+    return response;
+  } catch (error) {
+    console.error("Password check error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getPublicCollection } from "@/data/collections-db";
+
+/**
+ * Public link-in-bio page
+ * Every entry points at the short link rather than its destination, so clicks
+ * go through the normal redirect (and its tracking, targeting and limits).
+ */
+
+type CollectionPageProps = {
+  params: Promise<{ handle: string }>;
+};
+
+// Always render fresh so trashed or expired links disappear immediately
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({ params }: CollectionPageProps): Promise<Metadata> {
+  const { handle } = await params;
+  const collection = await getPublicCollection(handle);
+
+  if (!collection) {
+    return { title: "Page not found" };
+  }
+
+  return {
+    title: collection.title,
+    description: collection.description ?? undefined,
+  };
+}
+
+export default async function CollectionPage({ params }: CollectionPageProps) {
+  const { handle } = await params;
+  const collection = await getPublicCollection(handle);
+
+  if (!collection) {
+    notFound();
+  }
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-md flex-col items-center gap-6 px-6 py-16">
+      <header className="space-y-2 text-center">
+        <h1 className="text-2xl font-bold">{collection.title}</h1>
+        {collection.description && (
+          <p className="text-sm text-muted-foreground">{collection.description}</p>
+        )}
+      </header>
+
+      {collection.links.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No links yet.</p>
+      ) : (
+        <ul className="w-full space-y-3">
+          {collection.links.map((link) => (
+            <li key={link.shortCode}>
+              <a
+                href={`/l/${link.shortCode}`}
+                className="block w-full rounded-xl border bg-card px-4 py-3 text-center font-medium shadow-sm transition-colors hover:bg-muted"
+                rel="noopener"
+              >
+                {link.title}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </main>
+  );
+}
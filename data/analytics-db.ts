@@ -0,0 +1,175 @@
+import { db } from "@/db";
+import { clickAnalytics, shortenedUrls } from "@/db/schema";
+import { and, asc, count, desc, eq, gt, gte, lte, or, sql, type SQL } from "drizzle-orm";
+import { inScope } from "@/data/scope";
+import {
+  AnalyticsInterval,
+  ExportedClick,
+  LinkAnalytics,
+  RecentClick,
+  buildTimeSeries,
+  getRefererName,
+  summarizeBreakdown,
+  summarizeVariants,
+} from "@/lib/analytics";
+import type { LinkVariant } from "@/lib/link-variants";
+import { Cursor, encodeCursor } from "@/lib/pagination";
+import { parseUserAgent } from "@/lib/user-agent";
+import type { WorkspaceScope } from "@/lib/workspaces";
+
+export type AnalyticsQuery = {
+  from: Date;
+  to: Date;
+  interval: AnalyticsInterval;
+  limit: number;
+};
+
+function clicksInRange(shortenedUrlId: string, from: Date, to: Date) {
+  return and(
+    eq(clickAnalytics.shortenedUrlId, shortenedUrlId),
+    gte(clickAnalytics.clickedAt, from),
+    lte(clickAnalytics.clickedAt, to)
+  );
+}
+
+type GroupableColumn =
+  | typeof clickAnalytics.referer
+  | typeof clickAnalytics.country
+  | typeof clickAnalytics.userAgent
+  | typeof clickAnalytics.variantId;
+
+async function countClicksBy(
+  shortenedUrlId: string,
+  column: GroupableColumn,
+  from: Date,
+  to: Date
+): Promise<Array<{ value: string | null; clicks: number }>> {
+  return db
+    .select({ value: column, clicks: count() })
+    .from(clickAnalytics)
+    .where(clicksInRange(shortenedUrlId, from, to))
+    .groupBy(column);
+}
+
+export async function getLinkAnalytics(
+  { id: shortenedUrlId, variants }: { id: string; variants: LinkVariant[] },
+  { from, to, interval, limit }: AnalyticsQuery
+): Promise<LinkAnalytics> {
+  // interval is one of a fixed set of values, so it is safe to inline
+  const bucket = sql`date_trunc('${sql.raw(interval)}', ${clickAnalytics.clickedAt})`.mapWith(
+    clickAnalytics.clickedAt
+  );
+
+  const [buckets, referers, countries, userAgents, variantClicks] = await Promise.all([
+    db
+      .select({ bucket, clicks: count() })
+      .from(clickAnalytics)
+      .where(clicksInRange(shortenedUrlId, from, to))
+      .groupBy(bucket),
+    countClicksBy(shortenedUrlId, clickAnalytics.referer, from, to),
+    countClicksBy(shortenedUrlId, clickAnalytics.country, from, to),
+    countClicksBy(shortenedUrlId, clickAnalytics.userAgent, from, to),
+    countClicksBy(shortenedUrlId, clickAnalytics.variantId, from, to),
+  ]);
+
+  return {
+    range: {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      interval,
+    },
+    totalClicks: buckets.reduce((total, row) => total + row.clicks, 0),
+    timeSeries: buildTimeSeries(buckets, interval, from, to),
+    referers: summarizeBreakdown(referers, getRefererName, limit),
+    countries: summarizeBreakdown(countries, (code) => code ?? "Unknown", limit),
+    browsers: summarizeBreakdown(userAgents, (ua) => parseUserAgent(ua).browser, limit),
+    devices: summarizeBreakdown(userAgents, (ua) => parseUserAgent(ua).device, limit),
+    variants: summarizeVariants(variants, variantClicks),
+  };
+}
+
+export async function getRecentClicks(shortenedUrlId: string, limit: number): Promise<RecentClick[]> {
+  const clicks = await db
+    .select()
+    .from(clickAnalytics)
+    .where(eq(clickAnalytics.shortenedUrlId, shortenedUrlId))
+    .orderBy(desc(clickAnalytics.clickedAt))
+    .limit(limit);
+
+  // IP addresses stay server-side; only derived fields are returned
+  return clicks.map((click) => ({
+    id: click.id,
+    clickedAt: click.clickedAt.toISOString(),
+    referer: click.referer,
+    country: click.country,
+    ...parseUserAgent(click.userAgent),
+  }));
+}
+
+export type UserClicksQuery = {
+  from?: Date;
+  to?: Date;
+  limit: number;
+  cursor?: Cursor | null;
+};
+
+// clicked_at is truncated to milliseconds so cursor values round-trip through JS dates
+const clickedAtMs = sql`date_trunc('milliseconds', ${clickAnalytics.clickedAt})`;
+
+/**
+ * Page through every click on the links in a scope, oldest first
+ */
+export async function getUserClicksPage(
+  scope: WorkspaceScope,
+  { from, to, limit, cursor = null }: UserClicksQuery
+): Promise<{ clicks: ExportedClick[]; nextCursor: string | null }> {
+  const conditions: Array<SQL | undefined> = [
+    inScope(shortenedUrls, scope),
+    from ? gte(clickAnalytics.clickedAt, from) : undefined,
+    to ? lte(clickAnalytics.clickedAt, to) : undefined,
+  ];
+
+  if (cursor) {
+    conditions.push(
+      or(
+        gt(clickedAtMs, cursor.value),
+        and(eq(clickedAtMs, cursor.value), gt(clickAnalytics.id, cursor.id))
+      )
+    );
+  }
+
+  const rows = await db
+    .select({
+      id: clickAnalytics.id,
+      linkId: clickAnalytics.shortenedUrlId,
+      shortCode: shortenedUrls.shortCode,
+      clickedAt: clickAnalytics.clickedAt,
+      referer: clickAnalytics.referer,
+      country: clickAnalytics.country,
+      geoRule: clickAnalytics.geoRule,
+      deviceRule: clickAnalytics.deviceRule,
+      variantId: clickAnalytics.variantId,
+      userAgent: clickAnalytics.userAgent,
+    })
+    .from(clickAnalytics)
+    .innerJoin(shortenedUrls, eq(clickAnalytics.shortenedUrlId, shortenedUrls.id))
+    .where(and(...conditions))
+    .orderBy(asc(clickedAtMs), asc(clickAnalytics.id))
+    .limit(limit + 1);
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  // As with recent clicks, IP addresses are never exported
+  return {
+    clicks: page.map(({ userAgent, clickedAt, ...click }) => ({
+      ...click,
+      clickedAt: clickedAt.toISOString(),
+      ...parseUserAgent(userAgent),
+    })),
+    nextCursor:
+      rows.length > limit && last
+        ? encodeCursor({ value: last.clickedAt.toISOString(), id: last.id })
+        : null,
+  };
+}
@@ -0,0 +1,114 @@
+import { db } from "@/db";
+import { apiKeys, type ApiKey as ApiKeyRow } from "@/db/schema";
+import { and, count, desc, eq, isNull, lt, or } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import type { ApiKeySettings } from "@/lib/api-keys";
+import { generateApiKey, hashApiKey } from "@/lib/api-key-secrets";
+import type { ApiKeyScope } from "@/lib/permissions";
+
+export type ApiKeySummary = {
+  id: string;
+  name: string;
+  prefix: string;
+  workspaceId: string | null;
+  scopes: ApiKeyScope[];
+  rateLimit: number; // requests per minute
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+// Usage is recorded at most once per interval to keep writes off the hot path
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+function toApiKeySummary(row: ApiKeyRow): ApiKeySummary {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    workspaceId: row.workspaceId,
+    scopes: row.scopes,
+    rateLimit: row.rateLimit,
+    lastUsedAt: row.lastUsedAt?.toISOString() ?? null,
+    revokedAt: row.revokedAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export async function getUserApiKeys(userId: string): Promise<ApiKeySummary[]> {
+  const rows = await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.userId, userId))
+    .orderBy(desc(apiKeys.createdAt));
+
+  return rows.map(toApiKeySummary);
+}
+
+export async function countActiveApiKeys(userId: string): Promise<number> {
+  const [result] = await db
+    .select({ keys: count() })
+    .from(apiKeys)
+    .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)));
+
+  return result?.keys ?? 0;
+}
+
+/**
+ * Create a key for the user
+ * The plain key is only returned here and cannot be recovered later.
+ */
+export async function createApiKey(
+  userId: string,
+  settings: ApiKeySettings
+): Promise<{ apiKey: ApiKeySummary; key: string }> {
+  const { key, prefix, keyHash } = generateApiKey();
+  const [row] = await db
+    .insert(apiKeys)
+    .values({ id: nanoid(), userId, ...settings, prefix, keyHash })
+    .returning();
+
+  return { apiKey: toApiKeySummary(row), key };
+}
+
+// Revoked keys stay listed so their last use remains visible
+export async function revokeApiKey(id: string, userId: string): Promise<ApiKeySummary | null> {
+  const [row] = await db
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+    .returning();
+
+  return row ? toApiKeySummary(row) : null;
+}
+
+/**
+ * Look up an active key by its plain value and record that it was used
+ */
+export async function findActiveApiKey(key: string): Promise<ApiKeyRow | null> {
+  const [row] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyHash, hashApiKey(key)), isNull(apiKeys.revokedAt)))
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  const now = new Date();
+  await db
+    .update(apiKeys)
+    .set({ lastUsedAt: now })
+    .where(
+      and(
+        eq(apiKeys.id, row.id),
+        or(
+          isNull(apiKeys.lastUsedAt),
+          lt(apiKeys.lastUsedAt, new Date(now.getTime() - LAST_USED_RESOLUTION_MS))
+        )
+      )
+    );
+
+  return row;
+}
@@ -0,0 +1,42 @@
+import { parseJson, type ApiResponse } from "@/data/links";
+import type { CreateApiKeyInput } from "@/lib/api-keys";
+import type { ApiKeyScope } from "@/lib/permissions";
+
+export type ApiKeySummary = {
+  id: string;
+  name: string;
+  prefix: string;
+  workspaceId: string | null;
+  scopes: ApiKeyScope[];
+  rateLimit: number;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+// Returned once on creation; the key itself cannot be fetched again
+export type CreatedApiKey = {
+  apiKey: ApiKeySummary;
+  key: string;
+};
+
+export async function fetchApiKeys(): Promise<ApiKeySummary[]> {
+  const response = await fetch("/api/keys", { cache: "no-store" });
+  const payload = await parseJson<ApiResponse<ApiKeySummary[]>>(response);
+  return payload.data ?? [];
+}
+
+export async function createApiKey(input: CreateApiKeyInput): Promise<CreatedApiKey> {
+  const response = await fetch("/api/keys", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const payload = await parseJson<ApiResponse<CreatedApiKey>>(response);
+  return payload.data;
+}
+
+export async function revokeApiKey(id: string): Promise<void> {
+  const response = await fetch(`/api/keys/${encodeURIComponent(id)}`, { method: "DELETE" });
+  await parseJson<ApiResponse<ApiKeySummary>>(response);
+}
@@ -0,0 +1,40 @@
+import { clerkClient } from "@clerk/nextjs/server";
+
+/**
+ * Clerk user lookups
+ * Links and memberships only store Clerk user IDs; names and emails are read
+ * from Clerk when a screen needs them.
+ */
+
+export type UserProfile = {
+  userId: string;
+  email: string | null;
+  name: string | null;
+};
+
+export async function getUserProfiles(userIds: string[]): Promise<Map<string, UserProfile>> {
+  if (userIds.length === 0) {
+    return new Map();
+  }
+
+  const client = await clerkClient();
+  const { data: users } = await client.users.getUserList({ userId: userIds, limit: userIds.length });
+
+  return new Map(
+    users.map((user) => [
+      user.id,
+      {
+        userId: user.id,
+        email: user.primaryEmailAddress?.emailAddress ?? null,
+        name: user.fullName,
+      },
+    ])
+  );
+}
+
+// Only existing Clerk accounts can be added to a workspace
+export async function findUserIdByEmail(email: string): Promise<string | null> {
+  const client = await clerkClient();
+  const { data: users } = await client.users.getUserList({ emailAddress: [email], limit: 1 });
+  return users[0]?.id ?? null;
+}
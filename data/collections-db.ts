@@ -0,0 +1,229 @@
+import { db } from "@/db";
+import {
+  collectionLinks,
+  collections,
+  shortenedUrls,
+  type Collection as CollectionRow,
+} from "@/db/schema";
+import { and, asc, count, desc, eq, gt, isNull, lt, ne, or, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+
+export type Collection = {
+  id: string;
+  userId: string;
+  handle: string;
+  title: string;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CollectionSummary = Collection & { linkCount: number };
+
+// A link as placed on a collection, with the fields the editor needs
+export type CollectionItem = {
+  linkId: string;
+  title: string | null;
+  position: number;
+  shortCode: string;
+  originalUrl: string;
+  description: string | null;
+  isActive: boolean;
+};
+
+export type CollectionWithLinks = Collection & { links: CollectionItem[] };
+
+// What the public /p/<handle> page shows; destinations stay behind the redirect
+export type PublicCollection = {
+  handle: string;
+  title: string;
+  description: string | null;
+  links: Array<{ title: string; shortCode: string }>;
+};
+
+function toCollection(row: CollectionRow): Collection {
+  return {
+    ...row,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export async function getUserCollections(userId: string): Promise<CollectionSummary[]> {
+  const rows = await db
+    .select({ collection: collections, linkCount: count(collectionLinks.id) })
+    .from(collections)
+    .leftJoin(collectionLinks, eq(collectionLinks.collectionId, collections.id))
+    .where(eq(collections.userId, userId))
+    .groupBy(collections.id)
+    .orderBy(desc(collections.createdAt));
+
+  return rows.map(({ collection, linkCount }) => ({ ...toCollection(collection), linkCount }));
+}
+
+async function getCollectionItems(collectionId: string): Promise<CollectionItem[]> {
+  return db
+    .select({
+      linkId: collectionLinks.shortenedUrlId,
+      title: collectionLinks.title,
+      position: collectionLinks.position,
+      shortCode: shortenedUrls.shortCode,
+      originalUrl: shortenedUrls.originalUrl,
+      description: shortenedUrls.description,
+      isActive: shortenedUrls.isActive,
+    })
+    .from(collectionLinks)
+    .innerJoin(shortenedUrls, eq(collectionLinks.shortenedUrlId, shortenedUrls.id))
+    .where(eq(collectionLinks.collectionId, collectionId))
+    .orderBy(asc(collectionLinks.position));
+}
+
+export async function getCollectionByIdAndUserId(
+  id: string,
+  userId: string
+): Promise<CollectionWithLinks | null> {
+  const [collection] = await db
+    .select()
+    .from(collections)
+    .where(and(eq(collections.id, id), eq(collections.userId, userId)))
+    .limit(1);
+
+  if (!collection) {
+    return null;
+  }
+
+  return { ...toCollection(collection), links: await getCollectionItems(collection.id) };
+}
+
+/**
+ * Load a collection for public display
+ * Only links that would currently redirect are listed: trashed, expired and
+ * used-up links are left out
+ */
+export async function getPublicCollection(handle: string): Promise<PublicCollection | null> {
+  const [collection] = await db
+    .select()
+    .from(collections)
+    .where(eq(collections.handle, handle.toLowerCase()))
+    .limit(1);
+
+  if (!collection) {
+    return null;
+  }
+
+  const links = await db
+    .select({
+      title: sql<string>`coalesce(${collectionLinks.title}, ${shortenedUrls.description}, ${shortenedUrls.shortCode})`,
+      shortCode: shortenedUrls.shortCode,
+    })
+    .from(collectionLinks)
+    .innerJoin(shortenedUrls, eq(collectionLinks.shortenedUrlId, shortenedUrls.id))
+    .where(
+      and(
+        eq(collectionLinks.collectionId, collection.id),
+        eq(shortenedUrls.isActive, true),
+        or(isNull(shortenedUrls.expiresAt), gt(shortenedUrls.expiresAt, new Date())),
+        or(isNull(shortenedUrls.maxClicks), lt(shortenedUrls.clicks, shortenedUrls.maxClicks))
+      )
+    )
+    .orderBy(asc(collectionLinks.position));
+
+  return {
+    handle: collection.handle,
+    title: collection.title,
+    description: collection.description,
+    links,
+  };
+}
+
+export async function isHandleTaken(handle: string, excludeId?: string): Promise<boolean> {
+  const [existing] = await db
+    .select({ id: collections.id })
+    .from(collections)
+    .where(
+      and(
+        eq(collections.handle, handle.toLowerCase()),
+        excludeId ? ne(collections.id, excludeId) : undefined
+      )
+    )
+    .limit(1);
+
+  return !!existing;
+}
+
+export async function createCollection(
+  userId: string,
+  { handle, title, description }: { handle: string; title: string; description?: string }
+): Promise<Collection> {
+  const [collection] = await db
+    .insert(collections)
+    .values({
+      id: nanoid(),
+      userId,
+      handle: handle.toLowerCase(),
+      title,
+      description: description || null,
+    })
+    .returning();
+
+  return toCollection(collection);
+}
+
+export type CollectionUpdate = {
+  handle?: string;
+  title?: string;
+  description?: string | null;
+  links?: Array<{ linkId: string; title?: string | null }>; // replaces the list, in page order
+};
+
+export async function updateCollection(
+  id: string,
+  userId: string,
+  { links, ...updates }: CollectionUpdate
+): Promise<CollectionWithLinks | null> {
+  const [collection] = await db
+    .update(collections)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(and(eq(collections.id, id), eq(collections.userId, userId)))
+    .returning();
+
+  if (!collection) {
+    return null;
+  }
+
+  if (links) {
+    const removeExisting = db.delete(collectionLinks).where(eq(collectionLinks.collectionId, id));
+    // Replace the list in one batch so readers never see a half-written order
+    if (links.length > 0) {
+      await db.batch([
+        removeExisting,
+        db.insert(collectionLinks).values(
+          links.map((link, position) => ({
+            id: nanoid(),
+            collectionId: id,
+            shortenedUrlId: link.linkId,
+            title: link.title || null,
+            position,
+          }))
+        ),
+      ]);
+    } else {
+      await removeExisting;
+    }
+  }
+
+  return { ...toCollection(collection), links: await getCollectionItems(id) };
+}
+
+export async function deleteCollection(id: string, userId: string): Promise<boolean> {
+  const [deleted] = await db
+    .delete(collections)
+    .where(and(eq(collections.id, id), eq(collections.userId, userId)))
+    .returning({ id: collections.id });
+
+  // Collection links have no foreign key, so remove them with the collection
+  if (deleted) {
+    await db.delete(collectionLinks).where(eq(collectionLinks.collectionId, deleted.id));
+  }
+  return !!deleted;
+}
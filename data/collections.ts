@@ -0,0 +1,70 @@
+import { parseJson, type ApiResponse } from "@/data/links";
+import type { CreateCollectionInput, UpdateCollectionInput } from "@/lib/collection-schemas";
+
+export type Collection = {
+  id: string;
+  userId: string;
+  handle: string;
+  title: string;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CollectionSummary = Collection & { linkCount: number };
+
+export type CollectionItem = {
+  linkId: string;
+  title: string | null;
+  position: number;
+  shortCode: string;
+  originalUrl: string;
+  description: string | null;
+  isActive: boolean;
+};
+
+export type CollectionWithLinks = Collection & { links: CollectionItem[] };
+
+export async function fetchCollections(): Promise<CollectionSummary[]> {
+  const response = await fetch("/api/collections", { cache: "no-store" });
+  const payload = await parseJson<ApiResponse<CollectionSummary[]>>(response);
+  return payload.data ?? [];
+}
+
+export async function fetchCollection(id: string): Promise<CollectionWithLinks> {
+  const response = await fetch(`/api/collections/${encodeURIComponent(id)}`, {
+    cache: "no-store",
+  });
+  const payload = await parseJson<ApiResponse<CollectionWithLinks>>(response);
+  return payload.data;
+}
+
+export async function createCollection(input: CreateCollectionInput): Promise<CollectionWithLinks> {
+  const response = await fetch("/api/collections", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const payload = await parseJson<ApiResponse<CollectionWithLinks>>(response);
+  return payload.data;
+}
+
+export async function updateCollection(
+  id: string,
+  input: UpdateCollectionInput
+): Promise<CollectionWithLinks> {
+  const response = await fetch(`/api/collections/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const payload = await parseJson<ApiResponse<CollectionWithLinks>>(response);
+  return payload.data;
+}
+
+export async function deleteCollection(id: string): Promise<void> {
+  const response = await fetch(`/api/collections/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  await parseJson<ApiResponse<{ message: string }>>(response);
+}
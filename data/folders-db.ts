@@ -0,0 +1,109 @@
+import { db } from "@/db";
+import { folders, shortenedUrls, type Folder as FolderRow } from "@/db/schema";
+import { and, asc, count, eq, ne } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { inScope } from "@/data/scope";
+import type { WorkspaceScope } from "@/lib/workspaces";
+
+export type Folder = {
+  id: string;
+  name: string;
+  createdAt: string;
+};
+
+// Counts only include active links, matching the default dashboard view
+export type FolderSummary = Folder & { linkCount: number };
+
+function toFolder({ id, name, createdAt }: FolderRow): Folder {
+  return { id, name, createdAt: createdAt.toISOString() };
+}
+
+export async function getUserFolders(scope: WorkspaceScope): Promise<FolderSummary[]> {
+  const rows = await db
+    .select({ folder: folders, linkCount: count(shortenedUrls.id) })
+    .from(folders)
+    .leftJoin(
+      shortenedUrls,
+      and(eq(shortenedUrls.folderId, folders.id), eq(shortenedUrls.isActive, true))
+    )
+    .where(inScope(folders, scope))
+    .groupBy(folders.id)
+    .orderBy(asc(folders.name));
+
+  return rows.map(({ folder, linkCount }) => ({ ...toFolder(folder), linkCount }));
+}
+
+export async function getFolderInScope(id: string, scope: WorkspaceScope): Promise<Folder | null> {
+  const [folder] = await db
+    .select()
+    .from(folders)
+    .where(and(eq(folders.id, id), inScope(folders, scope)))
+    .limit(1);
+
+  return folder ? toFolder(folder) : null;
+}
+
+export async function isFolderNameTaken(
+  scope: WorkspaceScope,
+  name: string,
+  excludeId?: string
+): Promise<boolean> {
+  const [existing] = await db
+    .select({ id: folders.id })
+    .from(folders)
+    .where(
+      and(
+        inScope(folders, scope),
+        eq(folders.name, name),
+        excludeId ? ne(folders.id, excludeId) : undefined
+      )
+    )
+    .limit(1);
+
+  return !!existing;
+}
+
+export async function createFolder(
+  { userId, workspaceId }: WorkspaceScope,
+  name: string
+): Promise<Folder> {
+  const [folder] = await db
+    .insert(folders)
+    .values({ id: nanoid(), userId, workspaceId, name })
+    .returning();
+
+  return toFolder(folder);
+}
+
+export async function renameFolder(
+  id: string,
+  scope: WorkspaceScope,
+  name: string
+): Promise<Folder | null> {
+  const [folder] = await db
+    .update(folders)
+    .set({ name })
+    .where(and(eq(folders.id, id), inScope(folders, scope)))
+    .returning();
+
+  return folder ? toFolder(folder) : null;
+}
+
+/**
+ * Delete a folder
+ * Its links are kept and become unfiled
+ */
+export async function deleteFolder(id: string, scope: WorkspaceScope): Promise<boolean> {
+  const [deleted] = await db
+    .delete(folders)
+    .where(and(eq(folders.id, id), inScope(folders, scope)))
+    .returning({ id: folders.id });
+
+  if (deleted) {
+    await db
+      .update(shortenedUrls)
+      .set({ folderId: null })
+      .where(and(eq(shortenedUrls.folderId, deleted.id), inScope(shortenedUrls, scope)));
+  }
+  return !!deleted;
+}
@@ -0,0 +1,54 @@
+import { parseJson, type ApiResponse } from "@/data/links";
+import type { FolderInput } from "@/lib/link-organization";
+
+export type Folder = {
+  id: string;
+  name: string;
+  createdAt: string;
+};
+
+export type FolderSummary = Folder & { linkCount: number };
+
+export type TagSummary = {
+  name: string;
+  linkCount: number;
+};
+
+export async function fetchFolders(): Promise<FolderSummary[]> {
+  const response = await fetch("/api/folders", { cache: "no-store" });
+  const payload = await parseJson<ApiResponse<FolderSummary[]>>(response);
+  return payload.data ?? [];
+}
+
+export async function createFolder(input: FolderInput): Promise<FolderSummary> {
+  const response = await fetch("/api/folders", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const payload = await parseJson<ApiResponse<FolderSummary>>(response);
+  return payload.data;
+}
+
+export async function renameFolder(id: string, input: FolderInput): Promise<Folder> {
+  const response = await fetch(`/api/folders/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const payload = await parseJson<ApiResponse<Folder>>(response);
+  return payload.data;
+}
+
+export async function deleteFolder(id: string): Promise<void> {
+  const response = await fetch(`/api/folders/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+  await parseJson<ApiResponse<{ message: string }>>(response);
+}
+
+export async function fetchTags(): Promise<TagSummary[]> {
+  const response = await fetch("/api/tags", { cache: "no-store" });
+  const payload = await parseJson<ApiResponse<TagSummary[]>>(response);
+  return payload.data ?? [];
+}
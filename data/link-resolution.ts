@@ -0,0 +1,128 @@
+import { type NextRequest, after } from "next/server";
+import { incrementClicks, recordClick, type ShortenedUrl } from "@/data/links-db";
+import { emitLinkEvent, emitLinkExpired } from "@/data/webhook-delivery";
+import { getClientIp, getRequestCountry } from "@/lib/request-info";
+import { buildDestinationUrl } from "@/lib/redirect-url";
+import { matchGeoRule } from "@/lib/geo-targeting";
+import { matchDeviceRule } from "@/lib/device-targeting";
+import { chooseVariant, type LinkVariant } from "@/lib/link-variants";
+
+/**
+ * Resolving a short link for a visitor
+ * Shared by the /l/[shortcode] redirect and the /api/shorten/[shortCode]
+ * resolver, so both count the click, record its analytics, apply the routing
+ * rules and send webhooks the same way.
+ */
+
+export type UnavailableReason = "missing" | "disabled" | "expired";
+
+export type ResolvedClick = {
+  destinationUrl: string | null; // null when the chosen destination is not http(s)
+  variant: LinkVariant | null;
+};
+
+// Past its expiry date or out of clicks
+export function isLinkExpired(url: ShortenedUrl): boolean {
+  return (
+    (url.expiresAt !== null && new Date() > new Date(url.expiresAt)) ||
+    (url.maxClicks !== null && url.clicks >= url.maxClicks)
+  );
+}
+
+// Why a link cannot be visited, or null when it can
+export function getUnavailableReason(url: ShortenedUrl | null): UnavailableReason | null {
+  if (!url) {
+    return "missing";
+  }
+  if (!url.isActive) {
+    return "disabled";
+  }
+  if (isLinkExpired(url)) {
+    return "expired";
+  }
+  return null;
+}
+
+function toRedirectUrl(destination: string, url: ShortenedUrl, incoming: URLSearchParams): string | null {
+  try {
+    const parsed = new URL(destination);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+  return buildDestinationUrl(destination, url, incoming);
+}
+
+/**
+ * Count a visit to an available link and pick where it goes
+ * Returns null when another request used up the last click since the link was
+ * loaded. Analytics and webhooks are written after the response is sent.
+ */
+export async function resolveClick(
+  request: NextRequest,
+  url: ShortenedUrl,
+  stickyVariantId?: string
+): Promise<ResolvedClick | null> {
+  // Fails once the click limit is reached
+  const clickIncremented = await incrementClicks(url.shortCode);
+  if (!clickIncremented && url.maxClicks !== null) {
+    after(() => emitLinkExpired(url));
+    return null;
+  } else if (!clickIncremented) {
+    console.warn(`[REDIRECT] Failed to increment clicks - shortCode might not exist: ${url.shortCode}`);
+  }
+
+  // Device rules win over geo rules (an App Store link suits every country);
+  // visitors matching neither are split across the A/B variants, if any,
+  // and otherwise go to the original URL
+  const userAgent = request.headers.get("user-agent");
+  const country = getRequestCountry(request);
+  const deviceRule = matchDeviceRule(url.deviceRules, userAgent);
+  const geoRule = deviceRule ? null : matchGeoRule(url.geoRules, country);
+  const variant =
+    deviceRule || geoRule ? null : chooseVariant(url.variants, stickyVariantId);
+  const destination = deviceRule?.url ?? geoRule?.url ?? variant?.url ?? url.originalUrl;
+
+  const click = {
+    shortenedUrlId: url.id,
+    userAgent,
+    ipAddress: getClientIp(request),
+    referer: request.headers.get("referer"),
+    country,
+    geoRule: geoRule?.country ?? null,
+    deviceRule: deviceRule?.device ?? null,
+    variantId: variant?.id ?? null,
+  };
+  after(async () => {
+    try {
+      await recordClick(click);
+    } catch (error) {
+      console.error(`[REDIRECT] Failed to record click analytics:`, error);
+    }
+  });
+
+  // Webhooks get the click without the visitor's IP address
+  const clickedLink = clickIncremented ? { ...url, clicks: url.clicks + 1 } : url;
+  after(async () => {
+    await emitLinkEvent("link.clicked", clickedLink, {
+      click: {
+        userAgent: click.userAgent,
+        referer: click.referer,
+        country: click.country,
+        geoRule: click.geoRule,
+        deviceRule: click.deviceRule,
+        variantId: click.variantId,
+      },
+    });
+    if (isLinkExpired(clickedLink)) {
+      await emitLinkExpired(clickedLink);
+    }
+  });
+
+  return {
+    destinationUrl: toRedirectUrl(destination, url, request.nextUrl.searchParams),
+    variant,
+  };
+}
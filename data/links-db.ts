@@ -1,70 +1,348 @@
 import { db } from "@/db";
-import { shortenedUrls } from "@/db/schema";
-import { eq, and, sql } from "drizzle-orm";
+import {
+  shortenedUrls,
+  clickAnalytics,
+  collectionLinks,
+  linkTags,
+  tags,
+  workspaceMembers,
+  type NewClickAnalytic,
+  type ShortenedUrl as ShortenedUrlRow,
+} from "@/db/schema";
+import { eq, and, or, ne, lt, gt, asc, desc, ilike, inArray, isNull, sql, type SQL } from "drizzle-orm";
 import { nanoid } from "nanoid";
+import { inScope } from "@/data/scope";
+import { deleteLinkTags, setLinkTags, withTags } from "@/data/tags-db";
+import { hashPassword } from "@/lib/password";
+import { Cursor, encodeCursor, escapeLikePattern } from "@/lib/pagination";
+import type { DeviceRule } from "@/lib/device-targeting";
+import type { GeoRule } from "@/lib/geo-targeting";
+import { UNFILED_FOLDER } from "@/lib/link-organization";
+import type { LinkVariant, LinkVariantInput } from "@/lib/link-variants";
+import type { QueryPrecedence } from "@/lib/redirect-url";
+import { UTM_FIELDS, type UtmField } from "@/lib/utm";
+import type { WorkspaceRole, WorkspaceScope } from "@/lib/workspaces";
 
 export type ShortenedUrl = {
   id: string;
   shortCode: string;
   originalUrl: string;
   userId: string;
+  workspaceId: string | null;
   customAlias: string | null;
   description: string | null;
   clicks: number;
+  maxClicks: number | null;
+  hasPassword: boolean;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  utmTerm: string | null;
+  utmContent: string | null;
+  forwardQuery: boolean;
+  queryPrecedence: QueryPrecedence;
+  geoRules: GeoRule[];
+  deviceRules: DeviceRule[];
+  variants: LinkVariant[];
+  folderId: string | null;
   isActive: boolean;
   expiresAt: string | null;
+  deactivatedAt: string | null;
   createdAt: string;
   updatedAt: string;
 };
 
-// Helper to convert DB dates to ISO strings
-function toShortenedUrl(dbResult: any): ShortenedUrl {
+// Helper to convert DB dates to ISO strings; the password hash never leaves the data layer
+function toShortenedUrl({
+  passwordHash,
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars -- webhook bookkeeping, kept out of API responses
+  expiryNotifiedAt,
+  ...dbResult
+}: ShortenedUrlRow): ShortenedUrl {
   return {
     ...dbResult,
+    hasPassword: passwordHash !== null,
     expiresAt: dbResult.expiresAt?.toISOString() ?? null,
+    deactivatedAt: dbResult.deactivatedAt?.toISOString() ?? null,
     createdAt: dbResult.createdAt.toISOString(),
     updatedAt: dbResult.updatedAt.toISOString(),
   };
 }
 
-export async function getUserLinks(userId: string): Promise<ShortenedUrl[]> {
-  const links = await db
+// Links as returned to the dashboard and API, with their tag names attached
+export type TaggedLink = ShortenedUrl & { tags: string[] };
+
+export type LinkStatus = "active" | "inactive";
+
+export type LinkSort = "createdAt" | "clicks" | "alias";
+
+export type LinkListOptions = {
+  status?: LinkStatus | "all";
+  search?: string;
+  sort?: LinkSort;
+  order?: "asc" | "desc";
+  limit?: number;
+  cursor?: Cursor | null;
+  utm?: Partial<Record<UtmField, string>>; // exact matches, e.g. { utmCampaign: "spring" }
+  tag?: string;
+  folderId?: string; // UNFILED_FOLDER selects links outside any folder
+};
+
+export type LinksPage = {
+  links: TaggedLink[];
+  nextCursor: string | null;
+};
+
+// created_at is truncated to milliseconds so cursor values round-trip through JS dates
+const SORT_EXPRESSIONS: Record<LinkSort, SQL> = {
+  createdAt: sql`date_trunc('milliseconds', ${shortenedUrls.createdAt})`,
+  clicks: sql`${shortenedUrls.clicks}`,
+  alias: sql`coalesce(${shortenedUrls.customAlias}, ${shortenedUrls.shortCode})`,
+};
+
+function getSortValue(link: ShortenedUrlRow, sort: LinkSort): string | number {
+  switch (sort) {
+    case "clicks":
+      return link.clicks;
+    case "alias":
+      return link.customAlias ?? link.shortCode;
+    default:
+      return link.createdAt.toISOString();
+  }
+}
+
+export async function getUserLinksPage(
+  scope: WorkspaceScope,
+  {
+    status = "active",
+    search,
+    sort = "createdAt",
+    order = "desc",
+    limit = 50,
+    cursor = null,
+    utm = {},
+    tag,
+    folderId,
+  }: LinkListOptions = {}
+): Promise<LinksPage> {
+  const sortExpression = SORT_EXPRESSIONS[sort];
+  const isAfter = order === "asc" ? gt : lt;
+  const direction = order === "asc" ? asc : desc;
+
+  const conditions: Array<SQL | undefined> = [
+    inScope(shortenedUrls, scope),
+    status === "all" ? undefined : eq(shortenedUrls.isActive, status === "active"),
+  ];
+
+  if (search) {
+    const pattern = `%${escapeLikePattern(search)}%`;
+    conditions.push(
+      or(
+        ilike(shortenedUrls.originalUrl, pattern),
+        ilike(shortenedUrls.description, pattern),
+        ilike(shortenedUrls.customAlias, pattern)
+      )
+    );
+  }
+
+  for (const field of UTM_FIELDS) {
+    const value = utm[field];
+    if (value) {
+      conditions.push(eq(shortenedUrls[field], value));
+    }
+  }
+
+  if (folderId) {
+    conditions.push(
+      folderId === UNFILED_FOLDER
+        ? isNull(shortenedUrls.folderId)
+        : eq(shortenedUrls.folderId, folderId)
+    );
+  }
+
+  if (tag) {
+    conditions.push(
+      inArray(
+        shortenedUrls.id,
+        db
+          .select({ id: linkTags.shortenedUrlId })
+          .from(linkTags)
+          .innerJoin(tags, eq(linkTags.tagId, tags.id))
+          .where(and(inScope(tags, scope), eq(tags.name, tag)))
+      )
+    );
+  }
+
+  // Keyset pagination: continue strictly after the last (sort value, id) pair
+  if (cursor) {
+    conditions.push(
+      or(
+        isAfter(sortExpression, cursor.value),
+        and(eq(sortExpression, cursor.value), isAfter(shortenedUrls.id, cursor.id))
+      )
+    );
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db
     .select()
     .from(shortenedUrls)
-    .where(and(eq(shortenedUrls.userId, userId), eq(shortenedUrls.isActive, true)));
+    .where(and(...conditions))
+    .orderBy(direction(sortExpression), direction(shortenedUrls.id))
+    .limit(limit + 1);
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    links: await withTags(page.map(toShortenedUrl)),
+    nextCursor:
+      rows.length > limit && last
+        ? encodeCursor({ value: getSortValue(last, sort), id: last.id })
+        : null,
+  };
+}
+
+export type CreateLinkOptions = {
+  customAlias?: string;
+  description?: string;
+  expiresAt?: Date;
+  maxClicks?: number;
+  password?: string;
+  forwardQuery?: boolean;
+  queryPrecedence?: QueryPrecedence;
+  geoRules?: GeoRule[];
+  deviceRules?: DeviceRule[];
+  variants?: LinkVariantInput[];
+  folderId?: string;
+  tags?: string[];
+} & Partial<Record<UtmField, string>>;
 
-  return links.map(toShortenedUrl);
+// Imported links may carry over their click count and creation date
+export type NewLinkInput = CreateLinkOptions & {
+  originalUrl: string;
+  shortCode: string;
+  clicks?: number;
+  createdAt?: Date;
+};
+
+// Existing variants keep their ids so sticky cookies and click history stay valid
+function withVariantIds(variants: LinkVariantInput[]): LinkVariant[] {
+  return variants.map(({ id, ...variant }) => ({ id: id ?? nanoid(8), ...variant }));
+}
+
+async function toInsertValues(
+  { userId, workspaceId }: WorkspaceScope,
+  {
+    originalUrl,
+    shortCode,
+    customAlias,
+    description,
+    expiresAt,
+    maxClicks,
+    password,
+    clicks,
+    createdAt,
+    forwardQuery,
+    queryPrecedence,
+    geoRules,
+    deviceRules,
+    variants,
+    folderId,
+    ...utm
+  }: NewLinkInput
+) {
+  return {
+    id: nanoid(),
+    userId,
+    workspaceId,
+    originalUrl,
+    shortCode,
+    customAlias: customAlias || null,
+    description: description || null,
+    expiresAt: expiresAt ?? null,
+    maxClicks: maxClicks ?? null,
+    passwordHash: password ? await hashPassword(password) : null,
+    utmSource: utm.utmSource || null,
+    utmMedium: utm.utmMedium || null,
+    utmCampaign: utm.utmCampaign || null,
+    utmTerm: utm.utmTerm || null,
+    utmContent: utm.utmContent || null,
+    forwardQuery: forwardQuery ?? false,
+    queryPrecedence: queryPrecedence ?? "link",
+    geoRules: geoRules ?? [],
+    deviceRules: deviceRules ?? [],
+    variants: withVariantIds(variants ?? []),
+    folderId: folderId ?? null,
+    clicks: clicks ?? 0,
+    isActive: true,
+    createdAt,
+  };
 }
 
 export async function createLink(
-  userId: string,
+  scope: WorkspaceScope,
   originalUrl: string,
   shortCode: string,
-  customAlias?: string,
-  description?: string
-): Promise<ShortenedUrl> {
+  { tags: tagNames = [], ...options }: CreateLinkOptions = {}
+): Promise<TaggedLink> {
   const [link] = await db
     .insert(shortenedUrls)
-    .values({
-      id: nanoid(),
-      userId,
-      originalUrl,
-      shortCode,
-      customAlias: customAlias || null,
-      description: description || null,
-      clicks: 0,
-      isActive: true,
-    })
+    .values(await toInsertValues(scope, { ...options, originalUrl, shortCode }))
     .returning();
 
-  return toShortenedUrl(link);
+  if (tagNames.length > 0) {
+    await setLinkTags(scope, link.id, tagNames);
+  }
+  return { ...toShortenedUrl(link), tags: tagNames };
+}
+
+/**
+ * Insert several links in a single statement
+ * Either every link is created or, if any row violates a constraint, none are.
+ * A link whose tags fail to save is still returned, without the tags.
+ * Results are returned in input order.
+ */
+export async function createLinks(
+  scope: WorkspaceScope,
+  links: NewLinkInput[]
+): Promise<TaggedLink[]> {
+  if (links.length === 0) {
+    return [];
+  }
+
+  const values = await Promise.all(links.map((link) => toInsertValues(scope, link)));
+  const rows = await db.insert(shortenedUrls).values(values).returning();
+
+  // Tags are written after the links exist, so a tag failure must not read as
+  // the links not being created; callers retrying them would hit their own rows
+  const savedTags = await Promise.all(
+    values.map(async (value, index) => {
+      const tagNames = links[index].tags ?? [];
+      if (tagNames.length === 0) {
+        return tagNames;
+      }
+      try {
+        await setLinkTags(scope, value.id, tagNames);
+        return tagNames;
+      } catch (error) {
+        console.error(`Failed to tag link ${value.id}:`, error);
+        return [];
+      }
+    })
+  );
+
+  const byId = new Map(rows.map((row) => [row.id, toShortenedUrl(row)]));
+  return values.map((value, index) => ({ ...byId.get(value.id)!, tags: savedTags[index] }));
 }
 
+// Links resolve by their short code or, after the alias was changed, by the alias
 export async function getLinkByCode(shortCode: string): Promise<ShortenedUrl | null> {
+  const code = shortCode.toLowerCase();
   const [link] = await db
     .select()
     .from(shortenedUrls)
-    .where(eq(shortenedUrls.shortCode, shortCode.toLowerCase()))
+    .where(or(eq(shortenedUrls.shortCode, code), eq(shortenedUrls.customAlias, code)))
     .limit(1);
 
   return link ? toShortenedUrl(link) : null;
@@ -80,22 +358,124 @@ export async function getLinkById(id: string): Promise<ShortenedUrl | null> {
   return link ? toShortenedUrl(link) : null;
 }
 
-export async function getLinkByIdAndUserId(id: string, userId: string): Promise<ShortenedUrl | null> {
+export async function getLinkPasswordHash(id: string): Promise<string | null> {
   const [link] = await db
-    .select()
+    .select({ passwordHash: shortenedUrls.passwordHash })
     .from(shortenedUrls)
-    .where(and(eq(shortenedUrls.id, id), eq(shortenedUrls.userId, userId)))
+    .where(eq(shortenedUrls.id, id))
     .limit(1);
 
-  return link ? toShortenedUrl(link) : null;
+  return link?.passwordHash ?? null;
 }
 
+export type LinkAccess = {
+  link: ShortenedUrl;
+  role: WorkspaceRole | null; // null when the user has no access
+  scope: WorkspaceScope; // pass to updates so they stay within the link's owner
+};
+
+/**
+ * Load a link together with the user's role on it
+ * Personal links are only accessible to their creator, who acts as owner;
+ * workspace links to the workspace's members. Returns null when the link is missing.
+ */
+export async function getLinkAccess(id: string, userId: string): Promise<LinkAccess | null> {
+  const [row] = await db
+    .select({ link: shortenedUrls, role: workspaceMembers.role })
+    .from(shortenedUrls)
+    .leftJoin(
+      workspaceMembers,
+      and(
+        eq(workspaceMembers.workspaceId, shortenedUrls.workspaceId),
+        eq(workspaceMembers.userId, userId)
+      )
+    )
+    .where(eq(shortenedUrls.id, id))
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  const { link } = row;
+  return {
+    link: toShortenedUrl(link),
+    role: link.workspaceId ? row.role : link.userId === userId ? "owner" : null,
+    scope: { userId, workspaceId: link.workspaceId },
+  };
+}
+
+export type LinkUpdate = {
+  originalUrl?: string;
+  shortCode?: string;
+  customAlias?: string | null;
+  description?: string | null;
+  expiresAt?: Date | null;
+  maxClicks?: number | null;
+  password?: string | null; // null removes the password
+  isActive?: boolean;
+  forwardQuery?: boolean;
+  queryPrecedence?: QueryPrecedence;
+  geoRules?: GeoRule[];
+  deviceRules?: DeviceRule[];
+  variants?: LinkVariantInput[];
+  folderId?: string | null; // null moves the link out of its folder
+  tags?: string[]; // replaces the link's tags
+} & Partial<Record<UtmField, string | null>>;
+
+export async function updateLink(
+  id: string,
+  scope: WorkspaceScope,
+  { password, variants, tags: tagNames, ...updates }: LinkUpdate
+): Promise<TaggedLink | null> {
+  const passwordHash =
+    password === undefined ? undefined : password ? await hashPassword(password) : null;
+
+  // Keep the trash timestamp in step with the active flag
+  const deactivatedAt =
+    updates.isActive === undefined ? undefined : updates.isActive ? null : new Date();
+
+  // A new expiry or click limit means the link can expire (and be reported) again
+  const expiryNotifiedAt =
+    updates.expiresAt === undefined && updates.maxClicks === undefined ? undefined : null;
+
+  const [link] = await db
+    .update(shortenedUrls)
+    .set({
+      ...updates,
+      passwordHash,
+      deactivatedAt,
+      expiryNotifiedAt,
+      variants: variants && withVariantIds(variants),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(shortenedUrls.id, id), inScope(shortenedUrls, scope)))
+    .returning();
+
+  if (!link) {
+    return null;
+  }
+
+  if (tagNames) {
+    await setLinkTags(scope, link.id, tagNames);
+  }
+  const [tagged] = await withTags([toShortenedUrl(link)]);
+  return tagged;
+}
+
+// Returns false when the link is missing or has already reached its max clicks
 export async function incrementClicks(shortCode: string): Promise<boolean> {
   console.log(`[DB] Incrementing clicks for shortCode: ${shortCode}`);
+  // The limit is checked in the same statement so concurrent clicks cannot overshoot it
   const result = await db
     .update(shortenedUrls)
     .set({ clicks: sql`${shortenedUrls.clicks} + 1` })
-    .where(eq(shortenedUrls.shortCode, shortCode.toLowerCase()));
+    .where(
+      and(
+        eq(shortenedUrls.shortCode, shortCode.toLowerCase()),
+        or(isNull(shortenedUrls.maxClicks), lt(shortenedUrls.clicks, shortenedUrls.maxClicks))
+      )
+    );
   console.log(`[DB] Update result:`, result);
   // @ts-ignore - Neon driver returns rowCount
   const rowCount = result.rowCount ?? result.rowsAffected ?? 0;
@@ -103,23 +483,81 @@ export async function incrementClicks(shortCode: string): Promise<boolean> {
   return rowCount > 0;
 }
 
-export async function deleteLinkById(id: string, userId: string): Promise<void> {
-  await db
+// True for the first caller only, until an update to the expiry or click limit clears the mark
+export async function claimExpiryNotification(id: string): Promise<boolean> {
+  const [claimed] = await db
+    .update(shortenedUrls)
+    .set({ expiryNotifiedAt: new Date() })
+    .where(and(eq(shortenedUrls.id, id), isNull(shortenedUrls.expiryNotifiedAt)))
+    .returning({ id: shortenedUrls.id });
+
+  return !!claimed;
+}
+
+export async function recordClick(click: Omit<NewClickAnalytic, "id">): Promise<void> {
+  await db.insert(clickAnalytics).values({
+    id: nanoid(),
+    ...click,
+  });
+}
+
+export async function deleteLinkById(id: string, scope: WorkspaceScope): Promise<void> {
+  const [deleted] = await db
     .delete(shortenedUrls)
-    .where(and(eq(shortenedUrls.id, id), eq(shortenedUrls.userId, userId)));
+    .where(and(eq(shortenedUrls.id, id), inScope(shortenedUrls, scope)))
+    .returning({ id: shortenedUrls.id });
+
+  // Click, collection and tag rows have no foreign key, so remove them with the link
+  if (deleted) {
+    await db.delete(clickAnalytics).where(eq(clickAnalytics.shortenedUrlId, deleted.id));
+    await db.delete(collectionLinks).where(eq(collectionLinks.shortenedUrlId, deleted.id));
+    await deleteLinkTags(deleted.id);
+  }
 }
 
-export async function deactivateLinkById(id: string, userId: string): Promise<boolean> {
+export async function deactivateLinkById(id: string, scope: WorkspaceScope): Promise<boolean> {
   const result = await db
     .update(shortenedUrls)
-    .set({ isActive: false })
-    .where(and(eq(shortenedUrls.id, id), eq(shortenedUrls.userId, userId)));
+    .set({ isActive: false, deactivatedAt: new Date() })
+    .where(and(eq(shortenedUrls.id, id), inScope(shortenedUrls, scope)));
 
   // @ts-ignore - Neon driver returns rowCount
   const rowCount = result.rowCount ?? result.rowsAffected ?? 0;
   return rowCount > 0;
 }
 
+export async function restoreLinkById(id: string, scope: WorkspaceScope): Promise<ShortenedUrl | null> {
+  const [link] = await db
+    .update(shortenedUrls)
+    .set({ isActive: true, deactivatedAt: null, updatedAt: new Date() })
+    .where(and(eq(shortenedUrls.id, id), inScope(shortenedUrls, scope)))
+    .returning();
+
+  return link ? toShortenedUrl(link) : null;
+}
+
+// Inactive links that have been in the trash since before the cutoff
+export async function getLinksPendingPurge(
+  cutoff: Date,
+  limit: number
+): Promise<Array<{ id: string; userId: string; workspaceId: string | null }>> {
+  return db
+    .select({
+      id: shortenedUrls.id,
+      userId: shortenedUrls.userId,
+      workspaceId: shortenedUrls.workspaceId,
+    })
+    .from(shortenedUrls)
+    .where(
+      and(
+        eq(shortenedUrls.isActive, false),
+        // Rows deactivated before deactivated_at existed fall back to updated_at
+        lt(sql`coalesce(${shortenedUrls.deactivatedAt}, ${shortenedUrls.updatedAt})`, cutoff.toISOString())
+      )
+    )
+    .limit(limit);
+}
+
 export async function checkCustomAliasExists(customAlias: string): Promise<boolean> {
   const [existing] = await db
     .select()
@@ -130,11 +568,58 @@ export async function checkCustomAliasExists(customAlias: string): Promise<boole
   return !!existing;
 }
 
+// Aliases resolve like short codes, so a new code must not match either
 export async function checkShortCodeExists(shortCode: string): Promise<boolean> {
+  const code = shortCode.toLowerCase();
   const [existing] = await db
     .select()
     .from(shortenedUrls)
-    .where(eq(shortenedUrls.shortCode, shortCode.toLowerCase()))
+    .where(or(eq(shortenedUrls.shortCode, code), eq(shortenedUrls.customAlias, code)))
+    .limit(1);
+
+  return !!existing;
+}
+
+/**
+ * Batched form of checkCustomAliasExists/checkShortCodeExists
+ * Returns the subset of codes already used as an alias or short code.
+ */
+export async function findTakenCodes(codes: string[]): Promise<Set<string>> {
+  const normalized = [...new Set(codes.map((code) => code.toLowerCase()))];
+  if (normalized.length === 0) {
+    return new Set();
+  }
+
+  const rows = await db
+    .select({ shortCode: shortenedUrls.shortCode, customAlias: shortenedUrls.customAlias })
+    .from(shortenedUrls)
+    .where(
+      or(
+        inArray(shortenedUrls.shortCode, normalized),
+        inArray(shortenedUrls.customAlias, normalized)
+      )
+    );
+
+  const wanted = new Set(normalized);
+  return new Set(
+    rows
+      .flatMap((row) => [row.shortCode, row.customAlias])
+      .filter((code): code is string => code !== null && wanted.has(code))
+  );
+}
+
+// True when another link already uses the value as its alias or short code
+export async function isAliasTaken(alias: string, excludeId: string): Promise<boolean> {
+  const normalized = alias.toLowerCase();
+  const [existing] = await db
+    .select({ id: shortenedUrls.id })
+    .from(shortenedUrls)
+    .where(
+      and(
+        or(eq(shortenedUrls.customAlias, normalized), eq(shortenedUrls.shortCode, normalized)),
+        ne(shortenedUrls.id, excludeId)
+      )
+    )
     .limit(1);
 
   return !!existing;
@@ -1,21 +1,61 @@
+import type { AnalyticsInterval, LinkAnalytics, RecentClick } from "@/lib/analytics";
+import type { DeviceRule } from "@/lib/device-targeting";
+import type { ExportFormat } from "@/lib/export";
+import type { GeoRule } from "@/lib/geo-targeting";
+import type { LinkVariant } from "@/lib/link-variants";
+import type { ImportConflictStrategy, ImportPreview, ImportResult } from "@/lib/link-import";
+import type { QrOptions } from "@/lib/qr";
+import type { UtmField } from "@/lib/utm";
+import type { CreateLinkInput } from "@/lib/link-schemas";
+
 export type ShortenedUrl = {
   id: string;
   shortCode: string;
   originalUrl: string;
   userId: string;
+  workspaceId: string | null;
   customAlias: string | null;
   description: string | null;
   clicks: number;
+  maxClicks: number | null;
+  hasPassword: boolean;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  utmTerm: string | null;
+  utmContent: string | null;
+  forwardQuery: boolean;
+  queryPrecedence: "link" | "incoming";
+  geoRules: GeoRule[];
+  deviceRules: DeviceRule[];
+  variants: LinkVariant[];
+  folderId: string | null;
+  tags: string[];
   isActive: boolean;
   expiresAt: string | null;
+  deactivatedAt: string | null;
   createdAt: string;
   updatedAt: string;
 };
 
-type LinksResponse = {
-  success: boolean;
+export type LinkStatus = "active" | "inactive";
+
+export type LinkSort = "createdAt" | "clicks" | "alias";
+
+export type LinksQuery = {
+  status?: LinkStatus;
+  q?: string;
+  sort?: LinkSort;
+  order?: "asc" | "desc";
+  limit?: number;
+  cursor?: string | null;
+  tag?: string;
+  folderId?: string; // UNFILED_FOLDER lists links outside any folder
+} & Partial<Record<UtmField, string>>;
+
+export type LinksPage = {
   data: ShortenedUrl[];
-  error?: string;
+  nextCursor: string | null;
 };
 
 type CreateLinkResponse = {
@@ -25,7 +65,13 @@ type CreateLinkResponse = {
   error?: string;
 };
 
-async function parseJson<T>(response: Response): Promise<T> {
+export type ApiResponse<T> = {
+  success: boolean;
+  data: T;
+  error?: string;
+};
+
+export async function parseJson<T>(response: Response): Promise<T> {
   const payload = await response.json().catch(() => null);
   if (!response.ok) {
     const message = (payload as { error?: string } | null)?.error ||
@@ -35,18 +81,117 @@ async function parseJson<T>(response: Response): Promise<T> {
   return payload as T;
 }
 
-export async function fetchLinks(): Promise<ShortenedUrl[]> {
-  const response = await fetch("/api/shorten", { cache: "no-store" });
-  const payload = await parseJson<LinksResponse>(response);
-  return payload.data ?? [];
+export async function fetchLinks(query: LinksQuery = {}): Promise<LinksPage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null && value !== "") {
+      params.set(key, String(value));
+    }
+  }
+
+  const response = await fetch(`/api/shorten?${params}`, { cache: "no-store" });
+  const payload = await parseJson<ApiResponse<LinksPage>>(response);
+  return {
+    data: payload.data?.data ?? [],
+    nextCursor: payload.data?.nextCursor ?? null,
+  };
 }
 
-export async function createShortLink(originalUrl: string): Promise<CreateLinkResponse> {
+export async function createShortLink(input: CreateLinkInput): Promise<CreateLinkResponse> {
   const response = await fetch("/api/shorten", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ originalUrl }),
+    body: JSON.stringify(input),
   });
 
   return parseJson<CreateLinkResponse>(response);
 }
+
+export async function fetchLink(id: string): Promise<ShortenedUrl> {
+  const response = await fetch(`/api/shorten/manage/${encodeURIComponent(id)}`, {
+    cache: "no-store",
+  });
+  const payload = await parseJson<ApiResponse<ShortenedUrl>>(response);
+  return payload.data;
+}
+
+export async function fetchLinkAnalytics(
+  id: string,
+  options: { interval: AnalyticsInterval; from: string; to?: string }
+): Promise<LinkAnalytics> {
+  const params = new URLSearchParams({ interval: options.interval, from: options.from });
+  if (options.to) {
+    params.set("to", options.to);
+  }
+
+  const response = await fetch(
+    `/api/shorten/manage/${encodeURIComponent(id)}/analytics?${params}`,
+    { cache: "no-store" }
+  );
+  const payload = await parseJson<ApiResponse<LinkAnalytics>>(response);
+  return payload.data;
+}
+
+export async function fetchRecentClicks(id: string, limit: number = 20): Promise<RecentClick[]> {
+  const response = await fetch(
+    `/api/shorten/manage/${encodeURIComponent(id)}/clicks?limit=${limit}`,
+    { cache: "no-store" }
+  );
+  const payload = await parseJson<ApiResponse<RecentClick[]>>(response);
+  return payload.data ?? [];
+}
+
+function importFormData(file: File, fields: Record<string, string>): FormData {
+  const form = new FormData();
+  form.set("file", file);
+  for (const [key, value] of Object.entries(fields)) {
+    form.set(key, value);
+  }
+  return form;
+}
+
+export async function previewImport(file: File): Promise<ImportPreview> {
+  const response = await fetch("/api/shorten/import", {
+    method: "POST",
+    body: importFormData(file, { dryRun: "true" }),
+  });
+  const payload = await parseJson<ApiResponse<ImportPreview>>(response);
+  return payload.data;
+}
+
+export async function commitImport(
+  file: File,
+  onConflict: ImportConflictStrategy
+): Promise<ImportResult> {
+  const response = await fetch("/api/shorten/import", {
+    method: "POST",
+    body: importFormData(file, { onConflict }),
+  });
+  const payload = await parseJson<ApiResponse<ImportResult>>(response);
+  return payload.data;
+}
+
+// Exports are downloaded by navigating to this URL rather than fetched
+export function getExportUrl(
+  type: "links" | "clicks",
+  format: ExportFormat,
+  from?: Date
+): string {
+  const params = new URLSearchParams({ type, format });
+  if (from) {
+    params.set("from", from.toISOString());
+  }
+  return `/api/shorten/export?${params}`;
+}
+
+// QR codes are loaded directly as images, so only the URL is built here
+export function getQrCodeUrl(id: string, options: Partial<QrOptions>, download = false): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(options)) {
+    params.set(key, String(value));
+  }
+  if (download) {
+    params.set("download", "1");
+  }
+  return `/api/shorten/manage/${encodeURIComponent(id)}/qr?${params}`;
+}
@@ -0,0 +1,71 @@
+import { getLinkAccess, type ShortenedUrl } from "@/data/links-db";
+import type { RequestAuth } from "@/data/request-auth";
+import { resolveWorkspaceScope, type WorkspaceAccess } from "@/data/workspaces-db";
+import {
+  LINK_ACCESS_DENIAL,
+  WORKSPACE_ACCESS_DENIAL,
+  getPermissionDenial,
+  getScopeDenial,
+  type LinkPermission,
+  type PermissionDenial,
+} from "@/lib/permissions";
+import type { WorkspaceRole, WorkspaceScope } from "@/lib/workspaces";
+
+type Denied = { allowed: false } & PermissionDenial;
+
+export type ScopeAuthorization = ({ allowed: true } & WorkspaceAccess) | Denied;
+
+export type LinkAuthorization =
+  | { allowed: true; link: ShortenedUrl; role: WorkspaceRole; scope: WorkspaceScope }
+  | Denied;
+
+/**
+ * Check an operation on the request's workspace, or the user's personal links
+ * when it has none
+ */
+export async function authorizeScope(
+  { userId, workspaceId, apiKey }: RequestAuth,
+  permission: LinkPermission
+): Promise<ScopeAuthorization> {
+  const scopeDenial = apiKey ? getScopeDenial(apiKey.scopes, permission) : null;
+  if (scopeDenial) {
+    return { allowed: false, ...scopeDenial };
+  }
+
+  const access = await resolveWorkspaceScope(userId, workspaceId);
+  if (!access) {
+    return { allowed: false, ...WORKSPACE_ACCESS_DENIAL };
+  }
+
+  const denial = getPermissionDenial(access.role, permission);
+  return denial ? { allowed: false, ...denial } : { allowed: true, ...access };
+}
+
+/**
+ * Check an operation on a single link
+ * Returns null when the link does not exist. API keys only reach links in
+ * their own workspace (or the personal links of a personal key).
+ */
+export async function authorizeLink(
+  id: string,
+  { userId, workspaceId, apiKey }: RequestAuth,
+  permission: LinkPermission
+): Promise<LinkAuthorization | null> {
+  const access = await getLinkAccess(id, userId);
+  if (!access) {
+    return null;
+  }
+
+  const { link, role, scope } = access;
+  if (!role || (apiKey && link.workspaceId !== workspaceId)) {
+    return { allowed: false, ...LINK_ACCESS_DENIAL };
+  }
+
+  const scopeDenial = apiKey ? getScopeDenial(apiKey.scopes, permission) : null;
+  if (scopeDenial) {
+    return { allowed: false, ...scopeDenial };
+  }
+
+  const denial = getPermissionDenial(role, permission, { isCreator: link.userId === userId });
+  return denial ? { allowed: false, ...denial } : { allowed: true, link, role, scope };
+}
@@ -0,0 +1,116 @@
+import type { NextRequest } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { findActiveApiKey } from "@/data/api-keys-db";
+import { getApiKeyFromHeaders } from "@/lib/api-keys";
+import type { ApiKeyScope } from "@/lib/permissions";
+import { apiKeyRateLimiter, rateLimiter } from "@/lib/rate-limit";
+import { recordRateLimit } from "@/lib/rate-limit-headers";
+import { getClientIp } from "@/lib/request-info";
+import { getRequestedWorkspaceId } from "@/lib/workspaces";
+
+// What an API key request may do beyond its user's role
+export type ApiKeyGrant = {
+  id: string;
+  scopes: ApiKeyScope[];
+  rateLimit: number; // requests per minute
+};
+
+// Who a request acts as and which workspace it works in
+export type RequestAuth = {
+  userId: string;
+  workspaceId: string | null; // null = the user's personal links
+  apiKey: ApiKeyGrant | null; // set for API key requests, which cannot leave workspaceId
+};
+
+export type AuthFailure = {
+  ok: false;
+  status: 401 | 429;
+  error: string;
+  code?: string;
+};
+
+export type Authentication = ({ ok: true } & RequestAuth) | AuthFailure;
+
+const UNAUTHENTICATED: AuthFailure = {
+  ok: false,
+  status: 401,
+  error: "Authentication required",
+};
+
+function apiKeyRateLimitId(apiKeyId: string): string {
+  return `api_key:${apiKeyId}`;
+}
+
+/**
+ * Authenticate an API request with an API key or the Clerk session
+ * A request carrying an API key never falls back to the session, so a revoked
+ * key fails even in a signed-in browser. Every API key request counts against
+ * the key's own rate limit.
+ */
+export async function authenticateRequest(request: NextRequest): Promise<Authentication> {
+  const key = getApiKeyFromHeaders(request.headers);
+
+  if (key) {
+    const apiKey = await findActiveApiKey(key);
+    if (!apiKey) {
+      return UNAUTHENTICATED;
+    }
+
+    const rateLimit = await apiKeyRateLimiter.limit(apiKeyRateLimitId(apiKey.id), 1, apiKey.rateLimit);
+    recordRateLimit(request, rateLimit);
+    if (!rateLimit.success) {
+      return {
+        ok: false,
+        status: 429,
+        error: "API key rate limit exceeded. Please try again later.",
+        code: "RATE_LIMITED",
+      };
+    }
+
+    return {
+      ok: true,
+      userId: apiKey.userId,
+      workspaceId: apiKey.workspaceId,
+      apiKey: { id: apiKey.id, scopes: apiKey.scopes, rateLimit: apiKey.rateLimit },
+    };
+  }
+
+  const { userId } = await auth();
+  return userId
+    ? { ok: true, userId, workspaceId: getRequestedWorkspaceId(request), apiKey: null }
+    : UNAUTHENTICATED;
+}
+
+/**
+ * Rate limit a request that creates links, counting it as `weight` hits
+ * API keys spend their own quota, which authentication already charged one hit;
+ * sessions are limited per IP.
+ */
+export async function limitRequest(
+  request: NextRequest,
+  caller: RequestAuth,
+  weight: number = 1
+): Promise<boolean> {
+  if (caller.apiKey) {
+    if (weight <= 1) {
+      return true;
+    }
+
+    const result = await apiKeyRateLimiter.limit(
+      apiKeyRateLimitId(caller.apiKey.id),
+      weight - 1,
+      caller.apiKey.rateLimit
+    );
+    recordRateLimit(request, result);
+    return result.success;
+  }
+
+  const result = await rateLimiter.limit(getClientIp(request) ?? "127.0.0.1", weight);
+  recordRateLimit(request, result);
+  return result.success;
+}
+
+// Server actions only run for signed-in dashboard users and target links directly
+export function sessionAuth(userId: string): RequestAuth {
+  return { userId, workspaceId: null, apiKey: null };
+}
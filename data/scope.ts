@@ -0,0 +1,16 @@
+import { and, eq, isNull, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import type { WorkspaceScope } from "@/lib/workspaces";
+
+type ScopedTable = { userId: AnyPgColumn; workspaceId: AnyPgColumn };
+
+/**
+ * Filter rows of a table with userId/workspaceId columns down to a scope
+ * Workspace rows match on the workspace alone, whoever created them;
+ * personal rows must belong to the user and have no workspace.
+ */
+export function inScope(table: ScopedTable, { userId, workspaceId }: WorkspaceScope): SQL {
+  return workspaceId
+    ? eq(table.workspaceId, workspaceId)
+    : and(eq(table.userId, userId), isNull(table.workspaceId))!;
+}
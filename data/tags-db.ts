@@ -0,0 +1,102 @@
+import { db } from "@/db";
+import { linkTags, tags } from "@/db/schema";
+import { and, asc, count, eq, inArray } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { inScope } from "@/data/scope";
+import type { WorkspaceScope } from "@/lib/workspaces";
+
+export type TagSummary = {
+  name: string;
+  linkCount: number;
+};
+
+// Tag names per link ID, sorted alphabetically; links without tags are absent
+export async function getTagsForLinks(linkIds: string[]): Promise<Map<string, string[]>> {
+  const byLink = new Map<string, string[]>();
+  if (linkIds.length === 0) {
+    return byLink;
+  }
+
+  const rows = await db
+    .select({ linkId: linkTags.shortenedUrlId, name: tags.name })
+    .from(linkTags)
+    .innerJoin(tags, eq(linkTags.tagId, tags.id))
+    .where(inArray(linkTags.shortenedUrlId, linkIds))
+    .orderBy(asc(tags.name));
+
+  for (const row of rows) {
+    byLink.set(row.linkId, [...(byLink.get(row.linkId) ?? []), row.name]);
+  }
+  return byLink;
+}
+
+/**
+ * Attach tag names to links
+ */
+export async function withTags<T extends { id: string }>(
+  links: T[]
+): Promise<Array<T & { tags: string[] }>> {
+  const byLink = await getTagsForLinks(links.map((link) => link.id));
+  return links.map((link) => ({ ...link, tags: byLink.get(link.id) ?? [] }));
+}
+
+// Tags in use on at least one link in the scope, for the dashboard sidebar
+export async function getUserTags(scope: WorkspaceScope): Promise<TagSummary[]> {
+  return db
+    .select({ name: tags.name, linkCount: count(linkTags.shortenedUrlId) })
+    .from(tags)
+    .innerJoin(linkTags, eq(linkTags.tagId, tags.id))
+    .where(inScope(tags, scope))
+    .groupBy(tags.id, tags.name)
+    .orderBy(asc(tags.name));
+}
+
+// Look up the scope's tags by name, creating any that don't exist yet
+async function getOrCreateTagIds(scope: WorkspaceScope, names: string[]): Promise<string[]> {
+  // Existing names hit one of the partial unique indexes and are skipped
+  await db
+    .insert(tags)
+    .values(
+      names.map((name) => ({
+        id: nanoid(),
+        userId: scope.userId,
+        workspaceId: scope.workspaceId,
+        name,
+      }))
+    )
+    .onConflictDoNothing();
+
+  const rows = await db
+    .select({ id: tags.id })
+    .from(tags)
+    .where(and(inScope(tags, scope), inArray(tags.name, names)));
+
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Replace a link's tags with the given names
+ * Names must already be normalized (see tagsField in lib/link-organization.ts)
+ */
+export async function setLinkTags(
+  scope: WorkspaceScope,
+  linkId: string,
+  names: string[]
+): Promise<void> {
+  const removeExisting = db.delete(linkTags).where(eq(linkTags.shortenedUrlId, linkId));
+
+  if (names.length === 0) {
+    await removeExisting;
+    return;
+  }
+
+  const tagIds = await getOrCreateTagIds(scope, names);
+  await db.batch([
+    removeExisting,
+    db.insert(linkTags).values(tagIds.map((tagId) => ({ shortenedUrlId: linkId, tagId }))),
+  ]);
+}
+
+export async function deleteLinkTags(linkId: string): Promise<void> {
+  await db.delete(linkTags).where(eq(linkTags.shortenedUrlId, linkId));
+}
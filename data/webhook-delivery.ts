@@ -0,0 +1,199 @@
+import { lookup, type LookupAddress } from "dns";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import type { LookupFunction } from "net";
+import type { WebhookDelivery as WebhookDeliveryRow } from "@/db/schema";
+import { claimExpiryNotification, type ShortenedUrl } from "@/data/links-db";
+import {
+  createWebhookDeliveries,
+  getDueWebhookDeliveries,
+  getSubscribedWebhooks,
+  recordWebhookAttempt,
+  type DeliveryAttemptResult,
+  type WebhookDeliverySummary,
+  type WebhookTarget,
+} from "@/data/webhooks-db";
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TEST_EVENT,
+  WEBHOOK_TIMEOUT_MS,
+  getWebhookRetryDelayMs,
+  isPrivateAddress,
+  isPrivateWebhookUrl,
+  type WebhookEvent,
+  type WebhookPayload,
+} from "@/lib/webhooks";
+import { createSignatureHeader } from "@/lib/webhook-signature";
+
+/**
+ * Sending webhook events
+ * Events are stored as deliveries first and then attempted straight away;
+ * failures are picked up again by the webhooks cron route once their backoff
+ * has passed. Routes call these from after() so responses aren't delayed.
+ */
+
+function toPayload(delivery: WebhookDeliveryRow): WebhookPayload {
+  return {
+    id: delivery.id,
+    event: delivery.event,
+    createdAt: delivery.createdAt.toISOString(),
+    data: delivery.payload,
+  };
+}
+
+// Resolves the host for a delivery's connection, refusing this machine and private networks
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new Error("Webhook URL resolves to a private address"), "");
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * POST a delivery and return the response status
+ * The address is checked in the lookup the connection itself uses, so a DNS
+ * answer cannot change between the check and the request. IP hosts skip the
+ * lookup and are checked from the URL. Redirects are not followed, so a
+ * delivery only ever reaches the configured URL.
+ */
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  if (isPrivateWebhookUrl(url)) {
+    return Promise.reject(new Error("Webhook URL points to a private address"));
+  }
+
+  const target = new URL(url);
+  const send = target.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const request = send(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+async function attemptDelivery(
+  delivery: WebhookDeliveryRow,
+  webhook: WebhookTarget
+): Promise<DeliveryAttemptResult> {
+  const body = JSON.stringify(toPayload(delivery));
+
+  try {
+    const status = await postWebhook(
+      webhook.url,
+      {
+        "Content-Type": "application/json",
+        [WEBHOOK_SIGNATURE_HEADER]: createSignatureHeader(webhook.secret, body),
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+      },
+      body
+    );
+
+    if (status >= 200 && status < 300) {
+      return { status: "succeeded", responseStatus: status, error: null, nextAttemptAt: null };
+    }
+    return retryOrFail(delivery, status, `Endpoint responded with HTTP ${status}`);
+  } catch (error) {
+    const message =
+      error instanceof Error && error.name === "AbortError"
+        ? `No response within ${WEBHOOK_TIMEOUT_MS / 1000} seconds`
+        : error instanceof Error
+          ? error.message
+          : "Request failed";
+    return retryOrFail(delivery, null, message);
+  }
+}
+
+function retryOrFail(
+  delivery: WebhookDeliveryRow,
+  responseStatus: number | null,
+  error: string
+): DeliveryAttemptResult {
+  const delay = getWebhookRetryDelayMs(delivery.attempts + 1);
+  return delay === null
+    ? { status: "failed", responseStatus, error, nextAttemptAt: null }
+    : { status: "pending", responseStatus, error, nextAttemptAt: new Date(Date.now() + delay) };
+}
+
+async function deliver(
+  delivery: WebhookDeliveryRow,
+  webhook: WebhookTarget
+): Promise<WebhookDeliverySummary | null> {
+  return recordWebhookAttempt(delivery.id, await attemptDelivery(delivery, webhook));
+}
+
+/**
+ * Send an event to every active webhook in the link's scope that subscribes to it
+ * Errors are logged rather than thrown, so a webhook problem never fails the caller.
+ */
+export async function emitLinkEvent(
+  event: WebhookEvent,
+  link: ShortenedUrl,
+  extra: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    const targets = await getSubscribedWebhooks(
+      { userId: link.userId, workspaceId: link.workspaceId },
+      event
+    );
+    const deliveries = await createWebhookDeliveries(
+      targets.map((target) => target.id),
+      event,
+      { link, ...extra }
+    );
+    const byId = new Map(targets.map((target) => [target.id, target]));
+    await Promise.all(deliveries.map((delivery) => deliver(delivery, byId.get(delivery.webhookId)!)));
+  } catch (error) {
+    console.error(`[WEBHOOKS] Failed to send ${event} for link ${link.id}:`, error);
+  }
+}
+
+// link.expired is sent once per expiry; editing the expiry or click limit re-arms it
+export async function emitLinkExpired(link: ShortenedUrl): Promise<void> {
+  try {
+    if (await claimExpiryNotification(link.id)) {
+      await emitLinkEvent("link.expired", link);
+    }
+  } catch (error) {
+    console.error(`[WEBHOOKS] Failed to send link.expired for link ${link.id}:`, error);
+  }
+}
+
+// Send a test event to one webhook, whether or not it is active, and return the logged attempt
+export async function sendWebhookTestEvent(webhook: WebhookTarget): Promise<WebhookDeliverySummary | null> {
+  const [delivery] = await createWebhookDeliveries([webhook.id], WEBHOOK_TEST_EVENT, {
+    message: "This is a test event sent from the webhooks dashboard",
+  });
+  return deliver(delivery, webhook);
+}
+
+// Retry pending deliveries whose backoff has passed; returns how many were attempted
+export async function retryDueWebhookDeliveries(limit: number): Promise<number> {
+  const due = await getDueWebhookDeliveries(new Date(), limit);
+  await Promise.all(due.map(({ delivery, webhook }) => deliver(delivery, webhook)));
+  return due.length;
+}
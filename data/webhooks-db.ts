@@ -0,0 +1,262 @@
+import { db } from "@/db";
+import {
+  webhookDeliveries,
+  webhooks,
+  type Webhook as WebhookRow,
+  type WebhookDelivery as WebhookDeliveryRow,
+} from "@/db/schema";
+import { and, count, desc, eq, lt, lte, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { inScope } from "@/data/scope";
+import {
+  WEBHOOK_RETRY_BASE_DELAY_SECONDS,
+  type UpdateWebhookInput,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+  type WebhookEventType,
+  type WebhookSettings,
+} from "@/lib/webhooks";
+import { generateWebhookSecret } from "@/lib/webhook-signature";
+import type { WorkspaceScope } from "@/lib/workspaces";
+
+// The secret is left out; it is only returned when the webhook is created
+export type WebhookSummary = {
+  id: string;
+  url: string;
+  workspaceId: string | null;
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WebhookDeliverySummary = {
+  id: string;
+  webhookId: string;
+  event: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  createdAt: string;
+};
+
+// What the sender needs to make an attempt
+export type WebhookTarget = Pick<WebhookRow, "id" | "url" | "secret">;
+
+export type DeliveryAttemptResult = {
+  status: WebhookDeliveryStatus;
+  responseStatus: number | null;
+  error: string | null;
+  nextAttemptAt: Date | null;
+};
+
+function toWebhookSummary(row: WebhookRow): WebhookSummary {
+  return {
+    id: row.id,
+    url: row.url,
+    workspaceId: row.workspaceId,
+    events: row.events,
+    isActive: row.isActive,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toDeliverySummary(row: WebhookDeliveryRow): WebhookDeliverySummary {
+  return {
+    ...row,
+    nextAttemptAt: row.nextAttemptAt?.toISOString() ?? null,
+    lastAttemptAt: row.lastAttemptAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export async function getWebhooks(scope: WorkspaceScope): Promise<WebhookSummary[]> {
+  const rows = await db
+    .select()
+    .from(webhooks)
+    .where(inScope(webhooks, scope))
+    .orderBy(desc(webhooks.createdAt));
+
+  return rows.map(toWebhookSummary);
+}
+
+export async function countWebhooks(scope: WorkspaceScope): Promise<number> {
+  const [result] = await db
+    .select({ webhooks: count() })
+    .from(webhooks)
+    .where(inScope(webhooks, scope));
+
+  return result?.webhooks ?? 0;
+}
+
+// Includes the secret, for signing test events
+export async function getWebhookInScope(id: string, scope: WorkspaceScope): Promise<WebhookRow | null> {
+  const [row] = await db
+    .select()
+    .from(webhooks)
+    .where(and(eq(webhooks.id, id), inScope(webhooks, scope)))
+    .limit(1);
+
+  return row ?? null;
+}
+
+/**
+ * Create a webhook in the scope
+ * The signing secret is only returned here and cannot be recovered later.
+ */
+export async function createWebhook(
+  { userId, workspaceId }: WorkspaceScope,
+  settings: WebhookSettings
+): Promise<{ webhook: WebhookSummary; secret: string }> {
+  const secret = generateWebhookSecret();
+  const [row] = await db
+    .insert(webhooks)
+    .values({ id: nanoid(), userId, workspaceId, ...settings, secret })
+    .returning();
+
+  return { webhook: toWebhookSummary(row), secret };
+}
+
+export async function updateWebhook(
+  id: string,
+  scope: WorkspaceScope,
+  updates: UpdateWebhookInput
+): Promise<WebhookSummary | null> {
+  const [row] = await db
+    .update(webhooks)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(and(eq(webhooks.id, id), inScope(webhooks, scope)))
+    .returning();
+
+  return row ? toWebhookSummary(row) : null;
+}
+
+// Deliveries have no foreign key, so remove them with the webhook
+export async function deleteWebhook(id: string, scope: WorkspaceScope): Promise<boolean> {
+  const [deleted] = await db
+    .delete(webhooks)
+    .where(and(eq(webhooks.id, id), inScope(webhooks, scope)))
+    .returning({ id: webhooks.id });
+
+  if (deleted) {
+    await db.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, deleted.id));
+  }
+  return !!deleted;
+}
+
+// Active webhooks in the scope that subscribe to the event
+export async function getSubscribedWebhooks(
+  scope: WorkspaceScope,
+  event: WebhookEvent
+): Promise<WebhookTarget[]> {
+  return db
+    .select({ id: webhooks.id, url: webhooks.url, secret: webhooks.secret })
+    .from(webhooks)
+    .where(
+      and(
+        inScope(webhooks, scope),
+        eq(webhooks.isActive, true),
+        sql`${webhooks.events} @> ${JSON.stringify([event])}::jsonb`
+      )
+    );
+}
+
+// Newest first, for the delivery log
+export async function getWebhookDeliveries(
+  webhookId: string,
+  limit: number
+): Promise<WebhookDeliverySummary[]> {
+  const rows = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.webhookId, webhookId))
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(limit);
+
+  return rows.map(toDeliverySummary);
+}
+
+/**
+ * Queue one delivery per webhook
+ * They are attempted right away; the first retry time doubles as a lease so
+ * the cron route only picks them up if that attempt never gets recorded.
+ */
+export async function createWebhookDeliveries(
+  webhookIds: string[],
+  event: WebhookEventType,
+  payload: Record<string, unknown>
+): Promise<WebhookDeliveryRow[]> {
+  if (webhookIds.length === 0) {
+    return [];
+  }
+
+  return db
+    .insert(webhookDeliveries)
+    .values(
+      webhookIds.map((webhookId) => ({
+        id: nanoid(),
+        webhookId,
+        event,
+        payload,
+        nextAttemptAt: new Date(Date.now() + WEBHOOK_RETRY_BASE_DELAY_SECONDS * 1000),
+      }))
+    )
+    .returning();
+}
+
+/**
+ * Pending deliveries whose next attempt is due, with the webhook to send them to
+ * Deliveries of paused webhooks wait until the webhook is active again.
+ */
+export async function getDueWebhookDeliveries(
+  now: Date,
+  limit: number
+): Promise<Array<{ delivery: WebhookDeliveryRow; webhook: WebhookTarget }>> {
+  return db
+    .select({
+      delivery: webhookDeliveries,
+      webhook: { id: webhooks.id, url: webhooks.url, secret: webhooks.secret },
+    })
+    .from(webhookDeliveries)
+    .innerJoin(webhooks, eq(webhookDeliveries.webhookId, webhooks.id))
+    .where(
+      and(
+        eq(webhookDeliveries.status, "pending"),
+        lte(webhookDeliveries.nextAttemptAt, now),
+        eq(webhooks.isActive, true)
+      )
+    )
+    .orderBy(webhookDeliveries.nextAttemptAt)
+    .limit(limit);
+}
+
+export async function recordWebhookAttempt(
+  id: string,
+  result: DeliveryAttemptResult
+): Promise<WebhookDeliverySummary | null> {
+  const [row] = await db
+    .update(webhookDeliveries)
+    .set({
+      ...result,
+      attempts: sql`${webhookDeliveries.attempts} + 1`,
+      lastAttemptAt: new Date(),
+    })
+    .where(eq(webhookDeliveries.id, id))
+    .returning();
+
+  return row ? toDeliverySummary(row) : null;
+}
+
+export async function deleteWebhookDeliveriesBefore(cutoff: Date): Promise<number> {
+  const deleted = await db
+    .delete(webhookDeliveries)
+    .where(lt(webhookDeliveries.createdAt, cutoff))
+    .returning({ id: webhookDeliveries.id });
+
+  return deleted.length;
+}
@@ -0,0 +1,83 @@
+import { parseJson, type ApiResponse } from "@/data/links";
+import type {
+  CreateWebhookInput,
+  UpdateWebhookInput,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookEventType,
+} from "@/lib/webhooks";
+
+export type WebhookSummary = {
+  id: string;
+  url: string;
+  workspaceId: string | null;
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Returned once on creation; the signing secret cannot be fetched again
+export type CreatedWebhook = {
+  webhook: WebhookSummary;
+  secret: string;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  webhookId: string;
+  event: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  createdAt: string;
+};
+
+export async function fetchWebhooks(): Promise<WebhookSummary[]> {
+  const response = await fetch("/api/webhooks", { cache: "no-store" });
+  const payload = await parseJson<ApiResponse<WebhookSummary[]>>(response);
+  return payload.data ?? [];
+}
+
+export async function createWebhook(input: CreateWebhookInput): Promise<CreatedWebhook> {
+  const response = await fetch("/api/webhooks", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const payload = await parseJson<ApiResponse<CreatedWebhook>>(response);
+  return payload.data;
+}
+
+export async function updateWebhook(id: string, input: UpdateWebhookInput): Promise<WebhookSummary> {
+  const response = await fetch(`/api/webhooks/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const payload = await parseJson<ApiResponse<WebhookSummary>>(response);
+  return payload.data;
+}
+
+export async function deleteWebhook(id: string): Promise<void> {
+  const response = await fetch(`/api/webhooks/${encodeURIComponent(id)}`, { method: "DELETE" });
+  await parseJson<ApiResponse<{ message: string }>>(response);
+}
+
+export async function fetchWebhookDeliveries(id: string): Promise<WebhookDelivery[]> {
+  const response = await fetch(`/api/webhooks/${encodeURIComponent(id)}/deliveries`, {
+    cache: "no-store",
+  });
+  const payload = await parseJson<ApiResponse<WebhookDelivery[]>>(response);
+  return payload.data ?? [];
+}
+
+export async function sendTestEvent(id: string): Promise<WebhookDelivery> {
+  const response = await fetch(`/api/webhooks/${encodeURIComponent(id)}/test`, { method: "POST" });
+  const payload = await parseJson<ApiResponse<WebhookDelivery>>(response);
+  return payload.data;
+}
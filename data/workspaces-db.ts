@@ -0,0 +1,194 @@
+import { db } from "@/db";
+import { shortenedUrls, workspaceMembers, workspaces } from "@/db/schema";
+import { and, asc, count, eq, inArray, isNull, or } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import type { WorkspaceRole, WorkspaceScope } from "@/lib/workspaces";
+
+export type WorkspaceSummary = {
+  id: string;
+  name: string;
+  role: WorkspaceRole; // the current user's role
+  memberCount: number;
+  createdAt: string;
+};
+
+export type WorkspaceMemberSummary = {
+  userId: string;
+  role: WorkspaceRole;
+  createdAt: string;
+};
+
+// A resolved scope and the user's role in it; users own their personal scope
+export type WorkspaceAccess = {
+  scope: WorkspaceScope;
+  role: WorkspaceRole;
+};
+
+export async function getUserWorkspaces(userId: string): Promise<WorkspaceSummary[]> {
+  const memberships = await db
+    .select({ workspace: workspaces, role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+    .where(eq(workspaceMembers.userId, userId))
+    .orderBy(asc(workspaces.name));
+
+  if (memberships.length === 0) {
+    return [];
+  }
+
+  const counts = await db
+    .select({ workspaceId: workspaceMembers.workspaceId, memberCount: count() })
+    .from(workspaceMembers)
+    .where(inArray(workspaceMembers.workspaceId, memberships.map(({ workspace }) => workspace.id)))
+    .groupBy(workspaceMembers.workspaceId);
+  const byWorkspace = new Map(counts.map((row) => [row.workspaceId, row.memberCount]));
+
+  return memberships.map(({ workspace, role }) => ({
+    id: workspace.id,
+    name: workspace.name,
+    role,
+    memberCount: byWorkspace.get(workspace.id) ?? 0,
+    createdAt: workspace.createdAt.toISOString(),
+  }));
+}
+
+export async function getWorkspaceRole(
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceRole | null> {
+  const [member] = await db
+    .select({ role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+    .limit(1);
+
+  return member?.role ?? null;
+}
+
+/**
+ * Resolve the scope a request works in
+ * No workspace means the user's personal links; a workspace the user is not a
+ * member of resolves to null.
+ */
+export async function resolveWorkspaceScope(
+  userId: string,
+  workspaceId: string | null
+): Promise<WorkspaceAccess | null> {
+  if (!workspaceId) {
+    return { scope: { userId, workspaceId: null }, role: "owner" };
+  }
+
+  const role = await getWorkspaceRole(workspaceId, userId);
+  return role ? { scope: { userId, workspaceId }, role } : null;
+}
+
+// Subset of the given link IDs the user can see: personal links and links in their workspaces
+export async function getAccessibleLinkIds(userId: string, linkIds: string[]): Promise<Set<string>> {
+  if (linkIds.length === 0) {
+    return new Set();
+  }
+
+  const rows = await db
+    .select({ id: shortenedUrls.id })
+    .from(shortenedUrls)
+    .where(
+      and(
+        inArray(shortenedUrls.id, linkIds),
+        or(
+          and(eq(shortenedUrls.userId, userId), isNull(shortenedUrls.workspaceId)),
+          inArray(
+            shortenedUrls.workspaceId,
+            db
+              .select({ id: workspaceMembers.workspaceId })
+              .from(workspaceMembers)
+              .where(eq(workspaceMembers.userId, userId))
+          )
+        )
+      )
+    );
+
+  return new Set(rows.map((row) => row.id));
+}
+
+// Create a workspace with the user as its first owner
+export async function createWorkspace(userId: string, name: string): Promise<WorkspaceSummary> {
+  const id = nanoid();
+  const [[workspace]] = await db.batch([
+    db.insert(workspaces).values({ id, name }).returning(),
+    db.insert(workspaceMembers).values({ workspaceId: id, userId, role: "owner" }),
+  ]);
+
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    role: "owner",
+    memberCount: 1,
+    createdAt: workspace.createdAt.toISOString(),
+  };
+}
+
+export async function getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberSummary[]> {
+  const members = await db
+    .select()
+    .from(workspaceMembers)
+    .where(eq(workspaceMembers.workspaceId, workspaceId))
+    .orderBy(asc(workspaceMembers.createdAt));
+
+  return members.map(({ userId, role, createdAt }) => ({
+    userId,
+    role,
+    createdAt: createdAt.toISOString(),
+  }));
+}
+
+// Returns null when the user is already a member
+export async function addWorkspaceMember(
+  workspaceId: string,
+  userId: string,
+  role: WorkspaceRole
+): Promise<WorkspaceMemberSummary | null> {
+  const [member] = await db
+    .insert(workspaceMembers)
+    .values({ workspaceId, userId, role })
+    .onConflictDoNothing()
+    .returning();
+
+  return member
+    ? { userId: member.userId, role: member.role, createdAt: member.createdAt.toISOString() }
+    : null;
+}
+
+export async function updateWorkspaceMemberRole(
+  workspaceId: string,
+  userId: string,
+  role: WorkspaceRole
+): Promise<WorkspaceMemberSummary | null> {
+  const [member] = await db
+    .update(workspaceMembers)
+    .set({ role })
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+    .returning();
+
+  return member
+    ? { userId: member.userId, role: member.role, createdAt: member.createdAt.toISOString() }
+    : null;
+}
+
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+  const [removed] = await db
+    .delete(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+    .returning({ userId: workspaceMembers.userId });
+
+  return !!removed;
+}
+
+// Workspaces must keep at least one owner; callers check this before demoting or removing one
+export async function countWorkspaceOwners(workspaceId: string): Promise<number> {
+  const [result] = await db
+    .select({ owners: count() })
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.role, "owner")));
+
+  return result?.owners ?? 0;
+}
@@ -0,0 +1,99 @@
+import { parseJson, type ApiResponse } from "@/data/links";
+import {
+  WORKSPACE_COOKIE,
+  type AddWorkspaceMemberInput,
+  type CreateWorkspaceInput,
+  type WorkspaceRole,
+} from "@/lib/workspaces";
+
+export type WorkspaceSummary = {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  memberCount: number;
+  createdAt: string;
+};
+
+export type WorkspaceMember = {
+  userId: string;
+  role: WorkspaceRole;
+  email: string | null;
+  name: string | null;
+  createdAt: string;
+};
+
+// The dashboard keeps the selected workspace in a cookie so every API request picks it up
+export function getActiveWorkspaceId(): string | null {
+  if (typeof document === "undefined") return null;
+  const match = document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith(`${WORKSPACE_COOKIE}=`));
+  return match ? decodeURIComponent(match.slice(WORKSPACE_COOKIE.length + 1)) || null : null;
+}
+
+export function setActiveWorkspaceId(workspaceId: string | null): void {
+  document.cookie = workspaceId
+    ? `${WORKSPACE_COOKIE}=${encodeURIComponent(workspaceId)}; path=/; max-age=31536000; samesite=lax`
+    : `${WORKSPACE_COOKIE}=; path=/; max-age=0; samesite=lax`;
+}
+
+export async function fetchWorkspaces(): Promise<WorkspaceSummary[]> {
+  const response = await fetch("/api/workspaces", { cache: "no-store" });
+  const payload = await parseJson<ApiResponse<WorkspaceSummary[]>>(response);
+  return payload.data ?? [];
+}
+
+export async function createWorkspace(input: CreateWorkspaceInput): Promise<WorkspaceSummary> {
+  const response = await fetch("/api/workspaces", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const payload = await parseJson<ApiResponse<WorkspaceSummary>>(response);
+  return payload.data;
+}
+
+export async function fetchWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  const response = await fetch(`/api/workspaces/${encodeURIComponent(workspaceId)}/members`, {
+    cache: "no-store",
+  });
+  const payload = await parseJson<ApiResponse<WorkspaceMember[]>>(response);
+  return payload.data ?? [];
+}
+
+export async function addWorkspaceMember(
+  workspaceId: string,
+  input: AddWorkspaceMemberInput
+): Promise<WorkspaceMember> {
+  const response = await fetch(`/api/workspaces/${encodeURIComponent(workspaceId)}/members`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  const payload = await parseJson<ApiResponse<WorkspaceMember>>(response);
+  return payload.data;
+}
+
+export async function updateWorkspaceMember(
+  workspaceId: string,
+  userId: string,
+  role: WorkspaceRole
+): Promise<void> {
+  const response = await fetch(
+    `/api/workspaces/${encodeURIComponent(workspaceId)}/members/${encodeURIComponent(userId)}`,
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ role }),
+    }
+  );
+  await parseJson<ApiResponse<unknown>>(response);
+}
+
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+  const response = await fetch(
+    `/api/workspaces/${encodeURIComponent(workspaceId)}/members/${encodeURIComponent(userId)}`,
+    { method: "DELETE" }
+  );
+  await parseJson<ApiResponse<{ message: string }>>(response);
+}
@@ -1,5 +1,22 @@
-import { pgTable, text, varchar, integer, timestamp, boolean, index } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import {
+  pgTable,
+  text,
+  varchar,
+  integer,
+  timestamp,
+  boolean,
+  index,
+  jsonb,
+  primaryKey,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { isNotNull, isNull, relations } from "drizzle-orm";
+import type { DeviceRule } from "@/lib/device-targeting";
+import type { GeoRule } from "@/lib/geo-targeting";
+import type { LinkVariant } from "@/lib/link-variants";
+import type { ApiKeyScope } from "@/lib/permissions";
+import type { WebhookDeliveryStatus, WebhookEvent, WebhookEventType } from "@/lib/webhooks";
+import type { WorkspaceRole } from "@/lib/workspaces";
 
 // Shortened URLs table
 export const shortenedUrls = pgTable(
@@ -8,12 +25,36 @@ export const shortenedUrls = pgTable(
     id: text("id").primaryKey(),
     shortCode: varchar("short_code", { length: 12 }).notNull().unique(),
     originalUrl: text("original_url").notNull(),
-    userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID
+    userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID of the creator
+    workspaceId: text("workspace_id"), // null = personal link owned by userId
     customAlias: varchar("custom_alias", { length: 50 }).unique(),
     description: text("description"),
     clicks: integer("clicks").default(0).notNull(),
+    maxClicks: integer("max_clicks"), // null = unlimited
+    passwordHash: text("password_hash"), // scrypt hash; null = no password
     isActive: boolean("is_active").default(true).notNull(),
+    // UTM parameters merged into the destination URL at redirect time
+    utmSource: varchar("utm_source", { length: 255 }),
+    utmMedium: varchar("utm_medium", { length: 255 }),
+    utmCampaign: varchar("utm_campaign", { length: 255 }),
+    utmTerm: varchar("utm_term", { length: 255 }),
+    utmContent: varchar("utm_content", { length: 255 }),
+    // Forward the visitor's query string to the destination; precedence decides which side wins on key clashes
+    forwardQuery: boolean("forward_query").default(false).notNull(),
+    queryPrecedence: varchar("query_precedence", { length: 16 })
+      .$type<"link" | "incoming">()
+      .default("link")
+      .notNull(),
+    // Country -> destination overrides; originalUrl is the fallback
+    geoRules: jsonb("geo_rules").$type<GeoRule[]>().default([]).notNull(),
+    // Platform -> destination overrides, checked before geo rules
+    deviceRules: jsonb("device_rules").$type<DeviceRule[]>().default([]).notNull(),
+    // Weighted A/B destinations replacing originalUrl when present
+    variants: jsonb("variants").$type<LinkVariant[]>().default([]).notNull(),
+    folderId: text("folder_id"), // null = not in a folder
     expiresAt: timestamp("expires_at"),
+    deactivatedAt: timestamp("deactivated_at"), // set when moved to trash, cleared on restore
+    expiryNotifiedAt: timestamp("expiry_notified_at"), // set once the link.expired webhook event is sent
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
@@ -22,6 +63,9 @@ export const shortenedUrls = pgTable(
     shortCodeIdx: index("idx_short_code").on(table.shortCode),
     customAliasIdx: index("idx_custom_alias").on(table.customAlias),
     createdAtIdx: index("idx_created_at").on(table.createdAt),
+    utmCampaignIdx: index("idx_utm_campaign").on(table.userId, table.utmCampaign),
+    folderIdx: index("idx_folder_id").on(table.userId, table.folderId),
+    workspaceIdIdx: index("idx_workspace_id").on(table.workspaceId),
   })
 );
 
@@ -35,6 +79,9 @@ export const clickAnalytics = pgTable(
     ipAddress: varchar("ip_address", { length: 45 }),
     referer: text("referer"),
     country: varchar("country", { length: 2 }),
+    geoRule: varchar("geo_rule", { length: 2 }), // country of the geo rule used; null = original URL
+    deviceRule: varchar("device_rule", { length: 16 }), // platform of the device rule used
+    variantId: varchar("variant_id", { length: 16 }), // A/B variant the visitor was sent to
     clickedAt: timestamp("clicked_at").defaultNow().notNull(),
   },
   (table) => ({
@@ -43,9 +90,222 @@ export const clickAnalytics = pgTable(
   })
 );
 
+// Folders group a user's or workspace's links; each link is in at most one folder
+export const folders = pgTable(
+  "folders",
+  {
+    id: text("id").primaryKey(),
+    userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID of the creator
+    workspaceId: text("workspace_id"), // null = personal folder
+    name: varchar("name", { length: 100 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userNameUnique: uniqueIndex("folders_user_name_unique")
+      .on(table.userId, table.name)
+      .where(isNull(table.workspaceId)),
+    workspaceNameUnique: uniqueIndex("folders_workspace_name_unique")
+      .on(table.workspaceId, table.name)
+      .where(isNotNull(table.workspaceId)),
+  })
+);
+
+// Tags belong to a user or workspace and are created on first use
+export const tags = pgTable(
+  "tags",
+  {
+    id: text("id").primaryKey(),
+    userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID of the creator
+    workspaceId: text("workspace_id"), // null = personal tag
+    name: varchar("name", { length: 50 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userNameUnique: uniqueIndex("tags_user_name_unique")
+      .on(table.userId, table.name)
+      .where(isNull(table.workspaceId)),
+    workspaceNameUnique: uniqueIndex("tags_workspace_name_unique")
+      .on(table.workspaceId, table.name)
+      .where(isNotNull(table.workspaceId)),
+  })
+);
+
+export const linkTags = pgTable(
+  "link_tags",
+  {
+    shortenedUrlId: text("shortened_url_id").notNull(),
+    tagId: text("tag_id").notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.shortenedUrlId, table.tagId] }),
+    tagIdIdx: index("idx_link_tags_tag_id").on(table.tagId),
+  })
+);
+
+// Link-in-bio collections, published at /p/<handle>
+export const collections = pgTable(
+  "collections",
+  {
+    id: text("id").primaryKey(),
+    userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID
+    handle: varchar("handle", { length: 32 }).notNull().unique(),
+    title: varchar("title", { length: 100 }).notNull(),
+    description: text("description"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index("idx_collections_user_id").on(table.userId),
+  })
+);
+
+// Ordered links on a collection page; the title overrides the link description
+export const collectionLinks = pgTable(
+  "collection_links",
+  {
+    id: text("id").primaryKey(),
+    collectionId: text("collection_id").notNull(),
+    shortenedUrlId: text("shortened_url_id").notNull(),
+    title: varchar("title", { length: 100 }),
+    position: integer("position").notNull(),
+  },
+  (table) => ({
+    collectionPositionIdx: index("idx_collection_links_position").on(table.collectionId, table.position),
+    shortenedUrlIdIdx: index("idx_collection_links_url_id").on(table.shortenedUrlId),
+  })
+);
+
+// Workspaces own shared links; access is granted through membership
+export const workspaces = pgTable("workspaces", {
+  id: text("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const workspaceMembers = pgTable(
+  "workspace_members",
+  {
+    workspaceId: text("workspace_id").notNull(),
+    userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID
+    role: varchar("role", { length: 16 }).$type<WorkspaceRole>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.workspaceId, table.userId] }),
+    userIdIdx: index("idx_workspace_members_user_id").on(table.userId),
+  })
+);
+
+// Personal API keys; only a SHA-256 hash of the key is stored
+export const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: text("id").primaryKey(),
+    userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID the key acts as
+    workspaceId: text("workspace_id"), // null = the user's personal links
+    name: varchar("name", { length: 100 }).notNull(),
+    prefix: varchar("prefix", { length: 16 }).notNull(), // first characters, shown to tell keys apart
+    keyHash: varchar("key_hash", { length: 64 }).notNull().unique(),
+    scopes: jsonb("scopes")
+      .$type<ApiKeyScope[]>()
+      .default(["links:read", "links:write", "analytics:read"])
+      .notNull(),
+    rateLimit: integer("rate_limit").default(60).notNull(), // requests per minute
+    lastUsedAt: timestamp("last_used_at"),
+    revokedAt: timestamp("revoked_at"), // null = active
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index("idx_api_keys_user_id").on(table.userId),
+  })
+);
+
+// Outgoing webhook subscriptions; events are sent for links in the same scope
+export const webhooks = pgTable(
+  "webhooks",
+  {
+    id: text("id").primaryKey(),
+    userId: varchar("user_id", { length: 255 }).notNull(), // Clerk user ID of the creator
+    workspaceId: text("workspace_id"), // null = the user's personal links
+    url: text("url").notNull(),
+    secret: varchar("secret", { length: 64 }).notNull(), // HMAC signing secret, kept to sign each delivery
+    events: jsonb("events").$type<WebhookEvent[]>().notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index("idx_webhooks_user_id").on(table.userId),
+    workspaceIdIdx: index("idx_webhooks_workspace_id").on(table.workspaceId),
+  })
+);
+
+// One row per event sent to a webhook, updated on every attempt
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: text("id").primaryKey(),
+    webhookId: text("webhook_id").notNull(),
+    event: varchar("event", { length: 32 }).$type<WebhookEventType>().notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    status: varchar("status", { length: 16 }).$type<WebhookDeliveryStatus>().default("pending").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    responseStatus: integer("response_status"), // HTTP status of the last attempt, null if it never got a response
+    error: text("error"),
+    nextAttemptAt: timestamp("next_attempt_at"), // null once delivered or given up on
+    lastAttemptAt: timestamp("last_attempt_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    webhookIdIdx: index("idx_webhook_deliveries_webhook_id").on(table.webhookId, table.createdAt),
+    nextAttemptIdx: index("idx_webhook_deliveries_next_attempt").on(table.status, table.nextAttemptAt),
+  })
+);
+
 // Relations
-export const shortenedUrlsRelations = relations(shortenedUrls, ({ many }) => ({
+export const shortenedUrlsRelations = relations(shortenedUrls, ({ one, many }) => ({
   analytics: many(clickAnalytics),
+  collectionLinks: many(collectionLinks),
+  folder: one(folders, {
+    fields: [shortenedUrls.folderId],
+    references: [folders.id],
+  }),
+  linkTags: many(linkTags),
+  workspace: one(workspaces, {
+    fields: [shortenedUrls.workspaceId],
+    references: [workspaces.id],
+  }),
+}));
+
+export const workspacesRelations = relations(workspaces, ({ many }) => ({
+  members: many(workspaceMembers),
+  links: many(shortenedUrls),
+}));
+
+export const workspaceMembersRelations = relations(workspaceMembers, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [workspaceMembers.workspaceId],
+    references: [workspaces.id],
+  }),
+}));
+
+export const foldersRelations = relations(folders, ({ many }) => ({
+  links: many(shortenedUrls),
+}));
+
+export const tagsRelations = relations(tags, ({ many }) => ({
+  linkTags: many(linkTags),
+}));
+
+export const linkTagsRelations = relations(linkTags, ({ one }) => ({
+  shortenedUrl: one(shortenedUrls, {
+    fields: [linkTags.shortenedUrlId],
+    references: [shortenedUrls.id],
+  }),
+  tag: one(tags, {
+    fields: [linkTags.tagId],
+    references: [tags.id],
+  }),
 }));
 
 export const clickAnalyticsRelations = relations(clickAnalytics, ({ one }) => ({
@@ -55,8 +315,32 @@ export const clickAnalyticsRelations = relations(clickAnalytics, ({ one }) => ({
   }),
 }));
 
+export const collectionsRelations = relations(collections, ({ many }) => ({
+  links: many(collectionLinks),
+}));
+
+export const collectionLinksRelations = relations(collectionLinks, ({ one }) => ({
+  collection: one(collections, {
+    fields: [collectionLinks.collectionId],
+    references: [collections.id],
+  }),
+  shortenedUrl: one(shortenedUrls, {
+    fields: [collectionLinks.shortenedUrlId],
+    references: [shortenedUrls.id],
+  }),
+}));
+
 // Types
 export type ShortenedUrl = typeof shortenedUrls.$inferSelect;
 export type NewShortenedUrl = typeof shortenedUrls.$inferInsert;
 export type ClickAnalytic = typeof clickAnalytics.$inferSelect;
 export type NewClickAnalytic = typeof clickAnalytics.$inferInsert;
+export type Collection = typeof collections.$inferSelect;
+export type CollectionLink = typeof collectionLinks.$inferSelect;
+export type Folder = typeof folders.$inferSelect;
+export type Tag = typeof tags.$inferSelect;
+export type Workspace = typeof workspaces.$inferSelect;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type Webhook = typeof webhooks.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
@@ -0,0 +1 @@
+ALTER TABLE "shortened_urls" ADD COLUMN "max_clicks" integer;
\ No newline at end of file
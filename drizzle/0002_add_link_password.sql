@@ -0,0 +1 @@
+ALTER TABLE "shortened_urls" ADD COLUMN "password_hash" text;
\ No newline at end of file
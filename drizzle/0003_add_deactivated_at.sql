@@ -0,0 +1 @@
+ALTER TABLE "shortened_urls" ADD COLUMN "deactivated_at" timestamp;
\ No newline at end of file
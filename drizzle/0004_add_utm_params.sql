@@ -0,0 +1,6 @@
+ALTER TABLE "shortened_urls" ADD COLUMN "utm_source" varchar(255);--> statement-breakpoint
+ALTER TABLE "shortened_urls" ADD COLUMN "utm_medium" varchar(255);--> statement-breakpoint
+ALTER TABLE "shortened_urls" ADD COLUMN "utm_campaign" varchar(255);--> statement-breakpoint
+ALTER TABLE "shortened_urls" ADD COLUMN "utm_term" varchar(255);--> statement-breakpoint
+ALTER TABLE "shortened_urls" ADD COLUMN "utm_content" varchar(255);--> statement-breakpoint
+CREATE INDEX "idx_utm_campaign" ON "shortened_urls" USING btree ("user_id","utm_campaign");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "shortened_urls" ADD COLUMN "forward_query" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "shortened_urls" ADD COLUMN "query_precedence" varchar(16) DEFAULT 'link' NOT NULL;
\ No newline at end of file
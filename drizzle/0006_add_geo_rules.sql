@@ -0,0 +1,2 @@
+ALTER TABLE "click_analytics" ADD COLUMN "geo_rule" varchar(2);--> statement-breakpoint
+ALTER TABLE "shortened_urls" ADD COLUMN "geo_rules" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
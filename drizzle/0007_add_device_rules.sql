@@ -0,0 +1,2 @@
+ALTER TABLE "click_analytics" ADD COLUMN "device_rule" varchar(16);--> statement-breakpoint
+ALTER TABLE "shortened_urls" ADD COLUMN "device_rules" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "click_analytics" ADD COLUMN "variant_id" varchar(16);--> statement-breakpoint
+ALTER TABLE "shortened_urls" ADD COLUMN "variants" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
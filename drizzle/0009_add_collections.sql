@@ -0,0 +1,22 @@
+CREATE TABLE "collection_links" (
+	"id" text PRIMARY KEY NOT NULL,
+	"collection_id" text NOT NULL,
+	"shortened_url_id" text NOT NULL,
+	"title" varchar(100),
+	"position" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "collections" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"handle" varchar(32) NOT NULL,
+	"title" varchar(100) NOT NULL,
+	"description" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "collections_handle_unique" UNIQUE("handle")
+);
+--> statement-breakpoint
+CREATE INDEX "idx_collection_links_position" ON "collection_links" USING btree ("collection_id","position");--> statement-breakpoint
+CREATE INDEX "idx_collection_links_url_id" ON "collection_links" USING btree ("shortened_url_id");--> statement-breakpoint
+CREATE INDEX "idx_collections_user_id" ON "collections" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE "folders" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "folders_user_name_unique" UNIQUE("user_id","name")
+);
+--> statement-breakpoint
+CREATE TABLE "link_tags" (
+	"shortened_url_id" text NOT NULL,
+	"tag_id" text NOT NULL,
+	CONSTRAINT "link_tags_shortened_url_id_tag_id_pk" PRIMARY KEY("shortened_url_id","tag_id")
+);
+--> statement-breakpoint
+CREATE TABLE "tags" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"name" varchar(50) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "tags_user_name_unique" UNIQUE("user_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "shortened_urls" ADD COLUMN "folder_id" text;--> statement-breakpoint
+CREATE INDEX "idx_link_tags_tag_id" ON "link_tags" USING btree ("tag_id");--> statement-breakpoint
+CREATE INDEX "idx_folder_id" ON "shortened_urls" USING btree ("user_id","folder_id");
\ No newline at end of file
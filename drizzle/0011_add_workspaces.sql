@@ -0,0 +1,25 @@
+CREATE TABLE "workspace_members" (
+	"workspace_id" text NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"role" varchar(16) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "workspace_members_workspace_id_user_id_pk" PRIMARY KEY("workspace_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "workspaces" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "folders" DROP CONSTRAINT "folders_user_name_unique";--> statement-breakpoint
+ALTER TABLE "tags" DROP CONSTRAINT "tags_user_name_unique";--> statement-breakpoint
+ALTER TABLE "folders" ADD COLUMN "workspace_id" text;--> statement-breakpoint
+ALTER TABLE "shortened_urls" ADD COLUMN "workspace_id" text;--> statement-breakpoint
+ALTER TABLE "tags" ADD COLUMN "workspace_id" text;--> statement-breakpoint
+CREATE INDEX "idx_workspace_members_user_id" ON "workspace_members" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "folders_user_name_unique" ON "folders" USING btree ("user_id","name") WHERE "folders"."workspace_id" is null;--> statement-breakpoint
+CREATE UNIQUE INDEX "folders_workspace_name_unique" ON "folders" USING btree ("workspace_id","name") WHERE "folders"."workspace_id" is not null;--> statement-breakpoint
+CREATE INDEX "idx_workspace_id" ON "shortened_urls" USING btree ("workspace_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "tags_user_name_unique" ON "tags" USING btree ("user_id","name") WHERE "tags"."workspace_id" is null;--> statement-breakpoint
+CREATE UNIQUE INDEX "tags_workspace_name_unique" ON "tags" USING btree ("workspace_id","name") WHERE "tags"."workspace_id" is not null;
\ No newline at end of file
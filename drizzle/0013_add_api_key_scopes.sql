@@ -0,0 +1,2 @@
+ALTER TABLE "api_keys" ADD COLUMN "scopes" jsonb DEFAULT '["links:read","links:write","analytics:read"]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "rate_limit" integer DEFAULT 60 NOT NULL;
\ No newline at end of file
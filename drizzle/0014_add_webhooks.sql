@@ -0,0 +1,31 @@
+CREATE TABLE "webhook_deliveries" (
+	"id" text PRIMARY KEY NOT NULL,
+	"webhook_id" text NOT NULL,
+	"event" varchar(32) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" varchar(16) DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"response_status" integer,
+	"error" text,
+	"next_attempt_at" timestamp,
+	"last_attempt_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "webhooks" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"workspace_id" text,
+	"url" text NOT NULL,
+	"secret" varchar(64) NOT NULL,
+	"events" jsonb NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "shortened_urls" ADD COLUMN "expiry_notified_at" timestamp;--> statement-breakpoint
+CREATE INDEX "idx_webhook_deliveries_webhook_id" ON "webhook_deliveries" USING btree ("webhook_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_webhook_deliveries_next_attempt" ON "webhook_deliveries" USING btree ("status","next_attempt_at");--> statement-breakpoint
+CREATE INDEX "idx_webhooks_user_id" ON "webhooks" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_webhooks_workspace_id" ON "webhooks" USING btree ("workspace_id");
\ No newline at end of file
@@ -0,0 +1,197 @@
+import type { LinkVariant } from "@/lib/link-variants";
+
+/**
+ * Click analytics helpers
+ * Shared types and pure aggregation utilities used by the analytics API and dashboard
+ */
+
+export const ANALYTICS_INTERVALS = ["hour", "day", "week"] as const;
+
+export type AnalyticsInterval = (typeof ANALYTICS_INTERVALS)[number];
+
+export const INTERVAL_MS: Record<AnalyticsInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Upper bound on time-series points per request (e.g. ~41 days of hourly buckets)
+export const MAX_BUCKETS = 1000;
+
+export interface TimeSeriesPoint {
+  bucket: string;
+  clicks: number;
+}
+
+export interface BreakdownItem {
+  name: string;
+  clicks: number;
+}
+
+// Clicks per A/B variant; variants removed from the link keep their history with a null url
+export interface VariantStats {
+  id: string;
+  url: string | null;
+  weight: number | null;
+  clicks: number;
+}
+
+export interface LinkAnalytics {
+  range: {
+    from: string;
+    to: string;
+    interval: AnalyticsInterval;
+  };
+  totalClicks: number;
+  timeSeries: TimeSeriesPoint[];
+  referers: BreakdownItem[];
+  countries: BreakdownItem[];
+  browsers: BreakdownItem[];
+  devices: BreakdownItem[];
+  variants: VariantStats[];
+}
+
+export interface RecentClick {
+  id: string;
+  clickedAt: string;
+  referer: string | null;
+  country: string | null;
+  browser: string;
+  os: string;
+  device: string;
+}
+
+// A click row in a data export, identified by its link
+export interface ExportedClick extends RecentClick {
+  linkId: string;
+  shortCode: string;
+  geoRule: string | null;
+  deviceRule: string | null;
+  variantId: string | null;
+}
+
+/**
+ * Truncate a date to the start of its bucket (UTC)
+ * Mirrors Postgres date_trunc, where weeks start on Monday
+ */
+export function truncateToInterval(date: Date, interval: AnalyticsInterval): Date {
+  const truncated = new Date(date);
+
+  if (interval === "hour") {
+    truncated.setUTCMinutes(0, 0, 0);
+    return truncated;
+  }
+
+  truncated.setUTCHours(0, 0, 0, 0);
+  if (interval === "week") {
+    const daysSinceMonday = (truncated.getUTCDay() + 6) % 7;
+    truncated.setUTCDate(truncated.getUTCDate() - daysSinceMonday);
+  }
+  return truncated;
+}
+
+/**
+ * Count the buckets a range spans for the given interval
+ */
+export function countBuckets(from: Date, to: Date, interval: AnalyticsInterval): number {
+  const start = truncateToInterval(from, interval).getTime();
+  const end = truncateToInterval(to, interval).getTime();
+  return Math.floor((end - start) / INTERVAL_MS[interval]) + 1;
+}
+
+/**
+ * Build a continuous time series, filling buckets without clicks with zero
+ * @param rows - Aggregated counts keyed by bucket start
+ */
+export function buildTimeSeries(
+  rows: Array<{ bucket: Date; clicks: number }>,
+  interval: AnalyticsInterval,
+  from: Date,
+  to: Date
+): TimeSeriesPoint[] {
+  const counts = new Map<number, number>();
+  for (const row of rows) {
+    const key = truncateToInterval(row.bucket, interval).getTime();
+    counts.set(key, (counts.get(key) ?? 0) + row.clicks);
+  }
+
+  const series: TimeSeriesPoint[] = [];
+  const end = truncateToInterval(to, interval).getTime();
+  for (
+    let cursor = truncateToInterval(from, interval).getTime();
+    cursor <= end;
+    cursor += INTERVAL_MS[interval]
+  ) {
+    series.push({
+      bucket: new Date(cursor).toISOString(),
+      clicks: counts.get(cursor) ?? 0,
+    });
+  }
+  return series;
+}
+
+/**
+ * Reduce a referer URL to its hostname ("Direct" when absent or unparseable)
+ */
+export function getRefererName(referer: string | null): string {
+  if (!referer) {
+    return "Direct";
+  }
+  try {
+    return new URL(referer).hostname.replace(/^www\./, "") || "Direct";
+  } catch {
+    return "Direct";
+  }
+}
+
+/**
+ * Merge grouped rows under a derived name and return the top entries
+ * @param rows - Grouped counts as returned by the database
+ * @param getName - Maps a raw value onto the label it is reported under
+ * @param limit - Maximum number of entries to return
+ */
+export function summarizeBreakdown<T>(
+  rows: Array<{ value: T; clicks: number }>,
+  getName: (value: T) => string,
+  limit: number
+): BreakdownItem[] {
+  const totals = new Map<string, number>();
+  for (const row of rows) {
+    const name = getName(row.value);
+    totals.set(name, (totals.get(name) ?? 0) + row.clicks);
+  }
+
+  return Array.from(totals, ([name, clicks]) => ({ name, clicks }))
+    .sort((a, b) => b.clicks - a.clicks || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+/**
+ * Attach click counts to a link's variants
+ * Current variants are listed in their configured order (including those
+ * without clicks), followed by removed variants that still have clicks
+ */
+export function summarizeVariants(
+  variants: LinkVariant[],
+  rows: Array<{ value: string | null; clicks: number }>
+): VariantStats[] {
+  const clicksById = new Map<string, number>();
+  for (const row of rows) {
+    if (row.value) {
+      clicksById.set(row.value, (clicksById.get(row.value) ?? 0) + row.clicks);
+    }
+  }
+
+  const current = variants.map(({ id, url, weight }) => ({
+    id,
+    url,
+    weight,
+    clicks: clicksById.get(id) ?? 0,
+  }));
+  const currentIds = new Set(variants.map((variant) => variant.id));
+  const removed = Array.from(clicksById)
+    .filter(([id]) => !currentIds.has(id))
+    .map(([id, clicks]) => ({ id, url: null, weight: null, clicks }));
+
+  return [...current, ...removed];
+}
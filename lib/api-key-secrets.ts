@@ -0,0 +1,20 @@
+import { createHash, randomBytes } from "crypto";
+import { API_KEY_DISPLAY_LENGTH, API_KEY_PREFIX } from "@/lib/api-keys";
+
+/**
+ * Generating and hashing API keys
+ * Kept apart from lib/api-keys.ts so the dashboard can use its constants
+ * without bundling Node's crypto module.
+ */
+
+const API_KEY_RANDOM_BYTES = 24;
+
+// Keys carry 192 random bits, so a fast hash is enough to make the stored value useless
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(API_KEY_RANDOM_BYTES).toString("base64url")}`;
+  return { key, prefix: key.slice(0, API_KEY_DISPLAY_LENGTH), keyHash: hashApiKey(key) };
+}
@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { API_KEY_SCOPES } from "@/lib/permissions";
+
+/**
+ * Personal API keys
+ * Scripts and integrations send a key as "Authorization: Bearer <key>" instead
+ * of a Clerk session. A key acts as the user who created it, limited to the
+ * user's personal links or a single workspace, to its scopes (see
+ * lib/permissions.ts) and to its own rate limit. Only the SHA-256 hash is
+ * stored; the key itself is shown once when it is created.
+ */
+
+export const API_KEY_PREFIX = "lsk_";
+export const API_KEY_DISPLAY_LENGTH = 12;
+export const MAX_API_KEYS_PER_USER = 25;
+
+// Each key has its own quota of requests per window, counted by key rather than IP
+export const API_KEY_RATE_LIMIT_WINDOW_SECONDS = 60;
+export const DEFAULT_API_KEY_RATE_LIMIT = 60;
+export const MAX_API_KEY_RATE_LIMIT = 1000;
+
+/**
+ * API key sent in an "Authorization: Bearer" header
+ * Other bearer tokens (such as Clerk session tokens) are left to Clerk.
+ */
+export function getApiKeyFromHeaders(headers: Headers): string | null {
+  const match = headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return match && match[1].startsWith(API_KEY_PREFIX) ? match[1] : null;
+}
+
+export const CreateApiKeySchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, "Key name is required")
+    .max(100, "Key name must be at most 100 characters"),
+  workspaceId: z.string().min(1).nullable().default(null),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES))
+    .min(1, "Pick at least one scope")
+    .transform((scopes) => [...new Set(scopes)])
+    .default([...API_KEY_SCOPES]),
+  rateLimit: z
+    .number()
+    .int("Rate limit must be a whole number")
+    .min(1, "Rate limit must be at least 1 request per minute")
+    .max(MAX_API_KEY_RATE_LIMIT, `Rate limit must be at most ${MAX_API_KEY_RATE_LIMIT} requests per minute`)
+    .default(DEFAULT_API_KEY_RATE_LIMIT),
+});
+
+export type CreateApiKeyInput = z.input<typeof CreateApiKeySchema>;
+export type ApiKeySettings = z.infer<typeof CreateApiKeySchema>;
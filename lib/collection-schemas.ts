@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+/**
+ * Collection (link-in-bio page) validation schemas
+ * Shared by the collection API routes and the dashboard editor
+ */
+
+export const MAX_COLLECTION_LINKS = 50;
+
+const handleField = z.string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9_-]+$/, "Handle can only contain letters, numbers, hyphens, and underscores")
+  .min(3, "Handle must be at least 3 characters")
+  .max(32, "Handle must be at most 32 characters");
+
+const titleField = z.string()
+  .trim()
+  .min(1, "Title is required")
+  .max(100, "Title must be at most 100 characters");
+
+const descriptionField = z.string().max(500, "Description must be at most 500 characters");
+
+// Links in page order; a title overrides the link's own description on the page
+const collectionLinksField = z
+  .array(
+    z.object({
+      linkId: z.string().min(1, "Link ID is required"),
+      title: z.string().trim().max(100, "Link titles must be at most 100 characters").nullable().optional(),
+    })
+  )
+  .max(MAX_COLLECTION_LINKS, `A collection can contain at most ${MAX_COLLECTION_LINKS} links`)
+  .refine(
+    (links) => new Set(links.map((link) => link.linkId)).size === links.length,
+    "A link can only appear once in a collection"
+  );
+
+export const CreateCollectionSchema = z.object({
+  handle: handleField,
+  title: titleField,
+  description: descriptionField.optional(),
+});
+
+// null clears the description; `links` replaces the whole list
+export const UpdateCollectionSchema = z
+  .object({
+    handle: handleField.optional(),
+    title: titleField.optional(),
+    description: descriptionField.nullable().optional(),
+    links: collectionLinksField.optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one field must be provided",
+  });
+
+export type CreateCollectionInput = z.infer<typeof CreateCollectionSchema>;
+export type UpdateCollectionInput = z.infer<typeof UpdateCollectionSchema>;
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { RATE_LIMIT_HEADERS, applyRateLimitHeaders } from "@/lib/rate-limit-headers";
 
 /**
  * CORS configuration
@@ -19,6 +20,7 @@ const ALLOWED_HEADERS = [
   "X-Requested-With",
   "Accept",
   "Origin",
+  "X-Workspace-Id",
 ];
 
 /**
@@ -51,6 +53,10 @@ export function withCorsHeaders(
   responseToModify.headers.set("Access-Control-Allow-Methods", ALLOWED_METHODS.join(", "));
   responseToModify.headers.set("Access-Control-Allow-Headers", ALLOWED_HEADERS.join(", "));
   responseToModify.headers.set("Access-Control-Max-Age", "86400"); // 24 hours
+  responseToModify.headers.set("Access-Control-Expose-Headers", RATE_LIMIT_HEADERS.join(", "));
+
+  // Report the rate limit the request was checked against, if any
+  applyRateLimitHeaders(request, responseToModify.headers);
 
   return responseToModify;
 }
@@ -0,0 +1,101 @@
+/**
+ * Minimal RFC 4180 CSV parsing
+ * Supports quoted fields with embedded commas, quotes ("") and line breaks,
+ * and both LF and CRLF line endings.
+ */
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  // Last row without a trailing newline
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * Parse CSV with a header row into one record per data row, keyed by header name
+ * Header names are trimmed; missing trailing cells become empty strings.
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const keys = header.map((key) => key.trim());
+  return rows.map((cells) =>
+    Object.fromEntries(keys.map((key, index) => [key, cells[index] ?? ""]))
+  );
+}
+
+// Leading characters that make spreadsheet apps evaluate a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Format one CSV line (with trailing CRLF)
+ * Null and undefined become empty cells. Text that a spreadsheet would treat as a
+ * formula is prefixed with a single quote to prevent CSV injection.
+ */
+export function formatCsvRow(values: unknown[]): string {
+  const cells = values.map((value) => {
+    if (value === null || value === undefined) {
+      return "";
+    }
+
+    // Structured values such as geo rules are written as JSON
+    let cell = typeof value === "object" ? JSON.stringify(value) : String(value);
+    if (typeof value === "string" && FORMULA_PREFIX.test(cell)) {
+      cell = `'${cell}`;
+    }
+
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  });
+
+  return `${cells.join(",")}\r\n`;
+}
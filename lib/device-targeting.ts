@@ -0,0 +1,50 @@
+import { parseUserAgent } from "@/lib/user-agent";
+
+/**
+ * Device-targeted destinations
+ * App-install links can send iOS visitors to the App Store, Android visitors
+ * to the Play Store and desktop visitors to a website. Visitors that match no
+ * rule (other mobile platforms, bots, missing user agents) go to the link's
+ * original URL.
+ */
+
+export const DEVICE_TARGETS = ["ios", "android", "desktop"] as const;
+export type DeviceTarget = (typeof DEVICE_TARGETS)[number];
+
+export const DEVICE_TARGET_LABELS: Record<DeviceTarget, string> = {
+  ios: "iOS",
+  android: "Android",
+  desktop: "Desktop",
+};
+
+export interface DeviceRule {
+  device: DeviceTarget;
+  url: string;
+}
+
+/**
+ * Classify a user agent into a routing target
+ * iOS and Android cover phones and tablets alike; returns null for anything
+ * that is neither of those nor a desktop browser
+ */
+export function getDeviceTarget(userAgent: string | null | undefined): DeviceTarget | null {
+  const { os, device } = parseUserAgent(userAgent);
+  if (os === "iOS") {
+    return "ios";
+  }
+  if (os === "Android") {
+    return "android";
+  }
+  return device === "desktop" ? "desktop" : null;
+}
+
+export function matchDeviceRule(
+  rules: DeviceRule[],
+  userAgent: string | null | undefined
+): DeviceRule | null {
+  if (rules.length === 0) {
+    return null;
+  }
+  const target = getDeviceTarget(userAgent);
+  return rules.find((rule) => rule.device === target) ?? null;
+}
@@ -0,0 +1,130 @@
+import { formatCsvRow } from "@/lib/csv";
+
+/**
+ * Streaming data exports
+ * Records arrive in pages (so large accounts are never loaded into memory at
+ * once) and are serialized as CSV, a JSON array or newline-delimited JSON.
+ */
+
+export const EXPORT_FORMATS = ["csv", "json", "ndjson"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+export const LINK_EXPORT_COLUMNS = [
+  "id",
+  "shortCode",
+  "originalUrl",
+  "customAlias",
+  "description",
+  "clicks",
+  "maxClicks",
+  "hasPassword",
+  "utmSource",
+  "utmMedium",
+  "utmCampaign",
+  "utmTerm",
+  "utmContent",
+  "forwardQuery",
+  "queryPrecedence",
+  "geoRules",
+  "deviceRules",
+  "variants",
+  "folderId",
+  "tags",
+  "isActive",
+  "expiresAt",
+  "deactivatedAt",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+export const CLICK_EXPORT_COLUMNS = [
+  "id",
+  "linkId",
+  "shortCode",
+  "clickedAt",
+  "referer",
+  "country",
+  "geoRule",
+  "deviceRule",
+  "variantId",
+  "browser",
+  "os",
+  "device",
+] as const;
+
+type ExportRecord<C extends string> = { [K in C]: unknown };
+
+/**
+ * Serialize a single record; JSON formats only include the given columns
+ */
+export function serializeRecord<C extends string>(
+  format: ExportFormat,
+  columns: readonly C[],
+  record: ExportRecord<C>,
+  isFirst: boolean
+): string {
+  if (format === "csv") {
+    return formatCsvRow(columns.map((column) => record[column]));
+  }
+
+  const picked = Object.fromEntries(columns.map((column) => [column, record[column] ?? null]));
+  const json = JSON.stringify(picked);
+  if (format === "ndjson") {
+    return `${json}\n`;
+  }
+  return isFirst ? json : `,${json}`;
+}
+
+export function createExportStream<C extends string>(
+  format: ExportFormat,
+  columns: readonly C[],
+  pages: AsyncIterable<ExportRecord<C>[]>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = pages[Symbol.asyncIterator]();
+  let isFirst = true;
+
+  return new ReadableStream({
+    start(controller) {
+      if (format === "csv") {
+        controller.enqueue(encoder.encode(formatCsvRow([...columns])));
+      } else if (format === "json") {
+        controller.enqueue(encoder.encode("["));
+      }
+    },
+    // Fetch one page per pull so a slow client applies backpressure to the database reads
+    async pull(controller) {
+      const { value: page, done } = await iterator.next();
+
+      if (done) {
+        if (format === "json") {
+          controller.enqueue(encoder.encode("]\n"));
+        }
+        controller.close();
+        return;
+      }
+
+      const chunk = page
+        .map((record) => {
+          const serialized = serializeRecord(format, columns, record, isFirst);
+          isFirst = false;
+          return serialized;
+        })
+        .join("");
+      controller.enqueue(encoder.encode(chunk));
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+export function getExportFilename(type: string, format: ExportFormat, now: Date = new Date()): string {
+  return `${type}-${now.toISOString().slice(0, 10)}.${format}`;
+}
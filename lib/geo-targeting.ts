@@ -0,0 +1,24 @@
+/**
+ * Geo-targeted destinations
+ * A link can send visitors from specific countries to their own destination;
+ * everyone else (and visitors whose country is unknown) goes to the link's
+ * original URL.
+ */
+
+export const MAX_GEO_RULES = 50;
+
+export interface GeoRule {
+  country: string; // two-letter ISO code, uppercase
+  url: string;
+}
+
+/**
+ * Find the rule for a visitor's country
+ * Returns null when the country is unknown or no rule matches
+ */
+export function matchGeoRule(rules: GeoRule[], country: string | null): GeoRule | null {
+  if (!country) {
+    return null;
+  }
+  return rules.find((rule) => rule.country === country) ?? null;
+}
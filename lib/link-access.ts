@@ -0,0 +1,111 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Access cookies for password-protected links
+ * After a correct password the visitor gets a short-lived HMAC-signed cookie so
+ * repeat visits skip the prompt. The signature covers the password hash, so
+ * changing or removing the password invalidates existing cookies.
+ *
+ * Environment variables:
+ * - LINK_ACCESS_SECRET: signing key (falls back to CLERK_SECRET_KEY)
+ */
+
+export const LINK_ACCESS_TTL_SECONDS = 60 * 60; // 1 hour
+
+function getSecret(): string {
+  const secret = process.env.LINK_ACCESS_SECRET || process.env.CLERK_SECRET_KEY;
+  if (!secret) {
+    throw new Error("LINK_ACCESS_SECRET is not configured");
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSecret()).update(payload).digest("base64url");
+}
+
+export function getLinkAccessCookieName(shortCode: string): string {
+  return `link_access_${shortCode}`;
+}
+
+/**
+ * Create a cookie value of the form "<expiresAtSeconds>.<signature>"
+ */
+export function createLinkAccessToken(
+  linkId: string,
+  passwordHash: string,
+  now: number = Date.now()
+): string {
+  const expiresAt = Math.floor(now / 1000) + LINK_ACCESS_TTL_SECONDS;
+  return `${expiresAt}.${sign(`${linkId}.${passwordHash}.${expiresAt}`)}`;
+}
+
+export function verifyLinkAccessToken(
+  token: string | undefined,
+  linkId: string,
+  passwordHash: string,
+  now: number = Date.now()
+): boolean {
+  if (!token) {
+    return false;
+  }
+
+  const [expiresAtRaw, signature] = token.split(".");
+  const expiresAt = Number(expiresAtRaw);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < now) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(`${linkId}.${passwordHash}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Render the standalone interstitial shown before redirecting a protected link
+ */
+export function renderPasswordPage(shortCode: string, error?: string): string {
+  const code = escapeHtml(shortCode);
+  const errorHtml = error ? `<p class="error" role="alert">${escapeHtml(error)}</p>` : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Password required</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, sans-serif; background: #0b1324; color: #f1f5f9; }
+  main { width: 100%; max-width: 22rem; padding: 2rem; border: 1px solid rgba(34, 211, 238, 0.2); border-radius: 1rem; background: #020617; }
+  h1 { margin: 0 0 0.5rem; font-size: 1.25rem; }
+  p { margin: 0 0 1.25rem; color: #94a3b8; font-size: 0.875rem; }
+  label { display: block; margin-bottom: 0.5rem; font-size: 0.75rem; color: #cbd5f5; }
+  input { box-sizing: border-box; width: 100%; padding: 0.6rem 0.75rem; border: 1px solid #1e293b; border-radius: 0.5rem; background: #0a1a2a; color: #e2e8f0; font-size: 1rem; }
+  button { width: 100%; margin-top: 1rem; padding: 0.6rem; border: 0; border-radius: 0.5rem; background: #22d3ee; color: #0f172a; font-weight: 600; font-size: 1rem; cursor: pointer; }
+  .error { color: #ff6b6b; margin: 1rem 0 0; }
+</style>
+</head>
+<body>
+<main>
+  <h1>This link is password protected</h1>
+  <p>Enter the password to continue to /l/${code}.</p>
+  <form method="post">
+    <label for="password">Password</label>
+    <input id="password" name="password" type="password" autocomplete="current-password" required autofocus>
+    ${errorHtml}
+    <button type="submit">Continue</button>
+  </form>
+</main>
+</body>
+</html>`;
+}
@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { parseCsvRecords } from "@/lib/csv";
+import { CreateLinkSchema } from "@/lib/link-schemas";
+import { SHORT_CODE_MAX_LENGTH } from "@/lib/short-code";
+
+/**
+ * Parsing for link imports from other shorteners
+ * Understands Bitly exports (bitlink, long_url, title, total_clicks, ...) and
+ * generic CSVs with columns such as url, alias/short_code, description, clicks
+ * and created_at. Column names are matched case-insensitively, ignoring
+ * spaces, dashes and underscores.
+ */
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export type ImportSource = "bitly" | "generic";
+
+export type ImportConflictStrategy = "generate" | "skip";
+
+export interface ImportRow {
+  row: number; // 1-based record number in the file, counting the header row
+  originalUrl: string;
+  customAlias?: string;
+  description?: string;
+  clicks: number;
+  createdAt?: string;
+}
+
+export interface ImportRowError {
+  row: number;
+  error: string;
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  rows: ImportRow[];
+  errors: ImportRowError[];
+}
+
+// "conflict" rows want an alias that is already taken (or repeated in the file)
+export interface ImportPreviewRow extends ImportRow {
+  status: "ready" | "conflict";
+}
+
+export interface ImportPreview {
+  source: ImportSource;
+  rows: ImportPreviewRow[];
+  errors: ImportRowError[];
+}
+
+export interface ImportResult {
+  created: number;
+  skipped: number;
+  errors: ImportRowError[];
+}
+
+type ImportField = "originalUrl" | "customAlias" | "description" | "clicks" | "createdAt";
+
+// Candidate source columns per field, in order of preference
+const COLUMN_CANDIDATES: Record<ImportField, string[]> = {
+  originalUrl: ["longurl", "originalurl", "url", "destination", "destinationurl", "target"],
+  customAlias: [
+    "custombitlinks",
+    "customalias",
+    "alias",
+    "shortcode",
+    "backhalf",
+    "slug",
+    "bitlink",
+    "link",
+    "shorturl",
+  ],
+  description: ["title", "description", "name"],
+  clicks: ["totalclicks", "clicks", "visits", "hits"],
+  createdAt: ["createdat", "created", "date"],
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function detectImportSource(headers: string[]): ImportSource {
+  const normalized = new Set(headers.map(normalizeHeader));
+  return normalized.has("longurl") && (normalized.has("bitlink") || normalized.has("link"))
+    ? "bitly"
+    : "generic";
+}
+
+// Short links like "https://bit.ly/abc123" keep only their last path segment;
+// Bitly lists several custom back-halves separated by spaces, the first one wins
+function toAlias(value: string): string {
+  if (!value.includes("/")) {
+    return value.toLowerCase();
+  }
+  const firstLink = value.split(/\s+/)[0] ?? "";
+  const segment = firstLink.replace(/[?#].*$/, "").split("/").filter(Boolean).pop() ?? "";
+  return segment.toLowerCase();
+}
+
+// Aliases that cannot be reused as a short code are dropped rather than failing the row
+const importedAliasField = CreateLinkSchema.shape.customAlias
+  .refine((alias) => !alias || alias.length <= SHORT_CODE_MAX_LENGTH)
+  .catch(undefined);
+
+const ImportRowSchema = z.object({
+  originalUrl: CreateLinkSchema.shape.originalUrl,
+  customAlias: importedAliasField,
+  description: z
+    .string()
+    .transform((value) => value.slice(0, 500))
+    .optional(),
+  clicks: z.coerce.number().int().min(0).catch(0),
+  createdAt: z.coerce
+    .date()
+    .transform((date) => date.toISOString())
+    .optional()
+    .catch(undefined),
+});
+
+export function parseImportFile(text: string): ParsedImport {
+  const records = parseCsvRecords(text);
+  const headers = records[0] ? Object.keys(records[0]) : [];
+
+  // Resolve which file columns can feed each field, in order of preference
+  const columns = Object.fromEntries(
+    Object.entries(COLUMN_CANDIDATES).map(([field, candidates]) => [
+      field,
+      candidates.flatMap((candidate) =>
+        headers.filter((header) => normalizeHeader(header) === candidate)
+      ),
+    ])
+  ) as Record<ImportField, string[]>;
+
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  records.forEach((record, index) => {
+    const row = index + 2;
+    // First non-empty value among the field's columns
+    const read = (field: ImportField) =>
+      columns[field].map((column) => record[column]?.trim()).find((value) => value) || undefined;
+
+    const alias = read("customAlias");
+    const validation = ImportRowSchema.safeParse({
+      originalUrl: read("originalUrl") ?? "",
+      customAlias: alias ? toAlias(alias) : undefined,
+      description: read("description"),
+      clicks: read("clicks")?.replace(/,/g, "") ?? 0,
+      createdAt: read("createdAt"),
+    });
+
+    if (validation.success) {
+      rows.push({ row, ...validation.data });
+    } else {
+      errors.push({ row, error: validation.error.issues[0].message });
+    }
+  });
+
+  return { source: detectImportSource(headers), rows, errors };
+}
@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+/**
+ * Folders and tags for organising links
+ * A link lives in at most one folder and can carry several tags. Tags are
+ * referenced by name and created on first use; folders are created explicitly.
+ */
+
+export const MAX_TAGS_PER_LINK = 10;
+
+// Links that are not in any folder are filtered with this value instead of a folder ID
+export const UNFILED_FOLDER = "none";
+
+export const tagNameField = z.string()
+  .trim()
+  .toLowerCase()
+  .min(1, "Tags cannot be empty")
+  .max(50, "Tags must be at most 50 characters")
+  .regex(/^[\p{L}\p{N} _-]+$/u, "Tags can only contain letters, numbers, spaces, hyphens, and underscores");
+
+export const tagsField = z
+  .array(tagNameField)
+  .max(MAX_TAGS_PER_LINK, `A link can have at most ${MAX_TAGS_PER_LINK} tags`)
+  .transform((tags) => [...new Set(tags)]);
+
+export const FolderSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, "Folder name is required")
+    .max(100, "Folder name must be at most 100 characters"),
+});
+
+export type FolderInput = z.infer<typeof FolderSchema>;
+
+/**
+ * Split a comma-separated tag input ("launch, Social ,launch") into tag names
+ * Names are trimmed and lowercased; blanks and repeats are dropped
+ */
+export function parseTagInput(value: string): string[] {
+  const names = value
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(names)];
+}
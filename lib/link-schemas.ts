@@ -0,0 +1,167 @@
+import { z } from "zod";
+import { DEVICE_TARGETS } from "@/lib/device-targeting";
+import { MAX_GEO_RULES } from "@/lib/geo-targeting";
+import { tagsField } from "@/lib/link-organization";
+import { MAX_LINK_VARIANTS } from "@/lib/link-variants";
+import { QUERY_PRECEDENCES } from "@/lib/redirect-url";
+import { SHORT_CODE_MAX_LENGTH } from "@/lib/short-code";
+import { UTM_FIELDS, type UtmField } from "@/lib/utm";
+
+/**
+ * Link validation schemas
+ * Shared by the API routes and dashboard server actions
+ */
+
+const originalUrlField = z.string().url("Invalid URL format");
+
+// New links use their alias as the short code, so it must fit the short_code column
+const customAliasField = z.string()
+  .regex(/^[a-zA-Z0-9_-]+$/, "Custom alias can only contain letters, numbers, hyphens, and underscores")
+  .min(3, "Custom alias must be at least 3 characters")
+  .max(SHORT_CODE_MAX_LENGTH, `Custom alias must be at most ${SHORT_CODE_MAX_LENGTH} characters`);
+
+const descriptionField = z.string().max(500, "Description must be at most 500 characters");
+
+const expiresAtField = z.string()
+  .datetime("Invalid expiry date")
+  .refine((value) => new Date(value) > new Date(), "Expiry date must be in the future");
+
+const maxClicksField = z.number()
+  .int("Max clicks must be a whole number")
+  .min(1, "Max clicks must be at least 1")
+  .max(1_000_000, "Max clicks must be at most 1,000,000");
+
+const passwordField = z.string()
+  .min(4, "Password must be at least 4 characters")
+  .max(128, "Password must be at most 128 characters");
+
+const utmField = z.string()
+  .trim()
+  .min(1, "UTM values cannot be empty")
+  .max(255, "UTM values must be at most 255 characters");
+
+const geoRulesField = z
+  .array(
+    z.object({
+      country: z.string()
+        .trim()
+        .toUpperCase()
+        .regex(/^[A-Z]{2}$/, "Country must be a two-letter ISO code"),
+      url: originalUrlField,
+    })
+  )
+  .max(MAX_GEO_RULES, `At most ${MAX_GEO_RULES} geo rules are allowed`)
+  .refine(
+    (rules) => new Set(rules.map((rule) => rule.country)).size === rules.length,
+    "Each country can only have one geo rule"
+  );
+
+const deviceRulesField = z
+  .array(z.object({ device: z.enum(DEVICE_TARGETS), url: originalUrlField }))
+  .refine(
+    (rules) => new Set(rules.map((rule) => rule.device)).size === rules.length,
+    "Each device can only have one rule"
+  );
+
+const variantsField = z
+  .array(
+    z.object({
+      id: z.string().regex(/^[a-zA-Z0-9_-]{1,16}$/, "Invalid variant id").optional(),
+      url: originalUrlField,
+      weight: z.number()
+        .int("Variant weights must be whole numbers")
+        .min(1, "Variant weights must be at least 1")
+        .max(1000, "Variant weights must be at most 1000"),
+    })
+  )
+  .max(MAX_LINK_VARIANTS, `At most ${MAX_LINK_VARIANTS} variants are allowed`)
+  .refine((variants) => variants.length !== 1, "A split needs at least two variants")
+  .refine((variants) => {
+    const ids = variants.flatMap((variant) => (variant.id ? [variant.id] : []));
+    return new Set(ids).size === ids.length;
+  }, "Variant ids must be unique");
+
+const folderIdField = z.string().min(1, "Invalid folder").max(64, "Invalid folder");
+
+const utmFields = Object.fromEntries(
+  UTM_FIELDS.map((field) => [field, utmField.optional()])
+) as Record<UtmField, z.ZodOptional<typeof utmField>>;
+
+const nullableUtmFields = Object.fromEntries(
+  UTM_FIELDS.map((field) => [field, utmField.nullable().optional()])
+) as Record<UtmField, z.ZodOptional<z.ZodNullable<typeof utmField>>>;
+
+export const CreateLinkSchema = z.object({
+  originalUrl: originalUrlField,
+  customAlias: customAliasField.optional(),
+  description: descriptionField.optional(),
+  expiresAt: expiresAtField.optional(),
+  maxClicks: maxClicksField.optional(),
+  password: passwordField.optional(),
+  ...utmFields,
+  forwardQuery: z.boolean().optional(),
+  queryPrecedence: z.enum(QUERY_PRECEDENCES).optional(),
+  geoRules: geoRulesField.optional(),
+  deviceRules: deviceRulesField.optional(),
+  variants: variantsField.optional(),
+  folderId: folderIdField.optional(),
+  tags: tagsField.optional(),
+});
+
+// Every field is optional; null clears description, expiry, max clicks, password, UTM values, alias and folder
+export const UpdateLinkSchema = z
+  .object({
+    originalUrl: originalUrlField.optional(),
+    customAlias: customAliasField.nullable().optional(),
+    description: descriptionField.nullable().optional(),
+    expiresAt: expiresAtField.nullable().optional(),
+    maxClicks: maxClicksField.nullable().optional(),
+    password: passwordField.nullable().optional(),
+    ...nullableUtmFields,
+    forwardQuery: z.boolean().optional(),
+    queryPrecedence: z.enum(QUERY_PRECEDENCES).optional(),
+    geoRules: geoRulesField.optional(),
+    deviceRules: deviceRulesField.optional(),
+    variants: variantsField.optional(),
+    folderId: folderIdField.nullable().optional(),
+    tags: tagsField.optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one field must be provided",
+  });
+
+export type CreateLinkInput = z.infer<typeof CreateLinkSchema>;
+export type UpdateLinkInput = z.infer<typeof UpdateLinkSchema>;
+
+/**
+ * Map validated update input onto database columns
+ * The short code never changes, so shared URLs and printed QR codes keep
+ * working; a new alias resolves alongside it (see getLinkByCode)
+ */
+export function toLinkUpdate(input: UpdateLinkInput) {
+  const alias = input.customAlias?.toLowerCase();
+
+  return {
+    originalUrl: input.originalUrl,
+    description: input.description,
+    isActive: input.isActive,
+    expiresAt:
+      input.expiresAt === undefined ? undefined : input.expiresAt ? new Date(input.expiresAt) : null,
+    maxClicks: input.maxClicks,
+    password: input.password,
+    utmSource: input.utmSource,
+    utmMedium: input.utmMedium,
+    utmCampaign: input.utmCampaign,
+    utmTerm: input.utmTerm,
+    utmContent: input.utmContent,
+    forwardQuery: input.forwardQuery,
+    queryPrecedence: input.queryPrecedence,
+    geoRules: input.geoRules,
+    deviceRules: input.deviceRules,
+    variants: input.variants,
+    folderId: input.folderId,
+    tags: input.tags,
+    customAlias: input.customAlias === undefined ? undefined : alias ?? null,
+  };
+}
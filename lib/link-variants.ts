@@ -0,0 +1,60 @@
+/**
+ * A/B split destinations
+ * A link with variants sends each visitor to one of several URLs, chosen at
+ * random in proportion to the variant weights (70/30, 1/1/1, ...). The choice
+ * is remembered in a cookie so returning visitors see the same variant.
+ */
+
+export const MAX_LINK_VARIANTS = 10;
+
+export const VARIANT_COOKIE_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+export interface LinkVariant {
+  id: string;
+  url: string;
+  weight: number;
+}
+
+// Variants sent by clients get their id assigned when they are saved
+export type LinkVariantInput = Omit<LinkVariant, "id"> & { id?: string };
+
+export function getVariantCookieName(shortCode: string): string {
+  return `link_variant_${shortCode}`;
+}
+
+/**
+ * Pick a variant at random, weighted by `weight`
+ * @param random - Source of randomness in [0, 1), replaceable in tests
+ */
+export function pickVariant(
+  variants: LinkVariant[],
+  random: () => number = Math.random
+): LinkVariant | null {
+  const totalWeight = variants.reduce((total, variant) => total + variant.weight, 0);
+  if (totalWeight <= 0) {
+    return null;
+  }
+
+  let remaining = random() * totalWeight;
+  for (const variant of variants) {
+    remaining -= variant.weight;
+    if (remaining < 0) {
+      return variant;
+    }
+  }
+  return variants[variants.length - 1];
+}
+
+/**
+ * Choose the variant for a visitor
+ * Keeps the variant named by the visitor's cookie while it still exists,
+ * otherwise picks a new one
+ */
+export function chooseVariant(
+  variants: LinkVariant[],
+  stickyId: string | undefined,
+  random: () => number = Math.random
+): LinkVariant | null {
+  const sticky = stickyId ? variants.find((variant) => variant.id === stickyId) : undefined;
+  return sticky ?? pickVariant(variants, random);
+}
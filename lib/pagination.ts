@@ -0,0 +1,43 @@
+/**
+ * Cursor helpers for keyset pagination
+ * A cursor holds the sort value and id of the last row on a page, encoded as
+ * base64url JSON so clients can treat it as an opaque string.
+ */
+
+export interface Cursor {
+  value: string | number;
+  id: string;
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Decode a cursor string, returning null when it is malformed
+ */
+export function decodeCursor(raw: string): Cursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (
+      typeof parsed === "object" &&
+      parsed !== null &&
+      "value" in parsed &&
+      "id" in parsed &&
+      (typeof parsed.value === "string" || typeof parsed.value === "number") &&
+      typeof parsed.id === "string"
+    ) {
+      return { value: parsed.value, id: parsed.id };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Escape LIKE/ILIKE wildcards so user input is matched literally
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
@@ -0,0 +1,142 @@
+import { WORKSPACE_ROLE_LABELS, type WorkspaceRole } from "@/lib/workspaces";
+
+/**
+ * Permissions on link operations
+ * Every route and server action asks this module whether the caller's role
+ * allows an operation instead of comparing user IDs itself. Personal links
+ * resolve to the owner role, so their creator can do everything.
+ *
+ * - owner: everything
+ * - editor: everything except deleting links created by someone else
+ * - viewer: view links and their analytics
+ *
+ * API keys are further limited by their scopes: a key without links:write
+ * cannot create links even if its user could.
+ */
+
+export const LINK_PERMISSIONS = [
+  "view",
+  "create",
+  "edit",
+  "delete",
+  "view_analytics",
+  "export",
+] as const;
+export type LinkPermission = (typeof LINK_PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, readonly LinkPermission[]> = {
+  owner: LINK_PERMISSIONS,
+  editor: ["view", "create", "edit", "delete", "view_analytics", "export"],
+  viewer: ["view", "view_analytics"],
+};
+
+export const API_KEY_SCOPES = ["links:read", "links:write", "analytics:read"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "links:read": "Read links",
+  "links:write": "Create and change links",
+  "analytics:read": "Read analytics",
+};
+
+// The scope an API key needs for each operation
+const PERMISSION_SCOPES: Record<LinkPermission, ApiKeyScope> = {
+  view: "links:read",
+  create: "links:write",
+  edit: "links:write",
+  delete: "links:write",
+  view_analytics: "analytics:read",
+  export: "links:read",
+};
+
+// Error codes returned with 403 responses so clients can tell denials apart
+export const PERMISSION_ERROR_CODES = {
+  workspaceAccess: "WORKSPACE_ACCESS_DENIED",
+  linkAccess: "LINK_ACCESS_DENIED",
+  apiKeyScope: "API_KEY_SCOPE_DENIED",
+  view: "LINK_VIEW_DENIED",
+  create: "LINK_CREATE_DENIED",
+  edit: "LINK_EDIT_DENIED",
+  delete: "LINK_DELETE_DENIED",
+  view_analytics: "ANALYTICS_VIEW_DENIED",
+  export: "LINK_EXPORT_DENIED",
+} as const;
+
+const PERMISSION_ACTIONS: Record<LinkPermission, string> = {
+  view: "view links",
+  create: "create links",
+  edit: "edit links",
+  delete: "delete links",
+  view_analytics: "view analytics",
+  export: "export links",
+};
+
+export type PermissionDenial = {
+  code: string;
+  message: string;
+};
+
+// Facts about the link an operation targets; omitted for workspace-wide operations
+export type PermissionContext = {
+  isCreator?: boolean;
+};
+
+export const WORKSPACE_ACCESS_DENIAL: PermissionDenial = {
+  code: PERMISSION_ERROR_CODES.workspaceAccess,
+  message: "You are not a member of this workspace",
+};
+
+export const LINK_ACCESS_DENIAL: PermissionDenial = {
+  code: PERMISSION_ERROR_CODES.linkAccess,
+  message: "This URL does not belong to you",
+};
+
+/**
+ * Why the role may not perform the operation, or null when it may
+ */
+export function getPermissionDenial(
+  role: WorkspaceRole,
+  permission: LinkPermission,
+  context: PermissionContext = {}
+): PermissionDenial | null {
+  if (!ROLE_PERMISSIONS[role].includes(permission)) {
+    return {
+      code: PERMISSION_ERROR_CODES[permission],
+      message: `${WORKSPACE_ROLE_LABELS[role]}s cannot ${PERMISSION_ACTIONS[permission]}`,
+    };
+  }
+
+  // Editors share links but only remove their own
+  if (permission === "delete" && role === "editor" && context.isCreator === false) {
+    return {
+      code: PERMISSION_ERROR_CODES.delete,
+      message: "Editors can only delete links they created",
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Why an API key with these scopes may not perform the operation, or null when it may
+ */
+export function getScopeDenial(
+  scopes: readonly ApiKeyScope[],
+  permission: LinkPermission
+): PermissionDenial | null {
+  const scope = PERMISSION_SCOPES[permission];
+  return scopes.includes(scope)
+    ? null
+    : {
+        code: PERMISSION_ERROR_CODES.apiKeyScope,
+        message: `This API key is missing the ${scope} scope`,
+      };
+}
+
+export function hasPermission(
+  role: WorkspaceRole,
+  permission: LinkPermission,
+  context: PermissionContext = {}
+): boolean {
+  return getPermissionDenial(role, permission, context) === null;
+}
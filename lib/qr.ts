@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+/**
+ * QR code options for short links
+ * Shared by the QR route, which renders codes in-process with the `qrcode`
+ * package (no external service ever sees the link), and the dashboard dialog.
+ */
+
+export const QR_FORMATS = ["svg", "png"] as const;
+export type QrFormat = (typeof QR_FORMATS)[number];
+
+// L ~7%, M ~15%, Q ~25%, H ~30% of the code can be damaged and still scan
+export const QR_ERROR_CORRECTION_LEVELS = ["L", "M", "Q", "H"] as const;
+
+const hexColorField = z
+  .string()
+  .regex(/^#?([0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/, "Colors must be 6 or 8 digit hex values")
+  .transform((value) => `#${value.replace(/^#/, "").toLowerCase()}`);
+
+export const QrOptionsSchema = z.object({
+  format: z.enum(QR_FORMATS).default("svg"),
+  size: z.coerce.number().int().min(64).max(2048).default(512),
+  margin: z.coerce.number().int().min(0).max(16).default(4),
+  fg: hexColorField.default("#000000"),
+  bg: hexColorField.default("#ffffff"),
+  ecc: z.enum(QR_ERROR_CORRECTION_LEVELS).default("M"),
+});
+
+export type QrOptions = z.infer<typeof QrOptionsSchema>;
+
+export const QR_CONTENT_TYPES: Record<QrFormat, string> = {
+  svg: "image/svg+xml",
+  png: "image/png",
+};
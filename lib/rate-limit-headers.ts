@@ -0,0 +1,37 @@
+import type { RateLimitResult } from "@/lib/rate-limit";
+
+/**
+ * X-RateLimit headers
+ * Route handlers record the rate limit a request was checked against; every
+ * response sent through withCorsHeaders then reports it, including errors.
+ */
+
+export const RATE_LIMIT_HEADERS = [
+  "X-RateLimit-Limit",
+  "X-RateLimit-Remaining",
+  "X-RateLimit-Reset",
+  "Retry-After",
+];
+
+const recorded = new WeakMap<Request, RateLimitResult>();
+
+export function recordRateLimit(request: Request, result: RateLimitResult): void {
+  recorded.set(request, result);
+}
+
+// Reset is reported in epoch seconds; Retry-After in seconds from now, only once the limit is hit
+export function setRateLimitHeaders(headers: Headers, result: RateLimitResult): void {
+  headers.set("X-RateLimit-Limit", String(result.limit));
+  headers.set("X-RateLimit-Remaining", String(Math.max(0, result.remaining)));
+  headers.set("X-RateLimit-Reset", String(Math.ceil(result.resetTime / 1000)));
+  if (!result.success) {
+    headers.set("Retry-After", String(Math.max(0, Math.ceil((result.resetTime - Date.now()) / 1000))));
+  }
+}
+
+export function applyRateLimitHeaders(request: Request, headers: Headers): void {
+  const result = recorded.get(request);
+  if (result) {
+    setRateLimitHeaders(headers, result);
+  }
+}
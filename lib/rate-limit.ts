@@ -10,17 +10,23 @@
  * Environment variables:
  * - UPSTASH_REDIS_REST_URL: REST API endpoint
  * - UPSTASH_REDIS_REST_TOKEN: Authentication token
+ *
+ * `rateLimiter` limits requests per IP. `apiKeyRateLimiter` limits API key
+ * requests per key, with each key's own quota passed as `maxRequests`.
  */
 
+import { API_KEY_RATE_LIMIT_WINDOW_SECONDS, DEFAULT_API_KEY_RATE_LIMIT } from "@/lib/api-keys";
+
 interface RateLimitEntry {
   count: number;
   resetTime: number;
 }
 
-interface RateLimitResult {
+export interface RateLimitResult {
   success: boolean;
+  limit: number;
   remaining: number;
-  resetTime?: number;
+  resetTime: number; // epoch milliseconds when the window resets
 }
 
 class InMemoryRateLimiter {
@@ -36,27 +42,53 @@ class InMemoryRateLimiter {
     setInterval(() => this.cleanup(), 300000);
   }
 
-  async limit(identifier: string): Promise<RateLimitResult> {
+  /**
+   * Record a hit for the identifier
+   * `weight` lets expensive requests (e.g. bulk operations) count as several hits;
+   * `maxRequests` overrides the limit for identifiers with their own quota
+   */
+  async limit(
+    identifier: string,
+    weight: number = 1,
+    maxRequests: number = this.maxRequests
+  ): Promise<RateLimitResult> {
     const now = Date.now();
     const entry = this.store.get(identifier);
     const windowMs = this.windowSeconds * 1000;
 
     if (!entry || now > entry.resetTime) {
       // Create new entry or reset expired one
+      const resetTime = now + windowMs;
+
+      // Too heavy for any window; nothing is recorded, so the allowance stays whole
+      if (weight > maxRequests) {
+        return { success: false, limit: maxRequests, remaining: maxRequests, resetTime };
+      }
+
       this.store.set(identifier, {
-        count: 1,
-        resetTime: now + windowMs,
+        count: weight,
+        resetTime,
       });
-      return { success: true, remaining: this.maxRequests - 1 };
+      return { success: true, limit: maxRequests, remaining: maxRequests - weight, resetTime };
     }
 
-    if (entry.count >= this.maxRequests) {
-      return { success: false, remaining: 0, resetTime: entry.resetTime };
+    if (entry.count + weight > maxRequests) {
+      return {
+        success: false,
+        limit: maxRequests,
+        remaining: Math.max(0, maxRequests - entry.count),
+        resetTime: entry.resetTime,
+      };
     }
 
     // Increment count
-    entry.count++;
-    return { success: true, remaining: this.maxRequests - entry.count };
+    entry.count += weight;
+    return {
+      success: true,
+      limit: maxRequests,
+      remaining: maxRequests - entry.count,
+      resetTime: entry.resetTime,
+    };
   }
 
   private cleanup(): void {
@@ -82,12 +114,17 @@ class UpstashRateLimiter {
     this.windowSeconds = windowSeconds;
   }
 
-  async limit(identifier: string): Promise<RateLimitResult> {
+  async limit(
+    identifier: string,
+    weight: number = 1,
+    maxRequests: number = this.maxRequests
+  ): Promise<RateLimitResult> {
+    const now = Date.now();
     try {
       const key = `rate_limit:${identifier}`;
 
-      // Use Redis INCR to increment counter
-      const response = await fetch(`${this.url}/incr/${key}`, {
+      // Use Redis INCRBY to increment counter by the request weight
+      const response = await fetch(`${this.url}/incrby/${key}/${weight}`, {
         method: "GET",
         headers: {
           Authorization: `Bearer ${this.token}`,
@@ -102,7 +139,8 @@ class UpstashRateLimiter {
       const count = data.result;
 
       // Set expiration on first request
-      if (count === 1) {
+      let resetTime = now + this.windowSeconds * 1000;
+      if (count === weight) {
         await fetch(`${this.url}/expire/${key}/${this.windowSeconds}`, {
           method: "GET",
           headers: {
@@ -111,19 +149,57 @@ class UpstashRateLimiter {
         }).catch(() => {
           // Ignore expiration errors
         });
+      } else {
+        resetTime = await this.getResetTime(key, resetTime);
       }
 
-      if (count > this.maxRequests) {
-        return { success: false, remaining: 0 };
+      // Rejected hits are given back so they don't eat into the next requests' allowance
+      if (count > maxRequests) {
+        await fetch(`${this.url}/decrby/${key}/${weight}`, {
+          method: "GET",
+          headers: {
+            Authorization: `Bearer ${this.token}`,
+          },
+        }).catch(() => {
+          // The key still expires with its window
+        });
+        return {
+          success: false,
+          limit: maxRequests,
+          remaining: Math.max(0, maxRequests - (count - weight)),
+          resetTime,
+        };
       }
 
-      return { success: true, remaining: this.maxRequests - count };
+      return { success: true, limit: maxRequests, remaining: maxRequests - count, resetTime };
     } catch (error) {
       console.error("Upstash rate limiter error:", error);
       // Fall back to allowing the request on error
-      return { success: true, remaining: this.maxRequests };
+      return {
+        success: true,
+        limit: maxRequests,
+        remaining: maxRequests,
+        resetTime: now + this.windowSeconds * 1000,
+      };
     }
   }
+
+  // When the key's window ends, from its remaining time to live
+  private async getResetTime(key: string, fallback: number): Promise<number> {
+    const response = await fetch(`${this.url}/pttl/${key}`, {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+      },
+    }).catch(() => null);
+
+    if (!response?.ok) {
+      return fallback;
+    }
+
+    const data = (await response.json()) as { result: number };
+    return data.result > 0 ? Date.now() + data.result : fallback;
+  }
 }
 
 // Determine which rate limiter to use
@@ -131,15 +207,21 @@ const useUpstash =
   process.env.UPSTASH_REDIS_REST_URL &&
   process.env.UPSTASH_REDIS_REST_TOKEN;
 
-export const rateLimiter = useUpstash
-  ? new UpstashRateLimiter(
-      parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || "10"),
-      parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || "60")
-    )
-  : new InMemoryRateLimiter(
-      parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || "10"),
-      parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || "60")
-    );
+function createRateLimiter(maxRequests: number, windowSeconds: number) {
+  return useUpstash
+    ? new UpstashRateLimiter(maxRequests, windowSeconds)
+    : new InMemoryRateLimiter(maxRequests, windowSeconds);
+}
+
+export const rateLimiter = createRateLimiter(
+  parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || "10"),
+  parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || "60")
+);
+
+export const apiKeyRateLimiter = createRateLimiter(
+  DEFAULT_API_KEY_RATE_LIMIT,
+  API_KEY_RATE_LIMIT_WINDOW_SECONDS
+);
 
 // Log which rate limiter is being used
 if (typeof window === "undefined") {
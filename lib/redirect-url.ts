@@ -0,0 +1,59 @@
+import { applyUtmParams, type UtmParams } from "@/lib/utm";
+
+/**
+ * Destination URL for a short link redirect
+ * Applies the link's UTM parameters and, when enabled, forwards the visitor's
+ * query string. Fragments never reach the server: the destination's own
+ * fragment is kept, and when it has none the browser carries the visitor's
+ * fragment over to the redirect target.
+ */
+
+export const QUERY_PRECEDENCES = ["link", "incoming"] as const;
+export type QueryPrecedence = (typeof QUERY_PRECEDENCES)[number];
+
+export type RedirectOptions = Partial<UtmParams> & {
+  forwardQuery: boolean;
+  queryPrecedence: QueryPrecedence;
+};
+
+/**
+ * Merge incoming query parameters into a URL
+ * With "link" precedence keys already on the URL keep their values; with
+ * "incoming" precedence the visitor's values replace them. Repeated keys
+ * (e.g. ?tag=a&tag=b) are forwarded as-is.
+ */
+export function mergeQueryParams(
+  destination: string,
+  incoming: URLSearchParams,
+  precedence: QueryPrecedence
+): string {
+  const keys = [...new Set(incoming.keys())];
+  if (keys.length === 0) {
+    return destination;
+  }
+
+  const url = new URL(destination);
+  for (const key of keys) {
+    if (url.searchParams.has(key)) {
+      if (precedence === "link") {
+        continue;
+      }
+      url.searchParams.delete(key);
+    }
+    for (const value of incoming.getAll(key)) {
+      url.searchParams.append(key, value);
+    }
+  }
+  return url.toString();
+}
+
+export function buildDestinationUrl(
+  originalUrl: string,
+  options: RedirectOptions,
+  incoming: URLSearchParams
+): string {
+  const withUtm = applyUtmParams(originalUrl, options);
+  return options.forwardQuery
+    ? mergeQueryParams(withUtm, incoming, options.queryPrecedence)
+    : withUtm;
+}
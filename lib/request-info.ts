@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server";
+
+/**
+ * Request metadata helpers
+ * Extracts client details from proxy/CDN headers for analytics and rate limiting
+ */
+
+const COUNTRY_HEADERS = ["x-vercel-ip-country", "cf-ipcountry", "x-country-code"];
+
+// HTTP header names are tokens (RFC 9110); Headers.get throws on anything else
+const HEADER_NAME_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Get the client IP address
+ * Uses the first entry of x-forwarded-for (the original client), then x-real-ip
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  if (forwardedFor) {
+    const [first] = forwardedFor.split(",");
+    if (first.trim()) {
+      return first.trim().slice(0, 45);
+    }
+  }
+
+  return request.headers.get("x-real-ip")?.slice(0, 45) ?? null;
+}
+
+/**
+ * Get the two-letter ISO country code set by the hosting provider
+ * A header named in GEO_COUNTRY_HEADER is checked before the built-in ones;
+ * a value that is not a valid header name is ignored.
+ * Returns null when no header is present or the value is not a valid code
+ * (Cloudflare uses "XX" for unknown and "T1" for Tor)
+ */
+export function getRequestCountry(request: NextRequest): string | null {
+  const configuredHeader = process.env.GEO_COUNTRY_HEADER?.trim();
+  const headers =
+    configuredHeader && HEADER_NAME_PATTERN.test(configuredHeader)
+      ? [configuredHeader, ...COUNTRY_HEADERS]
+      : COUNTRY_HEADERS;
+
+  for (const header of headers) {
+    const value = request.headers.get(header)?.trim().toUpperCase();
+    if (value && /^[A-Z]{2}$/.test(value) && value !== "XX") {
+      return value;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,16 @@
+// Matches the short_code column length
+export const SHORT_CODE_MAX_LENGTH = 12;
+
+const SHORT_CODE_CHARS = "abcdefghijklmnopqrstuvwxyz0123456789";
+
+/**
+ * Generate a random lowercase short code
+ * Callers must still check uniqueness against existing links.
+ */
+export function generateShortCode(length: number = 8): string {
+  let result = "";
+  for (let i = 0; i < length; i++) {
+    result += SHORT_CODE_CHARS.charAt(Math.floor(Math.random() * SHORT_CODE_CHARS.length));
+  }
+  return result;
+}
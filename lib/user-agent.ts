@@ -0,0 +1,73 @@
+/**
+ * Lightweight user agent parsing
+ * Classifies browser, operating system and device type for click analytics
+ * Matches on well-known tokens only; unrecognised agents fall back to "Other"
+ */
+
+export type DeviceType = "mobile" | "tablet" | "desktop" | "bot" | "unknown";
+
+export interface ParsedUserAgent {
+  browser: string;
+  os: string;
+  device: DeviceType;
+}
+
+const BOT_PATTERN = /bot|crawler|spider|slurp|facebookexternalhit|embedly|preview|curl|wget/i;
+
+// Order matters: Chromium-based browsers also send "Chrome" and "Safari" tokens
+const BROWSER_PATTERNS: Array<[string, RegExp]> = [
+  ["Edge", /Edg(e|A|iOS)?\//],
+  ["Opera", /OPR\/|Opera/],
+  ["Samsung Internet", /SamsungBrowser\//],
+  ["Firefox", /Firefox\/|FxiOS\//],
+  ["Chrome", /Chrome\/|CriOS\//],
+  ["Safari", /Version\/.*Safari\//],
+];
+
+// iOS and Android must be checked before macOS and Linux
+const OS_PATTERNS: Array<[string, RegExp]> = [
+  ["iOS", /iPhone|iPad|iPod/],
+  ["Android", /Android/],
+  ["Windows", /Windows/],
+  ["ChromeOS", /CrOS/],
+  ["macOS", /Macintosh|Mac OS X/],
+  ["Linux", /Linux/],
+];
+
+function matchFirst(userAgent: string, patterns: Array<[string, RegExp]>): string {
+  for (const [name, pattern] of patterns) {
+    if (pattern.test(userAgent)) {
+      return name;
+    }
+  }
+  return "Other";
+}
+
+function detectDevice(userAgent: string): DeviceType {
+  if (BOT_PATTERN.test(userAgent)) {
+    return "bot";
+  }
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    return "tablet";
+  }
+  if (/Mobi|iPhone|iPod|Android/.test(userAgent)) {
+    return "mobile";
+  }
+  return "desktop";
+}
+
+/**
+ * Parse a user-agent header value
+ * @param userAgent - Raw header value, or null when the client sent none
+ */
+export function parseUserAgent(userAgent: string | null | undefined): ParsedUserAgent {
+  if (!userAgent) {
+    return { browser: "Unknown", os: "Unknown", device: "unknown" };
+  }
+
+  return {
+    browser: matchFirst(userAgent, BROWSER_PATTERNS),
+    os: matchFirst(userAgent, OS_PATTERNS),
+    device: detectDevice(userAgent),
+  };
+}
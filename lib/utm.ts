@@ -0,0 +1,52 @@
+/**
+ * UTM campaign parameters
+ * Stored as separate columns on each link and merged into the destination URL
+ * when the short link redirects.
+ */
+
+export const UTM_FIELDS = [
+  "utmSource",
+  "utmMedium",
+  "utmCampaign",
+  "utmTerm",
+  "utmContent",
+] as const;
+
+export type UtmField = (typeof UTM_FIELDS)[number];
+
+export type UtmParams = Record<UtmField, string | null>;
+
+// Column name -> query string parameter
+export const UTM_QUERY_PARAMS: Record<UtmField, string> = {
+  utmSource: "utm_source",
+  utmMedium: "utm_medium",
+  utmCampaign: "utm_campaign",
+  utmTerm: "utm_term",
+  utmContent: "utm_content",
+};
+
+export const UTM_LABELS: Record<UtmField, string> = {
+  utmSource: "Source",
+  utmMedium: "Medium",
+  utmCampaign: "Campaign",
+  utmTerm: "Term",
+  utmContent: "Content",
+};
+
+/**
+ * Merge a link's UTM parameters into its destination URL
+ * Values stored on the link override utm_* parameters already in the URL;
+ * everything else in the URL, including the fragment, is kept as is.
+ */
+export function applyUtmParams(originalUrl: string, utm: Partial<UtmParams>): string {
+  const fields = UTM_FIELDS.filter((field) => utm[field]);
+  if (fields.length === 0) {
+    return originalUrl;
+  }
+
+  const url = new URL(originalUrl);
+  for (const field of fields) {
+    url.searchParams.set(UTM_QUERY_PARAMS[field], utm[field]!);
+  }
+  return url.toString();
+}
@@ -0,0 +1,56 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { WEBHOOK_SIGNATURE_TOLERANCE_SECONDS } from "@/lib/webhooks";
+
+/**
+ * Signing webhook requests
+ * The X-Webhook-Signature header reads "t=<unix seconds>,v1=<hex>", where the
+ * hex value is the HMAC-SHA256 of "<t>.<raw body>" keyed with the webhook's
+ * secret. Kept apart from lib/webhooks.ts so the dashboard can use its
+ * constants without bundling Node's crypto module.
+ */
+
+export const WEBHOOK_SECRET_PREFIX = "whsec_";
+
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+export function createSignatureHeader(secret: string, body: string, now: Date = new Date()): string {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`;
+}
+
+/**
+ * Check a signature header against the raw body, as a receiver would
+ * Fails for malformed headers and for timestamps outside the tolerance.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | null,
+  body: string,
+  now: Date = new Date()
+): boolean {
+  const parts = new Map(
+    (header ?? "").split(",").map((part) => {
+      const [key, ...value] = part.trim().split("=");
+      return [key, value.join("=")] as const;
+    })
+  );
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+
+  if (Math.abs(now.getTime() / 1000 - timestamp) > WEBHOOK_SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,223 @@
+import { z } from "zod";
+
+/**
+ * Outgoing webhooks
+ * A webhook subscribes a URL to events for the links in one scope: the user's
+ * personal links or a workspace's. Each event is POSTed as JSON and signed with
+ * the webhook's secret (see lib/webhook-signature.ts). Failed deliveries are
+ * retried with exponential backoff by the webhooks cron route and every
+ * attempt is kept in the delivery log.
+ */
+
+export const WEBHOOK_EVENTS = [
+  "link.created",
+  "link.updated",
+  "link.deleted",
+  "link.expired",
+  "link.clicked",
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Sent by the "send test event" button, regardless of the webhook's subscriptions
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+export type WebhookEventType = WebhookEvent | typeof WEBHOOK_TEST_EVENT;
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  "link.created": "Link created",
+  "link.updated": "Link updated",
+  "link.deleted": "Link deleted (moved to trash)",
+  "link.expired": "Link expired",
+  "link.clicked": "Link clicked",
+};
+
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "succeeded", "failed"] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export const MAX_WEBHOOKS_PER_SCOPE = 10;
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-webhook-signature";
+export const WEBHOOK_EVENT_HEADER = "x-webhook-event";
+export const WEBHOOK_DELIVERY_HEADER = "x-webhook-delivery";
+
+// Receivers should reject signatures older than this to stop replays
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+// Six attempts spread over about half an hour: 1, 2, 4, 8 and 16 minutes apart
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+export const WEBHOOK_RETRY_BASE_DELAY_SECONDS = 60;
+
+// Deliveries older than this are removed from the log
+export const WEBHOOK_DELIVERY_RETENTION_DAYS = 30;
+
+/**
+ * Delay before the next attempt, given the number of attempts made so far
+ * Returns null once the delivery has used all its attempts.
+ */
+export function getWebhookRetryDelayMs(attempts: number): number | null {
+  if (attempts >= MAX_WEBHOOK_ATTEMPTS) {
+    return null;
+  }
+  return WEBHOOK_RETRY_BASE_DELAY_SECONDS * 1000 * 2 ** Math.max(attempts - 1, 0);
+}
+
+// Body of every webhook request; deliveries of the same event share everything but the ID
+export type WebhookPayload = {
+  id: string; // delivery ID, also sent in the X-Webhook-Delivery header
+  event: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+};
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // "this" network, including 0.0.0.0
+    a === 10 ||
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, including cloud metadata endpoints
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224 // multicast and reserved
+  );
+}
+
+// The eight 16-bit groups of an IPv6 address, or null when it isn't one
+function parseIPv6(address: string): number[] | null {
+  let rest = address.toLowerCase().replace(/^\[|\]$/g, "").replace(/%.*$/, "");
+  const tail: number[] = [];
+
+  // A trailing dotted IPv4 address fills the last two groups
+  const dotted = rest.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const octets = parseIPv4(dotted[2]);
+    if (!octets) {
+      return null;
+    }
+    tail.push((octets[0] << 8) | octets[1], (octets[2] << 8) | octets[3]);
+    rest = dotted[1].endsWith("::") ? dotted[1] : dotted[1].slice(0, -1);
+  }
+
+  const halves = rest.split("::");
+  if (halves.length > 2) {
+    return null;
+  }
+  const toGroups = (half: string) => (half ? half.split(":") : []);
+  const head = toGroups(halves[0]);
+  const end = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (![...head, ...end].every((group) => /^[0-9a-f]{1,4}$/.test(group))) {
+    return null;
+  }
+
+  const missing = 8 - head.length - end.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+  return [
+    ...head.map((group) => parseInt(group, 16)),
+    ...Array<number>(missing).fill(0),
+    ...end.map((group) => parseInt(group, 16)),
+    ...tail,
+  ];
+}
+
+function toIPv4(high: number, low: number): number[] {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff];
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on
+ * the public internet. IPv6 forms that carry an IPv4 address (mapped,
+ * compatible, NAT64 and 6to4) are judged by that address. Addresses that are
+ * not IPs at all return false.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) {
+    return isPrivateIPv4(ipv4);
+  }
+
+  const groups = parseIPv6(address);
+  if (!groups) {
+    return false;
+  }
+  const [first, second, third] = groups;
+  const zeroUntil = (end: number) => groups.slice(0, end).every((group) => group === 0);
+
+  // ::a.b.c.d (IPv4-compatible, also covering :: and ::1) and ::ffff:a.b.c.d (IPv4-mapped)
+  if (zeroUntil(6) || (zeroUntil(5) && groups[5] === 0xffff)) {
+    return isPrivateIPv4(toIPv4(groups[6], groups[7]));
+  }
+  // NAT64, 64:ff9b::a.b.c.d; anything else under 64:ff9b (e.g. local-use 64:ff9b:1::/48) is private
+  if (first === 0x64 && second === 0xff9b) {
+    const wellKnown = groups.slice(2, 6).every((group) => group === 0);
+    return !wellKnown || isPrivateIPv4(toIPv4(groups[6], groups[7]));
+  }
+  // 6to4, 2002:aabb:ccdd::/48
+  if (first === 0x2002) {
+    return isPrivateIPv4(toIPv4(second, third));
+  }
+
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local, fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local, fe80::/10
+    (first & 0xffc0) === 0xfec0 || // deprecated site-local, fec0::/10
+    (first & 0xff00) === 0xff00 // multicast
+  );
+}
+
+/**
+ * Whether a webhook URL points at this machine or a private network
+ * Only catches hosts written as IPs or localhost; names that resolve to a
+ * private address are caught when the delivery is sent.
+ */
+export function isPrivateWebhookUrl(value: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(value).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return (
+    hostname === "localhost" ||
+    hostname.endsWith(".localhost") ||
+    isPrivateAddress(hostname)
+  );
+}
+
+const webhookUrlField = z.string()
+  .trim()
+  .url("Invalid webhook URL")
+  .max(2048, "Webhook URL must be at most 2048 characters")
+  .refine((value) => /^https?:\/\//i.test(value), "Webhook URL must use http or https")
+  .refine((value) => !isPrivateWebhookUrl(value), "Webhook URL must be on the public internet");
+
+const webhookEventsField = z
+  .array(z.enum(WEBHOOK_EVENTS))
+  .min(1, "Pick at least one event")
+  .transform((events) => [...new Set(events)]);
+
+export const CreateWebhookSchema = z.object({
+  url: webhookUrlField,
+  events: webhookEventsField,
+});
+
+export const UpdateWebhookSchema = z.object({
+  url: webhookUrlField.optional(),
+  events: webhookEventsField.optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type CreateWebhookInput = z.input<typeof CreateWebhookSchema>;
+export type WebhookSettings = z.infer<typeof CreateWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof UpdateWebhookSchema>;
@@ -0,0 +1,73 @@
+import { z } from "zod";
+
+/**
+ * Team workspaces
+ * A workspace owns shared links. Members have one role each:
+ * - owner: manage members and links
+ * - editor: create and edit links, and delete the ones they created
+ * - viewer: read links and analytics
+ * What each role may do with links is decided in lib/permissions.ts.
+ *
+ * Links without a workspace are personal and only visible to their creator.
+ * Clients pick the workspace a request works in with the X-Workspace-Id header
+ * or, in the dashboard, the workspace_id cookie set by the switcher.
+ */
+
+export const WORKSPACE_ROLES = ["owner", "editor", "viewer"] as const;
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+export const WORKSPACE_HEADER = "x-workspace-id";
+export const WORKSPACE_COOKIE = "workspace_id";
+
+// Whose links a request works with: the user's personal links (workspaceId null) or a workspace's
+export type WorkspaceScope = {
+  userId: string;
+  workspaceId: string | null;
+};
+
+export function canManageMembers(role: WorkspaceRole): boolean {
+  return role === "owner";
+}
+
+/**
+ * Workspace requested by the client, if any
+ * The header wins over the cookie so API clients are unaffected by dashboard state
+ */
+export function getRequestedWorkspaceId(request: {
+  headers: Headers;
+  cookies: { get(name: string): { value: string } | undefined };
+}): string | null {
+  return (
+    request.headers.get(WORKSPACE_HEADER)?.trim() ||
+    request.cookies.get(WORKSPACE_COOKIE)?.value ||
+    null
+  );
+}
+
+const workspaceNameField = z.string()
+  .trim()
+  .min(1, "Workspace name is required")
+  .max(100, "Workspace name must be at most 100 characters");
+
+export const CreateWorkspaceSchema = z.object({
+  name: workspaceNameField,
+});
+
+export const AddWorkspaceMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+  role: z.enum(WORKSPACE_ROLES).default("editor"),
+});
+
+export const UpdateWorkspaceMemberSchema = z.object({
+  role: z.enum(WORKSPACE_ROLES),
+});
+
+export type CreateWorkspaceInput = z.infer<typeof CreateWorkspaceSchema>;
+export type AddWorkspaceMemberInput = z.input<typeof AddWorkspaceMemberSchema>;
+export type UpdateWorkspaceMemberInput = z.infer<typeof UpdateWorkspaceMemberSchema>;